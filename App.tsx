@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   Calculator, 
   Droplets, 
@@ -22,23 +22,335 @@ import {
   Plus,
   Trash2,
   ChevronDown,
-  ChevronRight
+  ChevronUp,
+  ChevronRight,
+  Layers,
+  Mountain,
+  Upload,
+  Magnet,
+  Cone,
+  RectangleHorizontal,
+  Omega,
+  Egg,
+  Rainbow,
+  AlertTriangle,
+  Download,
+  CornerDownRight,
+  GitFork,
+  Film
 } from 'lucide-react';
-import { ChannelType, InputParams, CalculationResult, DEFAULT_PARAMS, UnitSystem, SectionProperties, ProfilePoint, BoundaryCondition, CanalSectionInput } from './types';
-import { calculateFlow, calculateSectionProperties, solveNormalDepth, calculateMultiReachProfile } from './utils/calculations';
+import { ChannelType, InputParams, CalculationResult, DEFAULT_PARAMS, UnitSystem, SectionProperties, ProfilePoint, BoundaryCondition, CanalSectionInput, OverbankParams, SurveyPoint, CompositeRoughness, CompositeRoughnessMethod, SolveTarget, InverseResult, FrictionLaw, HydraulicJumpResult, TransitionInput, RatingPoint, ProfileSolverOptions, ReachSummary, ReachStatus, ControlCondition, ProfileJump, ReachClassification, ReachGeometry, SeepageMethod, StructureInput, StructureResult, StructureType, StructureFlow, JunctionLossInput, JunctionLossResult, ProfileResult, NetworkBranch, NetworkOptions, NetworkResult, FlowSplitMode, JunctionCompatibility, HydrographPoint, UnsteadyOptions, UnsteadyResult, UnsteadyDownstreamType, QuasiSteadyResult, DEFAULT_PROFILE_OPTIONS, DEFAULT_STRUCTURES, DEFAULT_JUNCTION_LOSS, DEFAULT_NETWORK_OPTIONS, DEFAULT_UNSTEADY_OPTIONS } from './types';
+import { calculateFlow, calculateSectionProperties, solveNormalDepth, calculateMultiReachProfile, supportsCompositeRoughness, getEquivalentManningN, solveInverse, getSolveTargets, getConduitRise, getPartFullRatios, calculateHydraulicJump, analyzeTransition, calculateRatingCurve, resolveReachSection, solveCriticalDepth, calculateNetworkProfile, networkPathProfile, routeMuskingumCunge, calculateUnsteadyFlow, unsteadyHydrographAt, unsteadySnapshotProfile, calculateQuasiSteadyProfiles } from './utils/calculations';
 import ChannelVisualizer from './components/ChannelVisualizer';
 import TimeSeriesChart from './components/TimeSeriesChart';
 import ProfileChart from './components/ProfileChart';
+import PartFullChart from './components/PartFullChart';
+import SpecificCurvesChart from './components/SpecificCurvesChart';
+import TransitionDiagram from './components/TransitionDiagram';
+import SectionThumbnail from './components/SectionThumbnail';
+import NetworkSchematic from './components/NetworkSchematic';
+import PlaybackTimeline from './components/PlaybackTimeline';
 
 const ChannelIcons = {
   [ChannelType.Rectangular]: Square,
   [ChannelType.Trapezoidal]: Spline, 
   [ChannelType.Triangular]: Triangle,
   [ChannelType.Circular]: Circle,
+  [ChannelType.Compound]: Layers,
+  [ChannelType.Surveyed]: Mountain,
+  [ChannelType.Parabolic]: Magnet,
+  [ChannelType.RoundBottom]: Cone,
+  [ChannelType.Box]: RectangleHorizontal,
+  [ChannelType.Horseshoe]: Omega,
+  [ChannelType.Egg]: Egg,
+  [ChannelType.PipeArch]: Rainbow,
 };
 
-type AnalysisMode = 'Normal' | 'Critical' | 'Custom';
-type AppView = 'Calculator' | 'Hydrograph' | 'CanalModel' | 'Theory' | 'Settings' | 'About';
+const SOLVE_LABELS: Record<SolveTarget, string> = {
+  depth: 'Normal Depth y',
+  flowRate: 'Flow Rate Q',
+  width: 'Width b',
+  diameter: 'Diameter D',
+  sideSlope: 'Side Slope z',
+  slope: 'Slope S',
+  manningN: "Manning's n",
+};
+
+const FRICTION_LAWS: { value: FrictionLaw; label: string }[] = [
+  { value: 'Manning', label: 'Manning' },
+  { value: 'Strickler', label: 'Strickler' },
+  { value: 'Chezy', label: 'Chézy' },
+  { value: 'DarcyWeisbach', label: 'Darcy–Weisbach (Colebrook–White)' },
+];
+
+const COMPOSITE_METHODS: { value: CompositeRoughnessMethod; label: string }[] = [
+  { value: 'HortonEinstein', label: 'Horton–Einstein' },
+  { value: 'Pavlovskii', label: 'Pavlovskii' },
+  { value: 'Lotter', label: 'Lotter' },
+];
+
+// Parametric shapes a reach can take; Compound and Surveyed only through the calculator section
+const REACH_SHAPES = Object.values(ChannelType).filter(t => t !== ChannelType.Compound && t !== ChannelType.Surveyed);
+
+const SEEPAGE_METHODS: { value: SeepageMethod; label: string }[] = [
+  { value: 'None', label: 'No seepage' },
+  { value: 'WettedPerimeter', label: 'Wetted perimeter (k·P)' },
+  { value: 'Moritz', label: 'Moritz' },
+];
+
+const STRUCTURE_TYPES: { value: StructureType; label: string }[] = [
+  { value: 'BroadCrestedWeir', label: 'Broad-crested weir' },
+  { value: 'SharpCrestedWeir', label: 'Sharp-crested weir' },
+  { value: 'SluiceGate', label: 'Sluice gate' },
+  { value: 'Drop', label: 'Vertical drop' },
+  { value: 'Culvert', label: 'Culvert (circular)' },
+];
+
+type StructureField = Exclude<keyof StructureInput, 'type'>;
+
+const WEIR_FIELDS: { field: StructureField; label: string; isLength?: boolean }[] = [
+  { field: 'width', label: 'Crest Length', isLength: true },
+  { field: 'height', label: 'Crest Height', isLength: true },
+  { field: 'coefficient', label: 'Cd' },
+];
+
+const STRUCTURE_FIELDS: Record<StructureType, { field: StructureField; label: string; isLength?: boolean }[]> = {
+  BroadCrestedWeir: WEIR_FIELDS,
+  SharpCrestedWeir: WEIR_FIELDS,
+  SluiceGate: [
+    { field: 'width', label: 'Gate Width', isLength: true },
+    { field: 'opening', label: 'Opening a', isLength: true },
+    { field: 'coefficient', label: 'Cc' },
+  ],
+  Drop: [{ field: 'height', label: 'Drop Height', isLength: true }],
+  Culvert: [
+    { field: 'width', label: 'Diameter', isLength: true },
+    { field: 'length', label: 'Barrel Length', isLength: true },
+    { field: 'manningN', label: 'Barrel n' },
+    { field: 'coefficient', label: 'Entrance Ke' },
+  ],
+};
+
+const JUNCTION_LOSS_FIELDS: { field: keyof JunctionLossInput; label: string; step: string }[] = [
+  { field: 'contractionCoeff', label: 'Contraction Kc', step: '0.05' },
+  { field: 'expansionCoeff', label: 'Expansion Ke', step: '0.05' },
+  { field: 'bendAngle', label: 'Bend Angle (°)', step: '5' },
+  { field: 'fixedK', label: 'Fixed K', step: '0.05' },
+];
+
+const STRUCTURE_FLOW: Record<StructureFlow, { label: string; badge: string }> = {
+  Free: { label: 'Free', badge: 'bg-emerald-50 text-emerald-700 border-emerald-100' },
+  Submerged: { label: 'Submerged', badge: 'bg-amber-50 text-amber-700 border-amber-100' },
+  InletControl: { label: 'Inlet control', badge: 'bg-sky-50 text-sky-700 border-sky-100' },
+  OutletControl: { label: 'Outlet control', badge: 'bg-amber-50 text-amber-700 border-amber-100' },
+  Inactive: { label: 'Inactive', badge: 'bg-slate-50 text-slate-600 border-slate-200' },
+};
+
+type StationSortKey = Exclude<keyof ProfilePoint, 'normalDepthElevation'>;
+
+// Per-station results table; unit keys index the U labels
+const STATION_COLUMNS: { key: StationSortKey; label: string; unit?: 'L' | 'Q' | 'V' | 'Energy'; format: (v: number) => string }[] = [
+  { key: 'distance', label: 'Chainage', unit: 'L', format: v => v.toFixed(1) },
+  { key: 'sectionIndex', label: 'Reach', format: v => String(v + 1) },
+  { key: 'depth', label: 'y', unit: 'L', format: v => v.toFixed(3) },
+  { key: 'discharge', label: 'Q', unit: 'Q', format: v => v.toFixed(3) },
+  { key: 'velocity', label: 'V', unit: 'V', format: v => v.toFixed(3) },
+  { key: 'froudeNumber', label: 'Fr', format: v => v.toFixed(3) },
+  { key: 'specificEnergy', label: 'E', unit: 'Energy', format: v => v.toFixed(3) },
+  { key: 'totalHead', label: 'H', unit: 'Energy', format: v => v.toFixed(3) },
+  { key: 'frictionSlope', label: 'Sf', format: v => v.toExponential(2) },
+  { key: 'frictionLoss', label: 'Σ hf', unit: 'Energy', format: v => v.toFixed(3) },
+  { key: 'localLoss', label: 'Σ h local', unit: 'Energy', format: v => v.toFixed(3) },
+];
+
+const BC_ENDS: { end: keyof BoundaryCondition; label: string }[] = [
+  { end: 'upstream', label: 'Upstream End' },
+  { end: 'downstream', label: 'Downstream End' },
+];
+
+const DEFAULT_CONTROLS: Record<keyof BoundaryCondition, ControlCondition> = {
+  upstream: { type: 'CriticalDepth', value: 0.5 },
+  downstream: { type: 'NormalDepth', value: 2.0 },
+};
+
+const MAIN_CANAL = 'main'; // Network id of the canal held in canalSections
+const MAX_BRANCHES = 6;
+
+const SPLIT_MODES: { value: FlowSplitMode; label: string }[] = [
+  { value: 'Solved', label: 'Solved from controls' },
+  { value: 'Fixed', label: 'Fixed shares' },
+];
+
+const COMPATIBILITY_METHODS: { value: JunctionCompatibility; label: string }[] = [
+  { value: 'Energy', label: 'Energy level' },
+  { value: 'Momentum', label: 'Momentum' },
+];
+
+const TAIL_CONTROLS: { value: ControlCondition['type']; label: string }[] = [
+  { value: 'NormalDepth', label: 'Normal depth' },
+  { value: 'CriticalDepth', label: 'Critical depth' },
+  { value: 'KnownDepth', label: 'Known depth' },
+];
+
+const UNSTEADY_BOUNDARIES: { value: UnsteadyDownstreamType; label: string }[] = [
+  { value: 'NormalDepth', label: 'Normal depth' },
+  { value: 'Stage', label: 'Fixed stage' },
+  { value: 'Rating', label: 'Rating Q = C·y^m' },
+];
+
+type PlaybackSource = 'QuasiSteady' | 'Unsteady';
+
+const PLAYBACK_SOURCES: { value: PlaybackSource; label: string }[] = [
+  { value: 'QuasiSteady', label: 'Quasi-steady profiles' },
+  { value: 'Unsteady', label: 'Unsteady run' },
+];
+
+const PLAYBACK_FPS = 8; // Frames per second at 1×
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+const QUASI_STEADY_FRAMES = 60; // Evenly spaced, on top of the hydrograph's own points
+
+// Depth, level and discharge at a chainage, interpolated between profile points
+const profileAt = (points: ProfilePoint[], distance: number) => {
+  if (points.length === 0) return null;
+  let k = points.findIndex(p => p.distance >= distance);
+  if (k < 0) k = points.length - 1;
+  const a = points[Math.max(0, k - 1)], b = points[k];
+  const w = b.distance > a.distance ? Math.min(1, Math.max(0, (distance - a.distance) / (b.distance - a.distance))) : 1;
+  const lerp = (u: number, v: number) => u + w * (v - u);
+  return {
+    depth: lerp(a.depth, b.depth),
+    waterElevation: lerp(a.waterElevation, b.waterElevation),
+    discharge: lerp(a.discharge, b.discharge),
+    sectionIndex: w < 1 ? a.sectionIndex : b.sectionIndex,
+  };
+};
+
+// Seconds per unit of the hydrograph's time column
+const HYDROGRAPH_TIME_UNITS: { value: number; label: string; short: string }[] = [
+  { value: 3600, label: 'Hours', short: 'h' },
+  { value: 60, label: 'Minutes', short: 'min' },
+  { value: 1, label: 'Seconds', short: 's' },
+  { value: 86400, label: 'Days', short: 'd' },
+];
+
+const REACH_STATUS: Record<ReachStatus, { label: string; badge: string }> = {
+  Complete: { label: 'Complete', badge: 'bg-emerald-50 text-emerald-700 border-emerald-100' },
+  ReachedCritical: { label: 'Stopped at yc', badge: 'bg-amber-50 text-amber-700 border-amber-100' },
+  Surcharged: { label: 'Surcharged', badge: 'bg-rose-50 text-rose-700 border-rose-100' },
+  StepLimit: { label: 'Step limit', badge: 'bg-rose-50 text-rose-700 border-rose-100' },
+};
+
+// Perimeter parts that carry their own n, per shape
+const compositeParts = (type: ChannelType): { field: keyof Omit<CompositeRoughness, 'method'>; label: string }[] => {
+  if (type === ChannelType.Circular) return [{ field: 'bedN', label: 'Invert n' }, { field: 'crownN', label: 'Crown n' }];
+  const banks = [{ field: 'leftBankN' as const, label: 'Left Bank n' }, { field: 'rightBankN' as const, label: 'Right Bank n' }];
+  return type === ChannelType.Triangular ? banks : [{ field: 'bedN', label: 'Bed n' }, ...banks];
+};
+
+// Geometry inputs used by each shape, with shape-specific labels
+const WIDTH_LABELS: Partial<Record<ChannelType, string>> = {
+  [ChannelType.Rectangular]: 'Bottom Width b',
+  [ChannelType.Trapezoidal]: 'Bottom Width b',
+  [ChannelType.Compound]: 'Main Channel Width b',
+  [ChannelType.Parabolic]: 'Top Width T₀',
+  [ChannelType.Box]: 'Width b',
+  [ChannelType.PipeArch]: 'Span S',
+};
+const DIAMETER_LABELS: Partial<Record<ChannelType, string>> = {
+  [ChannelType.Circular]: 'Diameter D',
+  [ChannelType.Horseshoe]: 'Diameter D',
+  [ChannelType.Egg]: 'Span D (rise 1.5D)',
+};
+const HEIGHT_LABELS: Partial<Record<ChannelType, string>> = {
+  [ChannelType.Parabolic]: 'Rim Depth H',
+  [ChannelType.Box]: 'Height H',
+  [ChannelType.PipeArch]: 'Rise H',
+};
+
+// Station-elevation pairs, one per line (comma, tab, semicolon or space separated).
+// Lines that do not parse, such as a CSV header, are skipped.
+const parseSurveyPoints = (text: string): SurveyPoint[] => {
+  const points: SurveyPoint[] = [];
+  text.trim().split('\n').forEach(line => {
+    const parts = line.trim().split(/[,;\t\s]+/);
+    if (parts.length >= 2) {
+      const station = parseFloat(parts[0]);
+      const elevation = parseFloat(parts[1]);
+      if (!isNaN(station) && !isNaN(elevation)) points.push({ station, elevation });
+    }
+  });
+  return points;
+};
+
+const formatSurveyPoints = (points: SurveyPoint[]) =>
+  points.map(pt => `${+pt.station.toFixed(3)}, ${+pt.elevation.toFixed(3)}`).join('\n');
+
+// Scale all length and discharge inputs (used for SI <-> Imperial conversion)
+const scaleParams = (p: InputParams, lengthFactor: number, flowFactor: number): InputParams => {
+  const scaleOverbank = (ob?: OverbankParams) => ob && {
+    ...ob,
+    width: ob.width * lengthFactor,
+    bankHeight: ob.bankHeight * lengthFactor,
+  };
+  return {
+    ...p,
+    flowRate: p.flowRate * flowFactor,
+    width: p.width * lengthFactor,
+    diameter: p.diameter * lengthFactor,
+    height: p.height !== undefined ? p.height * lengthFactor : undefined,
+    bottomRadius: p.bottomRadius !== undefined ? p.bottomRadius * lengthFactor : undefined,
+    leftOverbank: scaleOverbank(p.leftOverbank),
+    rightOverbank: scaleOverbank(p.rightOverbank),
+    surveyPoints: p.surveyPoints?.map(pt => ({
+      station: pt.station * lengthFactor,
+      elevation: pt.elevation * lengthFactor,
+    })),
+    roughnessHeight: p.roughnessHeight !== undefined ? p.roughnessHeight * lengthFactor : undefined,
+    // C carries L^(1/2)/T
+    chezyC: p.chezyC !== undefined ? p.chezyC * Math.sqrt(lengthFactor) : undefined,
+  };
+};
+
+// Structure lengths in another unit system; coefficients and n carry over
+const scaleStructure = (st: StructureInput, lengthFactor: number): StructureInput => {
+  const scale = (v?: number) => v === undefined ? undefined : v * lengthFactor;
+  return { ...st, width: scale(st.width), height: scale(st.height), opening: scale(st.opening), length: scale(st.length) };
+};
+
+const scaleSection = (s: CanalSectionInput, lengthFactor: number, flowFactor: number): CanalSectionInput => {
+  const scale = (v?: number) => v === undefined ? undefined : v * lengthFactor;
+  return {
+      ...s,
+      length: s.length * lengthFactor,
+      usElevation: s.usElevation * lengthFactor,
+      dsElevation: s.dsElevation * lengthFactor,
+      pointInflow: s.pointInflow === undefined ? undefined : s.pointInflow * flowFactor,
+      lateralInflow: s.lateralInflow === undefined ? undefined : s.lateralInflow * flowFactor / lengthFactor,
+      seepageCoefficient: scale(s.seepageCoefficient),
+      structure: s.structure && scaleStructure(s.structure, lengthFactor),
+      geometry: s.geometry && {
+          ...s.geometry,
+          width: scale(s.geometry.width),
+          diameter: scale(s.geometry.diameter),
+          height: scale(s.geometry.height),
+          bottomRadius: scale(s.geometry.bottomRadius),
+      },
+  };
+};
+
+// Rating table as CSV with the active units in the headers
+const ratingCurveCsv = (points: RatingPoint[], unit: UnitSystem): string => {
+  const L = unit === 'SI' ? 'm' : 'ft';
+  const header = [`Stage (${L})`, `Q (${L}3/s)`, `A (${L}2)`, `V (${L}/s)`, `R (${L})`, 'Fr', `E (${L})`];
+  const rows = points.map(pt => [
+    pt.stage.toFixed(4), pt.discharge.toFixed(4), pt.area.toFixed(4), pt.velocity.toFixed(4),
+    pt.hydraulicRadius.toFixed(4), pt.froudeNumber.toFixed(4), pt.specificEnergy.toFixed(4),
+  ].join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+type AnalysisMode = 'Normal' | 'Critical' | 'Custom' | 'Jump';
+type AppView = 'Calculator' | 'Hydrograph' | 'RatingCurve' | 'CanalModel' | 'Theory' | 'Settings' | 'About';
 type ViewMode = 'Simple' | 'Advanced';
 
 const App: React.FC = () => {
@@ -51,26 +363,72 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<ChannelType>(ChannelType.Trapezoidal);
   const [params, setParams] = useState<InputParams>(DEFAULT_PARAMS[ChannelType.Trapezoidal]);
   const [result, setResult] = useState<CalculationResult | null>(null);
+  const [solveTarget, setSolveTarget] = useState<SolveTarget>('depth');
+  const [knownDepth, setKnownDepth] = useState<number>(1.5);
+  const [inverse, setInverse] = useState<InverseResult | null>(null);
+  const [solvedParams, setSolvedParams] = useState<InputParams>(params); // params with the unknown filled in
+  const [surveyInput, setSurveyInput] = useState<string>(formatSurveyPoints(DEFAULT_PARAMS[ChannelType.Surveyed].surveyPoints ?? []));
+  const [surveyError, setSurveyError] = useState<string | null>(null);
   
   // Section Analysis State
   const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('Normal');
   const [customDepth, setCustomDepth] = useState<number>(1.0);
+  const [jumpDepth, setJumpDepth] = useState<number>(0.3);
+  const [jumpFromNormal, setJumpFromNormal] = useState(true);
+  const [jump, setJump] = useState<HydraulicJumpResult | null>(null);
+  const [curveFlowsInput, setCurveFlowsInput] = useState('');
+  const [transitionStep, setTransitionStep] = useState<number>(0.1);
+  const [transitionWidth, setTransitionWidth] = useState<number | null>(null); // null: same as upstream
+  const [transitionKc, setTransitionKc] = useState<number>(0.1);
+  const [transitionKe, setTransitionKe] = useState<number>(0.3);
+
+  // Rating Curve State
+  const [ratingMax, setRatingMax] = useState<number | null>(null); // null: full conduit, or twice normal depth
+  const [ratingSteps, setRatingSteps] = useState<number>(20);
   const [sectionProps, setSectionProps] = useState<SectionProperties | null>(null);
 
   // Hydrograph State
   const [hydroInput, setHydroInput] = useState<string>("0, 10\n1, 15\n2, 25\n3, 20\n4, 12\n5, 10");
   const [hydroData, setHydroData] = useState<{time: number, value: number}[]>([]);
+  const [hydroTimeScale, setHydroTimeScale] = useState<number>(3600);
 
   // Canal Model State (Multi-Reach)
   const [canalSections, setCanalSections] = useState<CanalSectionInput[]>([
       { id: '1', inputMode: 'Slope', length: 1000, slope: 0.001, usElevation: 10, dsElevation: 9 }
   ]);
   const [boundaryCond, setBoundaryCond] = useState<BoundaryCondition>({
-    location: 'Downstream',
-    type: 'KnownDepth',
-    value: 2.0
+    downstream: { type: 'KnownDepth', value: 2.0 }
   });
   const [profileData, setProfileData] = useState<ProfilePoint[]>([]);
+  const [profileOptions, setProfileOptions] = useState<ProfileSolverOptions>(DEFAULT_PROFILE_OPTIONS);
+  const [profileReaches, setProfileReaches] = useState<ReachSummary[]>([]);
+  const [profileJumps, setProfileJumps] = useState<ProfileJump[]>([]);
+  const [profileClasses, setProfileClasses] = useState<ReachClassification[]>([]);
+  const [profileStructures, setProfileStructures] = useState<StructureResult[]>([]);
+  const [profileJunctions, setProfileJunctions] = useState<JunctionLossResult[]>([]);
+  const [stationSort, setStationSort] = useState<{ key: StationSortKey; ascending: boolean }>({ key: 'distance', ascending: true });
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  // Branched network: further canals hang off the main canal (canalSections) at division nodes
+  const [networkBranches, setNetworkBranches] = useState<NetworkBranch[]>([]);
+  const [networkOptions, setNetworkOptions] = useState<NetworkOptions>(DEFAULT_NETWORK_OPTIONS);
+  const [networkResult, setNetworkResult] = useState<NetworkResult | null>(null);
+  const [networkSelection, setNetworkSelection] = useState<string>(MAIN_CANAL); // Branch shown in the profile
+  const [editingBranch, setEditingBranch] = useState<string>(MAIN_CANAL); // Branch in the reach editor
+
+  // Unsteady flow: the Hydrograph input run down the main canal. The run keeps the inputs it was
+  // computed from so its snapshots stay drawable after the reaches are edited.
+  const [unsteadyOptions, setUnsteadyOptions] = useState<UnsteadyOptions>(DEFAULT_UNSTEADY_OPTIONS);
+  const [unsteadyRun, setUnsteadyRun] = useState<{ result: UnsteadyResult; type: ChannelType; params: InputParams; sections: CanalSectionInput[] } | null>(null);
+  const [unsteadyChainage, setUnsteadyChainage] = useState<number | null>(null); // null: downstream end
+
+  // Playback of time-varying water surfaces, from quasi-steady profiles or the unsteady run
+  const [playbackSource, setPlaybackSource] = useState<PlaybackSource>('QuasiSteady');
+  const [quasiSteady, setQuasiSteady] = useState<{ result: QuasiSteadyResult; type: ChannelType; params: InputParams; sections: CanalSectionInput[] } | null>(null);
+  const [playbackFrame, setPlaybackFrame] = useState<number>(0);
+  const [playing, setPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
+  const [playbackStation, setPlaybackStation] = useState<number | null>(null); // null: downstream end
 
   // Unit Conversion Logic
   const toggleUnit = () => {
@@ -80,33 +438,53 @@ const App: React.FC = () => {
       const qFactor = 35.3147;
 
       // Convert Params
-      const newParams = { ...params };
-      if (newUnit === 'Imperial') {
-        newParams.flowRate *= qFactor;
-        newParams.width *= factor;
-        newParams.diameter *= factor;
-      } else {
-        newParams.flowRate /= qFactor;
-        newParams.width /= factor;
-        newParams.diameter /= factor;
-      }
+      const newParams = newUnit === 'Imperial'
+        ? scaleParams(params, factor, qFactor)
+        : scaleParams(params, 1 / factor, 1 / qFactor);
       setParams(newParams);
+      if (newParams.surveyPoints) setSurveyInput(formatSurveyPoints(newParams.surveyPoints));
       
       // Convert Custom Depth
       setCustomDepth(d => newUnit === 'Imperial' ? d * factor : d / factor);
+      setKnownDepth(d => newUnit === 'Imperial' ? d * factor : d / factor);
+      setJumpDepth(d => newUnit === 'Imperial' ? d * factor : d / factor);
+      setTransitionStep(d => newUnit === 'Imperial' ? d * factor : d / factor);
+      setTransitionWidth(d => d === null ? null : newUnit === 'Imperial' ? d * factor : d / factor);
+      setRatingMax(d => d === null ? null : newUnit === 'Imperial' ? d * factor : d / factor);
+      setCurveFlowsInput(prev => prev.split(/[\s,;]+/).map(parseFloat).filter(q => isFinite(q) && q > 0)
+        .map(q => +(newUnit === 'Imperial' ? q * qFactor : q / qFactor).toPrecision(6)).join(', '));
 
-      // Convert Canal Sections
-      setCanalSections(sections => sections.map(s => ({
-          ...s,
-          length: newUnit === 'Imperial' ? s.length * factor : s.length / factor,
-          usElevation: newUnit === 'Imperial' ? s.usElevation * factor : s.usElevation / factor,
-          dsElevation: newUnit === 'Imperial' ? s.dsElevation * factor : s.dsElevation / factor,
+      // Convert Canal Sections, including those of network branches
+      const f = newUnit === 'Imperial' ? factor : 1 / factor;
+      const qf = newUnit === 'Imperial' ? qFactor : 1 / qFactor;
+      setCanalSections(sections => sections.map(s => scaleSection(s, f, qf)));
+      setNetworkBranches(prev => prev.map(b => ({
+          ...b,
+          sections: b.sections.map(s => scaleSection(s, f, qf)),
+          downstream: { ...b.downstream, value: b.downstream.value * f },
       })));
 
-      setBoundaryCond(prev => ({
+      setBoundaryCond(prev => {
+          const scale = (c?: ControlCondition) => c && { ...c, value: newUnit === 'Imperial' ? c.value * factor : c.value / factor };
+          return { upstream: scale(prev.upstream), downstream: scale(prev.downstream) };
+      });
+
+      setProfileOptions(prev => {
+          const f = newUnit === 'Imperial' ? factor : 1 / factor;
+          return { ...prev, tolerance: prev.tolerance * f, minStep: prev.minStep * f, maxStep: prev.maxStep * f };
+      });
+
+      // Q = C·y^m: C carries Q/L^m
+      setUnsteadyOptions(prev => ({
           ...prev,
-          value: newUnit === 'Imperial' ? prev.value * factor : prev.value / factor
+          spaceStep: prev.spaceStep * f,
+          downstream: { ...prev.downstream, depth: prev.downstream.depth * f, coefficient: prev.downstream.coefficient * qf / Math.pow(f, prev.downstream.exponent) },
       }));
+      setUnsteadyChainage(d => d === null ? null : d * f);
+      setUnsteadyRun(null);
+      setQuasiSteady(null);
+      setPlaybackStation(d => d === null ? null : d * f);
+      setPlaying(false);
 
       return newUnit;
     });
@@ -114,20 +492,15 @@ const App: React.FC = () => {
 
   const handleTabChange = (type: ChannelType) => {
     setActiveTab(type);
-    const def = DEFAULT_PARAMS[type];
-    if (unit === 'Imperial') {
-      setParams({
-        ...def,
-        flowRate: def.flowRate * 35.3147,
-        width: def.width * 3.28084,
-        diameter: def.diameter * 3.28084,
-      });
-    } else {
-      setParams(def);
-    }
+    const def = unit === 'Imperial' ? scaleParams(DEFAULT_PARAMS[type], 3.28084, 35.3147) : DEFAULT_PARAMS[type];
+    setParams(def);
+    if (def.surveyPoints) setSurveyInput(formatSurveyPoints(def.surveyPoints));
     setAnalysisMode('Normal');
+    if (!getSolveTargets(type, def).includes(solveTarget)) setSolveTarget('depth');
   };
 
+  const frictionLaw: FrictionLaw = params.frictionLaw ?? 'Manning';
+
   const handleChange = (field: keyof InputParams, value: string) => {
     const numVal = parseFloat(value);
     setParams(prev => ({
@@ -136,58 +509,357 @@ const App: React.FC = () => {
     }));
   };
 
+  // Keep the last solved value as an input when the unknown changes
+  const handleSolveTargetChange = (target: SolveTarget) => {
+    if (inverse && inverse.value !== null && inverse.target !== 'depth') {
+      setParams(prev => ({ ...prev, [inverse.target]: inverse.value }));
+    }
+    setSolveTarget(target);
+  };
+
+  const isAsymmetric = (activeTab === ChannelType.Trapezoidal || activeTab === ChannelType.Triangular)
+    && params.leftSideSlope !== undefined && params.rightSideSlope !== undefined;
+
+  const handleAsymmetricToggle = (enabled: boolean) => {
+    setParams(prev => enabled
+      ? { ...prev, leftSideSlope: prev.sideSlope, rightSideSlope: prev.sideSlope }
+      : { ...prev, sideSlope: prev.leftSideSlope ?? prev.sideSlope, leftSideSlope: undefined, rightSideSlope: undefined });
+  };
+
+  // Seed the new law's coefficient from the current Manning n at the normal-depth hydraulic radius
+  const handleFrictionLawChange = (law: FrictionLaw) => {
+    const k = unit === 'SI' ? 1.0 : 1.486;
+    const R = sectionProps?.hydraulicRadius || 1;
+    const ksMeters = Math.pow(21.1 * params.manningN, 6); // Strickler: n = ks^(1/6) / 21.1
+    setParams(prev => ({
+      ...prev,
+      frictionLaw: law === 'Manning' ? undefined : law,
+      chezyC: prev.chezyC ?? Math.round((k / prev.manningN) * Math.pow(R, 1/6)),
+      stricklerK: prev.stricklerK ?? Math.round(1 / prev.manningN),
+      roughnessHeight: prev.roughnessHeight ?? parseFloat((ksMeters * (unit === 'SI' ? 1 : 3.28084)).toPrecision(2)),
+    }));
+    if (law !== 'Manning' && solveTarget === 'manningN') setSolveTarget('depth');
+  };
+
+  const handleCompositeToggle = (enabled: boolean) => {
+    setParams(prev => ({
+      ...prev,
+      compositeRoughness: enabled
+        ? { method: 'HortonEinstein', bedN: prev.manningN, leftBankN: prev.manningN, rightBankN: prev.manningN, crownN: prev.manningN }
+        : undefined,
+    }));
+  };
+
+  const handleCompositeChange = (field: keyof CompositeRoughness, value: string) => {
+    setParams(prev => {
+      if (!prev.compositeRoughness) return prev;
+      const numVal = parseFloat(value);
+      const next = field === 'method' ? value : (isNaN(numVal) ? 0 : numVal);
+      return { ...prev, compositeRoughness: { ...prev.compositeRoughness, [field]: next } };
+    });
+  };
+
+  const handleOverbankChange = (side: 'leftOverbank' | 'rightOverbank', field: keyof OverbankParams, value: string) => {
+    const numVal = parseFloat(value);
+    setParams(prev => {
+      const current = prev[side];
+      if (!current) return prev;
+      return { ...prev, [side]: { ...current, [field]: isNaN(numVal) ? 0 : numVal } };
+    });
+  };
+
+  const handleSurveyInput = (text: string) => {
+    setSurveyError(null);
+    setSurveyInput(text);
+    setParams(prev => ({ ...prev, surveyPoints: parseSurveyPoints(text) }));
+  };
+
+  const handleSurveyFile = (file?: File) => {
+    if (!file) return;
+    file.text()
+      .then(handleSurveyInput)
+      .catch(() => setSurveyError(`Could not read ${file.name}; the survey points were not changed.`));
+  };
+
   // Process Hydrograph Data
-  useEffect(() => {
-    const lines = hydroInput.trim().split('\n');
-    const data: {time: number, value: number}[] = [];
-    
-    lines.forEach(line => {
+  const hydroFlows = useMemo(() => {
+    const flows: HydrographPoint[] = [];
+    hydroInput.trim().split('\n').forEach(line => {
         const parts = line.split(/[,\t\s]+/);
         if (parts.length >= 2) {
             const t = parseFloat(parts[0]);
             const q = parseFloat(parts[1]);
-            if (!isNaN(t) && !isNaN(q)) {
-                const tempParams = { ...params, flowRate: q };
-                const y = solveNormalDepth(activeTab, tempParams, unit);
-                data.push({ time: t, value: y });
-            }
+            if (!isNaN(t) && !isNaN(q)) flows.push({ time: t, value: q });
         }
     });
-    setHydroData(data);
-  }, [hydroInput, params, activeTab, unit]);
+    return flows;
+  }, [hydroInput]);
+
+  useEffect(() => {
+    setHydroData(hydroFlows.map(d => {
+        const tempParams = { ...solvedParams, flowRate: d.value };
+        return { time: d.time, value: solveNormalDepth(activeTab, tempParams, unit).depth };
+    }));
+  }, [hydroFlows, solvedParams, activeTab, unit]);
+
+  // The hydrograph routed down the main canal of the canal model
+  const routing = useMemo(
+    () => routeMuskingumCunge(activeTab, solvedParams, canalSections, hydroFlows, hydroTimeScale, unit),
+    [activeTab, solvedParams, canalSections, hydroFlows, hydroTimeScale, unit]
+  );
+
+  // Extra discharges for the E-y / M-y overlays; defaults to half and double the design Q
+  const curveFlows = useMemo(() => {
+    const parsed = curveFlowsInput.split(/[\s,;]+/).map(parseFloat).filter(q => isFinite(q) && q > 0);
+    return curveFlowsInput.trim() ? parsed : [solvedParams.flowRate * 0.5, solvedParams.flowRate * 2];
+  }, [curveFlowsInput, solvedParams.flowRate]);
+
+  // Transition from the Calculator section (at the analysed depth) to a stepped and/or resized section
+  const transitionHasWidth = [ChannelType.Rectangular, ChannelType.Trapezoidal, ChannelType.Compound, ChannelType.Parabolic, ChannelType.Box].includes(activeTab);
+  const transitionInput: TransitionInput = {
+    upstreamDepth: sectionProps?.depth ?? 0,
+    bedStep: transitionStep,
+    downstreamWidth: transitionHasWidth && transitionWidth !== null ? transitionWidth : solvedParams.width,
+    contractionCoeff: transitionKc,
+    expansionCoeff: transitionKe,
+  };
+  const transition = useMemo(
+    () => result && !result.error && sectionProps && sectionProps.depth > 0 ? analyzeTransition(activeTab, solvedParams, transitionInput, unit) : null,
+    [activeTab, solvedParams, result, sectionProps, transitionStep, transitionWidth, transitionKc, transitionKe, unit]
+  );
+
+  const ratingRise = getConduitRise(activeTab, solvedParams);
+  const ratingTop = ratingMax ?? ratingRise ?? 2 * (result && !result.error ? result.normalDepth : 1);
+  const ratingCurve = useMemo(
+    () => calculateRatingCurve(activeTab, solvedParams, unit, ratingTop, Math.max(1, Math.round(ratingSteps))),
+    [activeTab, solvedParams, unit, ratingTop, ratingSteps]
+  );
+
+  const handleExportRatingCsv = () => {
+    const blob = new Blob([ratingCurveCsv(ratingCurve, unit)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `rating-curve-${activeTab.toLowerCase()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
 
   // Effects
   useEffect(() => {
-    const res = calculateFlow(activeTab, params, unit);
-    setResult(res);
-  }, [activeTab, params, unit]);
+    const inv = solveInverse(activeTab, params, solveTarget, knownDepth, unit);
+    // The normal depth is an output of calculateFlow, not an input
+    const solved = inv.value !== null && solveTarget !== 'depth' ? { ...params, [solveTarget]: inv.value } : params;
+    const res = calculateFlow(activeTab, solved, unit);
+    setInverse(inv);
+    setSolvedParams(solved);
+    setResult(inv.error ? { ...res, error: inv.error } : res);
+  }, [activeTab, params, unit, solveTarget, knownDepth]);
 
   useEffect(() => {
     if (!result) return;
     let depth = 0;
     if (analysisMode === 'Normal') depth = result.normalDepth;
     else if (analysisMode === 'Critical') depth = result.criticalDepth;
+    else if (analysisMode === 'Jump') depth = jumpFromNormal ? result.normalDepth : jumpDepth;
     else depth = customDepth;
     if (isNaN(depth)) depth = 0;
-    const props = calculateSectionProperties(activeTab, depth, params, unit);
+    const props = calculateSectionProperties(activeTab, depth, solvedParams, unit);
     setSectionProps(props);
-  }, [activeTab, params, unit, analysisMode, customDepth, result]);
+    setJump(analysisMode === 'Jump' && !result.error ? calculateHydraulicJump(activeTab, depth, solvedParams, unit) : null);
+  }, [activeTab, solvedParams, unit, analysisMode, customDepth, jumpDepth, jumpFromNormal, result]);
+
+  // The main canal heads the network; its downstream control is used only without branches
+  const allBranches: NetworkBranch[] = [
+      { id: MAIN_CANAL, name: 'Main canal', parentId: null, sections: canalSections, flowShare: 1, angle: 0, downstream: boundaryCond.downstream ?? DEFAULT_CONTROLS.downstream },
+      ...networkBranches,
+  ];
+
+  const showProfile = (profile: ProfileResult) => {
+    setProfileData(profile.points);
+    setProfileReaches(profile.reaches);
+    setProfileJumps(profile.jumps);
+    setProfileClasses(profile.classes);
+    setProfileStructures(profile.structures);
+    setProfileJunctions(profile.junctions);
+    setProfileError(profile.error ?? null);
+  };
+
+  const showPlayback = (source: PlaybackSource) => {
+    setPlaybackSource(source);
+    setPlaybackFrame(0);
+    setPlaying(false);
+  };
+
+  const handleRunUnsteady = () => {
+    const result = calculateUnsteadyFlow(activeTab, solvedParams, canalSections, hydroFlows, hydroTimeScale, unsteadyOptions, unit);
+    setUnsteadyRun({ result, type: activeTab, params: solvedParams, sections: canalSections });
+    showPlayback('Unsteady');
+  };
+
+  const handleBuildQuasiSteady = () => {
+    const result = calculateQuasiSteadyProfiles(activeTab, solvedParams, canalSections, boundaryCond, hydroFlows, QUASI_STEADY_FRAMES, unit, profileOptions);
+    setQuasiSteady({ result, type: activeTab, params: solvedParams, sections: canalSections });
+    showPlayback('QuasiSteady');
+  };
+
+  // Hydrographs at the chosen chainage, against the inflow at the head of the canal
+  const unsteadyLength = unsteadyRun ? unsteadyRun.sections.reduce((sum, sec) => sum + sec.length, 0) : 0;
+  const unsteadyAt = Math.min(Math.max(unsteadyChainage ?? unsteadyLength, 0), unsteadyLength);
+  const unsteadySeries = useMemo(
+    () => unsteadyRun && !unsteadyRun.result.error
+      ? { at: unsteadyHydrographAt(unsteadyRun.result, unsteadyAt), head: unsteadyHydrographAt(unsteadyRun.result, 0) }
+      : null,
+    [unsteadyRun, unsteadyAt]
+  );
+
+  // Playback frames, and the run they come from
+  const playbackRun = playbackSource === 'Unsteady'
+    ? (unsteadyRun && !unsteadyRun.result.error ? unsteadyRun : null)
+    : (quasiSteady && !quasiSteady.result.error ? quasiSteady : null);
+  const playbackTimes = playbackSource === 'Unsteady'
+    ? unsteadyRun?.result.snapshots.map(s => s.time) ?? []
+    : quasiSteady?.result.frames.map(f => f.time) ?? [];
+  const playbackCount = playbackRun ? playbackTimes.length : 0;
+  const playbackIndex = Math.min(playbackFrame, Math.max(0, playbackCount - 1));
+
+  // One frame per tick; the timer restarts on every frame, so a slow frame delays the next one
+  useEffect(() => {
+    if (!playing) return;
+    if (playbackIndex >= playbackCount - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPlaybackFrame(playbackIndex + 1), 1000 / (PLAYBACK_FPS * playbackSpeed));
+    return () => clearTimeout(timer);
+  }, [playing, playbackIndex, playbackCount, playbackSpeed]);
+
+  const playbackPoints = useMemo(() => {
+    if (!playbackRun) return [];
+    if (playbackSource === 'QuasiSteady') return quasiSteady!.result.frames[playbackIndex]?.profile.points ?? [];
+    return unsteadySnapshotProfile(unsteadyRun!.type, unsteadyRun!.params, unsteadyRun!.sections, unsteadyRun!.result, playbackIndex, unit);
+  }, [playbackRun, playbackSource, quasiSteady, unsteadyRun, playbackIndex, unit]);
+
+  // Axes held over all frames; unsteady frames span their water levels and discharges
+  const playbackExtent = useMemo(() => {
+    if (!playbackRun) return undefined;
+    const levels: number[] = [];
+    const flows: number[] = [];
+    if (playbackSource === 'QuasiSteady') {
+      quasiSteady!.result.frames.forEach(f => f.profile.points.forEach(p => {
+        levels.push(p.bedElevation, p.waterElevation, p.normalDepthElevation ?? p.bedElevation, p.criticalDepthElevation, p.totalHead);
+        flows.push(p.discharge);
+      }));
+    } else {
+      const { stations, snapshots } = unsteadyRun!.result;
+      snapshots.forEach(s => stations.forEach((st, j) => {
+        levels.push(st.bedElevation, st.bedElevation + s.depth[j]);
+        flows.push(s.discharge[j]);
+      }));
+    }
+    return { minElevation: Math.min(...levels), maxElevation: Math.max(...levels), minDischarge: Math.min(...flows), maxDischarge: Math.max(...flows) };
+  }, [playbackRun, playbackSource, quasiSteady, unsteadyRun]);
+
+  // The chosen station: its reach section, its state in this frame and its highest depth
+  const playbackLength = playbackRun ? playbackRun.sections.reduce((sum, sec) => sum + sec.length, 0) : 0;
+  const playbackAt = Math.min(Math.max(playbackStation ?? playbackLength, 0), playbackLength);
+  const playbackState = profileAt(playbackPoints, playbackAt);
+  const playbackSection = playbackRun && playbackState
+    ? resolveReachSection(playbackRun.type, playbackRun.params, playbackRun.sections[playbackState.sectionIndex])
+    : null;
+  const playbackMaxDepth = useMemo(() => {
+    if (!playbackRun) return 0;
+    const depths = playbackSource === 'QuasiSteady'
+      ? quasiSteady!.result.frames.map(f => profileAt(f.profile.points, playbackAt)?.depth ?? 0)
+      : unsteadyHydrographAt(unsteadyRun!.result, playbackAt).map(d => d.depth);
+    return Math.max(0, ...depths);
+  }, [playbackRun, playbackSource, quasiSteady, unsteadyRun, playbackAt]);
+  const playbackInflow = playbackSource === 'QuasiSteady'
+    ? quasiSteady?.result.frames[playbackIndex]?.inflow
+    : unsteadyRun?.result.snapshots[playbackIndex]?.discharge[0];
 
   // Handle Canal Model Run
+  // Normal and critical controls are solved per reach inside the profile calculation. With
+  // branches the whole network is solved and the path down to the selected branch is shown.
   const handleRunCanalModel = () => {
-    let val = boundaryCond.value;
-    if (result) {
-        if (boundaryCond.type === 'NormalDepth') val = result.normalDepth;
-        if (boundaryCond.type === 'CriticalDepth') val = result.criticalDepth;
+    if (networkBranches.length === 0) {
+      setNetworkResult(null);
+      showProfile(calculateMultiReachProfile(activeTab, solvedParams, canalSections, boundaryCond, unit, profileOptions));
+      return;
     }
-    const finalBC = { ...boundaryCond, value: val };
-    const points = calculateMultiReachProfile(activeTab, params, canalSections, finalBC, unit);
-    setProfileData(points);
+    const network = calculateNetworkProfile(activeTab, solvedParams, allBranches, networkOptions, unit, profileOptions);
+    const selected = allBranches.some(b => b.id === networkSelection) ? networkSelection : MAIN_CANAL;
+    setNetworkResult(network);
+    setNetworkSelection(selected);
+    showProfile(network.error
+      ? { points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [], error: network.error }
+      : networkPathProfile(network, allBranches, selected));
+  };
+
+  // Branches from the main canal down to the one shown in the profile
+  const networkPath: NetworkBranch[] = [];
+  for (let b = allBranches.find(x => x.id === networkSelection); b && networkPath.length < allBranches.length; b = allBranches.find(x => x.id === b!.parentId)) {
+      networkPath.unshift(b);
+  }
+
+  const selectNetworkBranch = (id: string) => {
+    setNetworkSelection(id);
+    if (networkResult && !networkResult.error) showProfile(networkPathProfile(networkResult, allBranches, id));
+  };
+
+  // A branch and every branch fed from it
+  const branchSubtree = (id: string): Set<string> => {
+      const ids = new Set([id]);
+      for (let grew = true; grew; ) {
+          grew = false;
+          networkBranches.forEach(b => {
+              if (b.parentId !== null && ids.has(b.parentId) && !ids.has(b.id)) {
+                  ids.add(b.id);
+                  grew = true;
+              }
+          });
+      }
+      return ids;
+  };
+
+  // New branches leave the tail of the canal being edited, with one reach to normal depth
+  const addNetworkBranch = () => {
+      if (networkBranches.length >= MAX_BRANCHES) return;
+      const n = Math.max(0, ...networkBranches.map(b => parseInt(b.id.slice(1)))) + 1;
+      const id = `b${n}`;
+      setNetworkBranches([...networkBranches, {
+          id,
+          name: `Branch ${n}`,
+          parentId: editingBranch,
+          sections: [{ id: '1', inputMode: 'Slope', length: 1000, slope: 0.001, usElevation: 10, dsElevation: 9 }],
+          flowShare: 1,
+          angle: 45,
+          downstream: { type: 'NormalDepth', value: 0 },
+      }]);
+      setEditingBranch(id);
+  };
+
+  const removeNetworkBranch = (id: string) => {
+      const removed = branchSubtree(id);
+      setNetworkBranches(networkBranches.filter(b => !removed.has(b.id)));
+      if (removed.has(editingBranch)) setEditingBranch(MAIN_CANAL);
+      if (removed.has(networkSelection)) setNetworkSelection(MAIN_CANAL);
+  };
+
+  const updateNetworkBranch = (id: string, patch: Partial<NetworkBranch>) => {
+      setNetworkBranches(prev => prev.map(b => b.id === id ? { ...b, ...patch } : b));
+  };
+
+  // The reach editor works on the main canal or on the branch picked for editing
+  const activeSections = networkBranches.find(b => b.id === editingBranch)?.sections ?? canalSections;
+  const setActiveSections = (update: (sections: CanalSectionInput[]) => CanalSectionInput[]) => {
+      if (editingBranch === MAIN_CANAL) setCanalSections(update);
+      else setNetworkBranches(prev => prev.map(b => b.id === editingBranch ? { ...b, sections: update(b.sections) } : b));
   };
 
   const addCanalSection = () => {
-      if (canalSections.length >= 5) return;
-      const last = canalSections[canalSections.length - 1];
+      if (activeSections.length >= 5) return;
+      const last = activeSections[activeSections.length - 1];
       const newId = (parseInt(last.id) + 1).toString();
       
       // Default to continuous
@@ -197,22 +869,72 @@ const App: React.FC = () => {
           length: last.length,
           slope: last.slope,
           usElevation: last.dsElevation, // Connect
-          dsElevation: last.dsElevation - (last.slope * last.length)
+          dsElevation: last.dsElevation - (last.slope * last.length),
+          channelType: last.channelType,
+          geometry: last.geometry && { ...last.geometry },
       };
-      setCanalSections([...canalSections, newSec]);
+      setActiveSections(sections => [...sections, newSec]);
   };
 
   const removeCanalSection = (id: string) => {
-      if (canalSections.length <= 1) return;
-      setCanalSections(canalSections.filter(s => s.id !== id));
+      if (activeSections.length <= 1) return;
+      setActiveSections(sections => sections.filter(s => s.id !== id));
   };
 
   const updateSection = (id: string, field: keyof CanalSectionInput, value: any) => {
-      setCanalSections(sections => sections.map(s => 
+      setActiveSections(sections => sections.map(s => 
           s.id === id ? { ...s, [field]: value } : s
       ));
   };
 
+  // Another shape starts from its default dimensions; back to the calculator clears all but n
+  const updateSectionShape = (id: string, shape: ChannelType | '') => {
+      setActiveSections(sections => sections.map(s => {
+          if (s.id !== id) return s;
+          const manningN = s.geometry?.manningN;
+          if (shape === '') return { ...s, channelType: undefined, geometry: manningN !== undefined ? { manningN } : undefined };
+          const def = unit === 'Imperial' ? scaleParams(DEFAULT_PARAMS[shape], 3.28084, 35.3147) : DEFAULT_PARAMS[shape];
+          const geometry: ReachGeometry = { width: def.width, sideSlope: def.sideSlope, diameter: def.diameter, height: def.height, bottomRadius: def.bottomRadius };
+          if (manningN !== undefined) geometry.manningN = manningN;
+          return { ...s, channelType: shape, geometry };
+      }));
+  };
+
+  const updateSectionStructure = (id: string, type: StructureType | '') => {
+      setActiveSections(sections => sections.map(s => {
+          if (s.id !== id) return s;
+          if (type === '') return { ...s, structure: undefined };
+          return { ...s, structure: unit === 'Imperial' ? scaleStructure(DEFAULT_STRUCTURES[type], 3.28084) : { ...DEFAULT_STRUCTURES[type] } };
+      }));
+  };
+
+  const updateStructureField = (id: string, field: StructureField, value: string) => {
+      const v = parseFloat(value);
+      setActiveSections(sections => sections.map(s => 
+          s.id === id && s.structure ? { ...s, structure: { ...s.structure, [field]: isNaN(v) ? undefined : v } } : s
+      ));
+  };
+
+  const toggleJunctionLoss = (id: string, enabled: boolean) => {
+      setActiveSections(sections => sections.map(s => 
+          s.id === id ? { ...s, junctionLoss: enabled ? { ...DEFAULT_JUNCTION_LOSS } : undefined } : s
+      ));
+  };
+
+  const updateJunctionLossField = (id: string, field: keyof JunctionLossInput, value: string) => {
+      const v = parseFloat(value);
+      setActiveSections(sections => sections.map(s => 
+          s.id === id && s.junctionLoss ? { ...s, junctionLoss: { ...s.junctionLoss, [field]: isNaN(v) ? undefined : v } } : s
+      ));
+  };
+
+  const updateSectionGeometry = (id: string, field: keyof ReachGeometry, value: string) => {
+      const v = parseFloat(value);
+      setActiveSections(sections => sections.map(s => 
+          s.id === id ? { ...s, geometry: { ...s.geometry, [field]: isNaN(v) ? undefined : v } } : s
+      ));
+  };
+
 
   // Labels
   const U = {
@@ -222,6 +944,7 @@ const App: React.FC = () => {
     Area: unit === 'SI' ? 'm²' : 'ft²',
     Force: unit === 'SI' ? 'm³' : 'ft³',
     Energy: unit === 'SI' ? 'm' : 'ft',
+    Volume: unit === 'SI' ? 'm³' : 'ft³',
   };
 
   // --- SUB-COMPONENTS ---
@@ -237,15 +960,48 @@ const App: React.FC = () => {
             </h2>
           </div>
           <div className="p-6 space-y-5">
+            <div className="space-y-3 pb-4 border-b border-slate-100">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-slate-700 mb-1 block">Solve For</span>
+                  <select 
+                    value={solveTarget}
+                    onChange={(e) => handleSolveTargetChange(e.target.value as SolveTarget)}
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                  >
+                    {getSolveTargets(activeTab, params).map(t => <option key={t} value={t}>{SOLVE_LABELS[t]}</option>)}
+                  </select>
+                </label>
+                {solveTarget !== 'depth' && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Flow Depth y ({U.L})</span>
+                    <input 
+                      type="number" 
+                      step="0.01" 
+                      value={knownDepth} 
+                      onChange={(e) => setKnownDepth(parseFloat(e.target.value) || 0)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    />
+                  </label>
+                )}
+              </div>
+              {inverse && inverse.roots.length > 1 && (
+                <div className="p-3 bg-amber-50 border border-amber-100 rounded-md text-xs text-amber-800">
+                  {inverse.roots.length} solutions for {SOLVE_LABELS[inverse.target]}: {inverse.roots.map(r => r.toPrecision(4)).join(', ')}. Results use the smallest.
+                </div>
+              )}
+            </div>
+
             <div className="space-y-4">
               <label className="block">
                 <span className="text-sm font-medium text-slate-700 mb-1 block">Flow Rate Q ({U.Q})</span>
                 <input 
                   type="number" 
                   step="0.1" 
-                  value={params.flowRate.toFixed(3)} 
+                  value={solvedParams.flowRate.toFixed(3)} 
+                  disabled={solveTarget === 'flowRate'}
                   onChange={(e) => handleChange('flowRate', e.target.value)}
-                  className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                  className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
                 />
               </label>
 
@@ -255,63 +1011,305 @@ const App: React.FC = () => {
                   <input 
                     type="number" 
                     step="0.0001" 
-                    value={params.slope} 
+                    value={solveTarget === 'slope' ? solvedParams.slope.toPrecision(4) : params.slope} 
+                    disabled={solveTarget === 'slope'}
                     onChange={(e) => handleChange('slope', e.target.value)}
-                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
-                  />
-                </label>
-                <label className="block">
-                  <span className="text-sm font-medium text-slate-700 mb-1 block">Manning's n</span>
-                  <input 
-                    type="number" 
-                    step="0.001" 
-                    value={params.manningN} 
-                    onChange={(e) => handleChange('manningN', e.target.value)}
-                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
                   />
                 </label>
+                {frictionLaw === 'Manning' && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Manning's n</span>
+                    <input 
+                      type="number" 
+                      step="0.001" 
+                      value={solveTarget === 'manningN' ? solvedParams.manningN.toPrecision(4) : params.manningN} 
+                      disabled={solveTarget === 'manningN' || !!params.compositeRoughness}
+                      onChange={(e) => handleChange('manningN', e.target.value)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
+                    />
+                  </label>
+                )}
+                {frictionLaw === 'Strickler' && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Strickler k (m^(1/3)/s)</span>
+                    <input 
+                      type="number" 
+                      step="1" 
+                      value={params.stricklerK ?? 0} 
+                      onChange={(e) => handleChange('stricklerK', e.target.value)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    />
+                  </label>
+                )}
+                {frictionLaw === 'Chezy' && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Chézy C ({unit === 'SI' ? 'm' : 'ft'}^½/s)</span>
+                    <input 
+                      type="number" 
+                      step="1" 
+                      value={params.chezyC ?? 0} 
+                      onChange={(e) => handleChange('chezyC', e.target.value)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    />
+                  </label>
+                )}
+                {frictionLaw === 'DarcyWeisbach' && (
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Roughness ks ({U.L})</span>
+                    <input 
+                      type="number" 
+                      step="0.0001" 
+                      value={params.roughnessHeight ?? 0} 
+                      onChange={(e) => handleChange('roughnessHeight', e.target.value)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    />
+                  </label>
+                )}
               </div>
+
+              <label className="block">
+                <span className="text-sm font-medium text-slate-700 mb-1 block">Friction Law</span>
+                <select
+                  value={frictionLaw}
+                  onChange={(e) => handleFrictionLawChange(e.target.value as FrictionLaw)}
+                  className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                >
+                  {FRICTION_LAWS.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                </select>
+                {activeTab === ChannelType.Compound && frictionLaw !== 'Manning' && (
+                  <span className="text-[10px] text-slate-400 mt-1 block">Applies to the main channel; overbanks keep their Manning n.</span>
+                )}
+              </label>
+
+              {supportsCompositeRoughness(activeTab) && frictionLaw === 'Manning' && (
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input 
+                      type="checkbox" 
+                      checked={!!params.compositeRoughness} 
+                      onChange={(e) => handleCompositeToggle(e.target.checked)}
+                    />
+                    Composite roughness (different n across the wetted perimeter)
+                  </label>
+                  {params.compositeRoughness && (
+                    <div className="p-3 bg-slate-50 border border-slate-100 rounded-md space-y-3">
+                      <label className="block">
+                        <span className="text-[11px] font-medium text-slate-600 mb-1 block">Equivalent n Method</span>
+                        <select 
+                          value={params.compositeRoughness.method}
+                          onChange={(e) => handleCompositeChange('method', e.target.value)}
+                          className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                        >
+                          {COMPOSITE_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                        </select>
+                      </label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {compositeParts(activeTab).map(part => (
+                          <label key={part.field} className="block">
+                            <span className="text-[11px] font-medium text-slate-600 mb-1 block">{part.label}</span>
+                            <input 
+                              type="number" 
+                              step="0.001" 
+                              value={params.compositeRoughness![part.field]} 
+                              onChange={(e) => handleCompositeChange(part.field, e.target.value)}
+                              className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="border-t border-slate-100 pt-4 space-y-4">
               <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Channel Geometry</h3>
               
-              {activeTab !== ChannelType.Triangular && activeTab !== ChannelType.Circular && (
+              {WIDTH_LABELS[activeTab] && (
                 <label className="block">
-                  <span className="text-sm font-medium text-slate-700 mb-1 block">Bottom Width b ({U.L})</span>
+                  <span className="text-sm font-medium text-slate-700 mb-1 block">{WIDTH_LABELS[activeTab]} ({U.L})</span>
                   <input 
                     type="number" 
-                    value={params.width.toFixed(3)} 
+                    value={solvedParams.width.toFixed(3)} 
+                    disabled={solveTarget === 'width'}
                     onChange={(e) => handleChange('width', e.target.value)}
-                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
                   />
                 </label>
               )}
 
-              {activeTab === ChannelType.Circular && (
+              {DIAMETER_LABELS[activeTab] && (
                 <label className="block">
-                  <span className="text-sm font-medium text-slate-700 mb-1 block">Diameter D ({U.L})</span>
+                  <span className="text-sm font-medium text-slate-700 mb-1 block">{DIAMETER_LABELS[activeTab]} ({U.L})</span>
                   <input 
                     type="number" 
-                    value={params.diameter.toFixed(3)} 
+                    value={solvedParams.diameter.toFixed(3)} 
+                    disabled={solveTarget === 'diameter'}
                     onChange={(e) => handleChange('diameter', e.target.value)}
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
+                  />
+                </label>
+              )}
+
+              {HEIGHT_LABELS[activeTab] && (
+                <label className="block">
+                  <span className="text-sm font-medium text-slate-700 mb-1 block">{HEIGHT_LABELS[activeTab]} ({U.L})</span>
+                  <input 
+                    type="number" 
+                    value={(params.height ?? 0).toFixed(3)} 
+                    onChange={(e) => handleChange('height', e.target.value)}
                     className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
                   />
                 </label>
               )}
 
-              {(activeTab === ChannelType.Trapezoidal || activeTab === ChannelType.Triangular) && (
+              {activeTab === ChannelType.RoundBottom && (
+                <label className="block">
+                  <span className="text-sm font-medium text-slate-700 mb-1 block">Bottom Radius r ({U.L})</span>
+                  <input 
+                    type="number" 
+                    step="0.1" 
+                    value={(params.bottomRadius ?? 0).toFixed(3)} 
+                    onChange={(e) => handleChange('bottomRadius', e.target.value)}
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                  />
+                </label>
+              )}
+
+              {(activeTab === ChannelType.Trapezoidal || activeTab === ChannelType.Triangular || activeTab === ChannelType.Compound || activeTab === ChannelType.RoundBottom) && !isAsymmetric && (
                 <label className="block">
                   <span className="text-sm font-medium text-slate-700 mb-1 block">Side Slope z (H:V)</span>
                   <input 
                     type="number" 
                     step="0.1" 
-                    value={params.sideSlope} 
+                    value={solveTarget === 'sideSlope' ? solvedParams.sideSlope.toPrecision(4) : params.sideSlope} 
+                    disabled={solveTarget === 'sideSlope'}
                     onChange={(e) => handleChange('sideSlope', e.target.value)}
-                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
+                  />
+                </label>
+              )}
+
+              {isAsymmetric && (
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Left z_L (H:V)</span>
+                    <input 
+                      type="number" 
+                      step="0.1" 
+                      value={params.leftSideSlope} 
+                      onChange={(e) => handleChange('leftSideSlope', e.target.value)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-sm font-medium text-slate-700 mb-1 block">Right z_R (H:V)</span>
+                    <input 
+                      type="number" 
+                      step="0.1" 
+                      value={params.rightSideSlope} 
+                      onChange={(e) => handleChange('rightSideSlope', e.target.value)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                    />
+                  </label>
+                </div>
+              )}
+
+              {(activeTab === ChannelType.Trapezoidal || activeTab === ChannelType.Triangular) && (
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  <input 
+                    type="checkbox" 
+                    checked={isAsymmetric} 
+                    onChange={(e) => handleAsymmetricToggle(e.target.checked)}
                   />
+                  Different left and right side slopes (z = 0 is a vertical wall)
                 </label>
               )}
+
+              {activeTab === ChannelType.Surveyed && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-slate-700">Station, Elevation ({U.L})</span>
+                    <label className="flex items-center gap-1 text-xs font-medium text-brand-600 hover:text-brand-700 cursor-pointer">
+                      <Upload className="w-3 h-3" />
+                      Load CSV
+                      <input 
+                        type="file" 
+                        accept=".csv,.txt" 
+                        className="hidden"
+                        onChange={(e) => handleSurveyFile(e.target.files?.[0])}
+                      />
+                    </label>
+                  </div>
+                  <textarea 
+                    value={surveyInput}
+                    onChange={(e) => handleSurveyInput(e.target.value)}
+                    rows={8}
+                    className="w-full font-mono text-sm p-3 border border-slate-300 rounded-md focus:ring-brand-500 focus:border-brand-500"
+                    placeholder="0, 5.0&#10;5, 3.2&#10;10, 3.0"
+                  />
+                  {surveyError && (
+                    <div className="p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800 flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      <span>{surveyError}</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-500">
+                    {params.surveyPoints?.length ?? 0} points, left to right looking downstream. Depth is measured from the lowest point.
+                  </p>
+                </div>
+              )}
+
+              {activeTab === ChannelType.Compound && (
+                <div className="grid grid-cols-2 gap-4">
+                  {(['leftOverbank', 'rightOverbank'] as const).map(side => params[side] && (
+                    <div key={side} className="space-y-3">
+                      <h4 className="text-xs font-semibold text-slate-500">{side === 'leftOverbank' ? 'Left' : 'Right'} Overbank</h4>
+                      <label className="block">
+                        <span className="text-[11px] font-medium text-slate-600 mb-1 block">Width ({U.L})</span>
+                        <input 
+                          type="number" 
+                          value={params[side]!.width.toFixed(3)} 
+                          onChange={(e) => handleOverbankChange(side, 'width', e.target.value)}
+                          className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-[11px] font-medium text-slate-600 mb-1 block">Bank Height ({U.L})</span>
+                        <input 
+                          type="number" 
+                          step="0.1" 
+                          value={params[side]!.bankHeight.toFixed(3)} 
+                          onChange={(e) => handleOverbankChange(side, 'bankHeight', e.target.value)}
+                          className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-[11px] font-medium text-slate-600 mb-1 block">Manning's n</span>
+                        <input 
+                          type="number" 
+                          step="0.001" 
+                          value={params[side]!.manningN} 
+                          onChange={(e) => handleOverbankChange(side, 'manningN', e.target.value)}
+                          className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-[11px] font-medium text-slate-600 mb-1 block">Outer Slope z (H:V)</span>
+                        <input 
+                          type="number" 
+                          step="0.1" 
+                          value={params[side]!.sideSlope} 
+                          onChange={(e) => handleOverbankChange(side, 'sideSlope', e.target.value)}
+                          className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                        />
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -343,10 +1341,17 @@ const App: React.FC = () => {
                 <button 
                   type="button" 
                   onClick={() => setAnalysisMode('Custom')}
-                  className={`px-4 py-2 text-xs font-medium rounded-r-lg border ${analysisMode === 'Custom' ? 'bg-brand-50 text-brand-700 border-brand-200 z-10' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
+                  className={`px-4 py-2 text-xs font-medium border ${analysisMode === 'Custom' ? 'bg-brand-50 text-brand-700 border-brand-200 z-10' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
                 >
                   Custom
                 </button>
+                <button 
+                  type="button" 
+                  onClick={() => setAnalysisMode('Jump')}
+                  className={`px-4 py-2 text-xs font-medium rounded-r-lg border-t border-b border-r ${analysisMode === 'Jump' ? 'bg-brand-50 text-brand-700 border-brand-200 z-10' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  Jump
+                </button>
               </div>
 
               {analysisMode === 'Custom' && (
@@ -361,6 +1366,30 @@ const App: React.FC = () => {
                   />
                 </label>
               )}
+
+              {analysisMode === 'Jump' && (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input 
+                      type="checkbox" 
+                      checked={jumpFromNormal} 
+                      onChange={(e) => setJumpFromNormal(e.target.checked)}
+                    />
+                    Use normal depth as upstream depth
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-medium text-slate-500 uppercase mb-1 block">Upstream Depth y₁ ({U.L})</span>
+                    <input 
+                      type="number" 
+                      step="0.01" 
+                      value={jumpFromNormal && result ? result.normalDepth.toFixed(3) : jumpDepth} 
+                      disabled={jumpFromNormal}
+                      onChange={(e) => setJumpDepth(parseFloat(e.target.value) || 0)}
+                      className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
+                    />
+                  </label>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -371,7 +1400,7 @@ const App: React.FC = () => {
           <div className="px-5 py-3 flex items-center justify-between bg-white border-b border-slate-100">
             <h2 className="font-semibold text-slate-800 flex items-center gap-2">
               <Droplets className="w-4 h-4 text-brand-500" />
-              Cross-Section {viewMode === 'Advanced' ? `: ${analysisMode} Depth` : ''}
+              Cross-Section {viewMode === 'Advanced' ? (analysisMode === 'Jump' ? ': Hydraulic Jump' : `: ${analysisMode} Depth`) : ''}
             </h2>
             {sectionProps && (
               <div className="flex items-center gap-4 text-xs font-medium">
@@ -386,9 +1415,10 @@ const App: React.FC = () => {
             {sectionProps && (
               <ChannelVisualizer 
                 type={activeTab} 
-                params={params} 
+                params={solvedParams} 
                 displayDepth={sectionProps.depth}
                 criticalDepth={result?.criticalDepth}
+                sequentDepth={jump && !jump.error ? jump.sequentDepth : undefined}
               />
             )}
           </div>
@@ -430,7 +1460,27 @@ const App: React.FC = () => {
                       <p className="text-xl font-bold text-slate-800">{result.velocity.toFixed(2)} <span className="text-sm font-normal text-slate-400">{U.V}</span></p>
                   </div>
               </div>
+              {viewMode === 'Advanced' && (
+                <div className="mt-3 pt-3 border-t border-slate-100 grid grid-cols-2 gap-4 text-[10px] font-mono text-slate-400 text-center">
+                  <span>yn: {result.normalDepthSolver.iterations} it, residual {result.normalDepthSolver.residual.toExponential(1)}</span>
+                  <span>yc: {result.criticalDepthSolver.iterations} it, residual {result.criticalDepthSolver.residual.toExponential(1)}</span>
+                </div>
+              )}
             </div>
+
+            {(!result.normalDepthSolver.converged || !result.criticalDepthSolver.converged) && (
+              <div className="md:col-span-3 p-3 bg-amber-50 border border-amber-100 rounded-md text-xs text-amber-800 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>
+                  {!result.normalDepthSolver.converged && (
+                    getConduitRise(activeTab, solvedParams) !== null
+                      ? 'Discharge exceeds the conduit\'s maximum open-channel capacity; normal depth is shown at the crown. '
+                      : 'Normal depth did not converge; the value shown is the best estimate. '
+                  )}
+                  {!result.criticalDepthSolver.converged && 'Critical depth did not converge; the value shown is the best estimate.'}
+                </span>
+              </div>
+            )}
           </div>
         ) : (
           <div className="bg-rose-50 border border-rose-200 rounded-xl p-6 text-center text-rose-800">
@@ -439,6 +1489,201 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {result && !result.error && frictionLaw === 'Manning' && params.compositeRoughness && supportsCompositeRoughness(activeTab) && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <Layers className="w-4 h-4 text-slate-400" />
+                Composite Roughness ({COMPOSITE_METHODS.find(m => m.value === params.compositeRoughness!.method)?.label})
+              </h3>
+              <span className="text-xs font-mono text-slate-500">n at yn = {result.equivalentN.toFixed(4)}</span>
+            </div>
+            <div className="grid grid-cols-5 text-center p-4">
+              {[0.25, 0.5, 1, 1.5, 2].map(f => (
+                <div key={f}>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">y = {(f * result.normalDepth).toFixed(2)} {U.L}</p>
+                  <p className="font-mono text-sm text-slate-700">{getEquivalentManningN(activeTab, f * result.normalDepth, params).toFixed(4)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result && !result.error && result.subsections && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <Layers className="w-4 h-4 text-slate-400" />
+                Divided Conveyance
+              </h3>
+              <span className="text-xs font-mono text-slate-500">α = {result.energyCoefficient.toFixed(3)}</span>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                  <th className="text-left font-semibold px-5 py-2">Subsection</th>
+                  <th className="text-right font-semibold px-5 py-2">Area ({U.Area})</th>
+                  <th className="text-right font-semibold px-5 py-2">Q ({U.Q})</th>
+                  <th className="text-right font-semibold px-5 py-2">Velocity ({U.V})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.subsections.map(sub => (
+                  <tr key={sub.label} className="border-t border-slate-100">
+                    <td className="px-5 py-2 text-slate-600">{sub.label}</td>
+                    <td className="px-5 py-2 text-right font-mono text-slate-700">{sub.area.toFixed(3)}</td>
+                    <td className="px-5 py-2 text-right font-mono text-slate-700">{sub.discharge.toFixed(3)}</td>
+                    <td className="px-5 py-2 text-right font-mono text-slate-700">{sub.velocity.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {jump && (
+          jump.error ? (
+            <div className="p-3 bg-amber-50 border border-amber-100 rounded-md text-xs text-amber-800 flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>Hydraulic jump: {jump.error} (y₁ = {jump.upstreamDepth.toFixed(3)} {U.L}, Fr₁ = {jump.upstreamFroude.toFixed(2)})</span>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+              <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                  <ArrowRightLeft className="w-4 h-4 text-slate-400" />
+                  Hydraulic Jump
+                </h3>
+                <span className="px-2 py-1 rounded text-xs font-semibold border bg-indigo-50 text-indigo-700 border-indigo-100">
+                  {jump.jumpType} jump
+                </span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center p-4">
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">y₁ / y₂</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.upstreamDepth.toFixed(3)} / {jump.sequentDepth.toFixed(3)} {U.L}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">Fr₁ / Fr₂</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.upstreamFroude.toFixed(2)} / {jump.downstreamFroude.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">V₁ / V₂</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.upstreamVelocity.toFixed(2)} / {jump.downstreamVelocity.toFixed(2)} {U.V}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">Jump Height</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.jumpHeight.toFixed(3)} {U.L}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">Energy Loss ΔE</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.energyLoss.toFixed(3)} {U.Energy}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">Efficiency E₂/E₁</p>
+                  <p className="font-mono text-sm text-slate-700">{(jump.efficiency * 100).toFixed(1)}%</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">Length (est.)</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.length.toFixed(2)} {U.L}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400 font-semibold mb-1">Specific Force M</p>
+                  <p className="font-mono text-sm text-slate-700">{jump.specificForce.toFixed(3)} {U.Force}</p>
+                </div>
+              </div>
+            </div>
+          )
+        )}
+
+        {result && !result.error && viewMode === 'Advanced' && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <Waves className="w-4 h-4 text-slate-400" />
+                Friction ({FRICTION_LAWS.find(l => l.value === result.friction.law)?.label})
+              </h3>
+              <span className="px-2 py-1 rounded text-xs font-semibold border bg-slate-50 text-slate-700 border-slate-200">
+                {result.friction.regime === 'Laminar' ? 'Laminar' : `${result.friction.regime} turbulent`}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center p-4">
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">Reynolds Re</p>
+                <p className="font-mono text-sm text-slate-700">{result.friction.reynoldsNumber.toExponential(3)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">Darcy f</p>
+                <p className="font-mono text-sm text-slate-700">{result.friction.frictionFactor.toFixed(4)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">ks / 4R</p>
+                <p className="font-mono text-sm text-slate-700">{result.friction.relativeRoughness.toExponential(2)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">Equivalent n</p>
+                <p className="font-mono text-sm text-slate-700">{result.equivalentN.toFixed(4)}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {result && !result.error && result.pipe && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <Circle className="w-4 h-4 text-slate-400" />
+                Pipe Capacity
+              </h3>
+              <span className={`px-2 py-1 rounded text-xs font-semibold border ${
+                result.pipe.surcharged
+                  ? 'bg-rose-50 text-rose-700 border-rose-100'
+                  : 'bg-emerald-50 text-emerald-700 border-emerald-100'
+              }`}>
+                {result.pipe.surcharged ? 'Surcharged' : `${result.pipe.percentFull.toFixed(1)}% full`}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center p-4">
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">Full-flow Q</p>
+                <p className="font-mono text-sm text-slate-700">{result.pipe.fullFlow.toFixed(3)} {U.Q}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">Full-flow V</p>
+                <p className="font-mono text-sm text-slate-700">{result.pipe.fullVelocity.toFixed(2)} {U.V}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">Max Capacity</p>
+                <p className="font-mono text-sm text-slate-700">{result.pipe.maxCapacity.toFixed(3)} {U.Q}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400 font-semibold mb-1">at y</p>
+                <p className="font-mono text-sm text-slate-700">{result.pipe.maxCapacityDepth.toFixed(3)} {U.L}</p>
+              </div>
+            </div>
+            {result.pipe.upperNormalDepth !== undefined && (
+              <div className="mx-4 mb-4 p-3 bg-amber-50 border border-amber-100 rounded-md text-xs text-amber-800">
+                Q lies between full-flow and maximum capacity, so a second normal depth exists at y = {result.pipe.upperNormalDepth.toFixed(3)} {U.L}.
+                The upper root is unstable; the lower root is used for the results.
+              </div>
+            )}
+            {result.pipe.surcharged && result.pipe.hydraulicGradient !== undefined && (
+              <div className="mx-4 mb-4 p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800">
+                Q exceeds the maximum part-full capacity and the pipe flows under pressure. Passing it full-bore requires
+                a hydraulic gradient of {result.pipe.hydraulicGradient.toFixed(5)} against a bed slope of {solvedParams.slope}.
+              </div>
+            )}
+            {viewMode === 'Advanced' && (
+              <div className="h-64 px-4 pb-4">
+                <PartFullChart
+                  data={getPartFullRatios(solvedParams, unit)}
+                  depthRatio={result.normalDepth / solvedParams.diameter}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {sectionProps && viewMode === 'Advanced' && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -465,6 +1710,12 @@ const App: React.FC = () => {
                     <span className="text-sm text-slate-500">Top Width (T)</span>
                     <span className="font-mono font-medium text-slate-700">{sectionProps.topWidth.toFixed(3)} {U.L}</span>
                   </div>
+                  {activeTab === ChannelType.Surveyed && (
+                    <div className="flex justify-between items-center p-2 hover:bg-slate-50 rounded">
+                      <span className="text-sm text-slate-500">Wetted Sub-areas</span>
+                      <span className="font-mono font-medium text-slate-700">{sectionProps.wettedSubareas}</span>
+                    </div>
+                  )}
                 </div>
             </div>
 
@@ -500,7 +1751,254 @@ const App: React.FC = () => {
                 </div>
             </div>
           </div>
-        )}
+        )}
+
+        {sectionProps && result && !result.error && viewMode === 'Advanced' && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between gap-4">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <LineChart className="w-4 h-4 text-slate-400" />
+                Specific Energy & Force Diagrams
+              </h3>
+              <label className="flex items-center gap-2 text-xs text-slate-500">
+                Overlay Q ({U.Q})
+                <input 
+                  type="text" 
+                  value={curveFlowsInput} 
+                  placeholder={`${(solvedParams.flowRate * 0.5).toPrecision(3)}, ${(solvedParams.flowRate * 2).toPrecision(3)}`}
+                  onChange={(e) => setCurveFlowsInput(e.target.value)}
+                  className="w-40 bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 text-xs p-1.5 border"
+                />
+              </label>
+            </div>
+            <div className="h-80 p-4">
+              <SpecificCurvesChart
+                type={activeTab}
+                params={solvedParams}
+                unit={unit}
+                depth={sectionProps.depth}
+                normalDepth={result.normalDepth}
+                criticalDepth={result.criticalDepth}
+                customDepth={analysisMode === 'Custom' ? customDepth : undefined}
+                extraFlows={curveFlows}
+              />
+            </div>
+            <p className="px-5 pb-3 text-[10px] text-slate-400">
+              Dots mark the analysed depth with its alternate depth (same E) and sequent depth (same M). Hover to read values off the curves.
+            </p>
+          </div>
+        )}
+
+        {transition && viewMode === 'Advanced' && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <ArrowRight className="w-4 h-4 text-slate-400" />
+                Transition (from y = {transition.upstreamDepth.toFixed(3)} {U.L})
+              </h3>
+              <span className={`px-2 py-1 rounded text-xs font-semibold border ${
+                transition.choked
+                  ? 'bg-rose-50 text-rose-700 border-rose-100'
+                  : 'bg-emerald-50 text-emerald-700 border-emerald-100'
+              }`}>
+                {transition.choked ? 'Choked' : 'Passes flow'}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4">
+              <label className="block">
+                <span className="text-xs font-medium text-slate-500 mb-1 block">Bed Step Δz ({U.L})</span>
+                <input 
+                  type="number" 
+                  step="0.05" 
+                  value={transitionStep} 
+                  onChange={(e) => setTransitionStep(parseFloat(e.target.value) || 0)}
+                  className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                />
+              </label>
+              {transitionHasWidth && (
+                <label className="block">
+                  <span className="text-xs font-medium text-slate-500 mb-1 block">Downstream Width ({U.L})</span>
+                  <input 
+                    type="number" 
+                    step="0.1" 
+                    value={transitionInput.downstreamWidth} 
+                    onChange={(e) => setTransitionWidth(parseFloat(e.target.value) || 0)}
+                    className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                  />
+                </label>
+              )}
+              <label className="block">
+                <span className="text-xs font-medium text-slate-500 mb-1 block">Contraction Kc</span>
+                <input 
+                  type="number" 
+                  step="0.05" 
+                  value={transitionKc} 
+                  onChange={(e) => setTransitionKc(parseFloat(e.target.value) || 0)}
+                  className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-medium text-slate-500 mb-1 block">Expansion Ke</span>
+                <input 
+                  type="number" 
+                  step="0.05" 
+                  value={transitionKe} 
+                  onChange={(e) => setTransitionKe(parseFloat(e.target.value) || 0)}
+                  className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+                />
+              </label>
+            </div>
+            {transition.error ? (
+              <div className="mx-4 mb-4 p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800">{transition.error}</div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center px-4 pb-4">
+                  <div>
+                    <p className="text-xs text-slate-400 font-semibold mb-1">Downstream y₂</p>
+                    <p className="font-mono text-sm text-slate-700">{transition.downstreamDepth.toFixed(3)} {U.L}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 font-semibold mb-1">Head Loss hL</p>
+                    <p className="font-mono text-sm text-slate-700">{transition.headLoss.toFixed(4)} {U.Energy}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 font-semibold mb-1">Max Step (no choke)</p>
+                    <p className="font-mono text-sm text-slate-700">{transition.maxBedStep.toFixed(3)} {U.L}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400 font-semibold mb-1">Fr₁ / Fr₂</p>
+                    <p className="font-mono text-sm text-slate-700">{transition.upstreamFroude.toFixed(2)} / {transition.downstreamFroude.toFixed(2)}</p>
+                  </div>
+                </div>
+                {transition.choked && transition.requiredUpstreamDepth !== undefined && (
+                  <div className="mx-4 mb-4 p-3 bg-amber-50 border border-amber-100 rounded-md text-xs text-amber-800">
+                    The transition chokes: section 2 runs at critical depth ({transition.downstreamCriticalDepth.toFixed(3)} {U.L}) and the upstream depth must rise
+                    by {transition.upstreamRise!.toFixed(3)} {U.L} to {transition.requiredUpstreamDepth.toFixed(3)} {U.L} to pass the flow.
+                  </div>
+                )}
+                <div className="h-72 px-4 pb-4">
+                  <TransitionDiagram
+                    type={activeTab}
+                    upstreamParams={solvedParams}
+                    downstreamParams={{ ...solvedParams, width: transitionInput.downstreamWidth }}
+                    bedStep={transitionStep}
+                    result={transition}
+                    unit={unit}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const RatingCurveView = () => (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-6 h-full">
+      <div className="xl:col-span-4 space-y-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+            <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+              <Ruler className="w-4 h-4 text-slate-400" />
+              Stage Range
+            </h2>
+          </div>
+          <div className="p-6 space-y-4">
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700 mb-1 block">Maximum Stage ({U.L})</span>
+              <input 
+                type="number" 
+                step="0.1" 
+                value={parseFloat(ratingTop.toPrecision(4))} 
+                disabled={ratingMax === null && ratingRise !== null}
+                onChange={(e) => setRatingMax(parseFloat(e.target.value) || 0)}
+                className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border disabled:bg-slate-50 disabled:text-slate-400"
+              />
+            </label>
+            {ratingRise !== null && (
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input 
+                  type="checkbox" 
+                  checked={ratingMax === null} 
+                  onChange={(e) => setRatingMax(e.target.checked ? null : ratingRise)}
+                />
+                Sweep to the crown (full conduit)
+              </label>
+            )}
+            <label className="block">
+              <span className="text-sm font-medium text-slate-700 mb-1 block">Number of Steps</span>
+              <input 
+                type="number" 
+                step="1" 
+                min="1"
+                value={ratingSteps} 
+                onChange={(e) => setRatingSteps(Math.min(500, parseInt(e.target.value) || 1))}
+                className="w-full bg-white text-slate-900 rounded-md border-slate-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 sm:text-sm p-2 border"
+              />
+            </label>
+            <div className="bg-slate-50 p-3 rounded text-xs text-slate-600 border border-slate-200">
+              <p>Discharges assume uniform flow at each stage using the channel, slope and friction settings from the Calculator tab.</p>
+            </div>
+            <button
+              onClick={handleExportRatingCsv}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-brand-600 hover:bg-brand-700 text-white font-medium rounded-lg shadow-sm transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="xl:col-span-8 space-y-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden h-[420px] flex flex-col">
+          <div className="px-6 py-4 border-b border-slate-100 bg-white flex justify-between items-center">
+            <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+              <Activity className="w-4 h-4 text-brand-500" />
+              Rating Curve (Stage vs Discharge)
+            </h2>
+          </div>
+          <div className="flex-1 bg-slate-50 p-4">
+            <TimeSeriesChart 
+              data={ratingCurve.map(pt => ({ time: pt.discharge, value: pt.stage }))} 
+              xLabel={`Discharge Q (${U.Q})`} 
+              yLabel={`Stage (${U.L})`} 
+              color="#0ea5e9"
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="max-h-[420px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 sticky top-0">
+                <tr>
+                  <th className="text-right font-semibold px-4 py-2">Stage ({U.L})</th>
+                  <th className="text-right font-semibold px-4 py-2">Q ({U.Q})</th>
+                  <th className="text-right font-semibold px-4 py-2">A ({U.Area})</th>
+                  <th className="text-right font-semibold px-4 py-2">V ({U.V})</th>
+                  <th className="text-right font-semibold px-4 py-2">R ({U.L})</th>
+                  <th className="text-right font-semibold px-4 py-2">Fr</th>
+                  <th className="text-right font-semibold px-4 py-2">E ({U.Energy})</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-700">
+                {ratingCurve.map(pt => (
+                  <tr key={pt.stage} className="border-t border-slate-100 hover:bg-slate-50">
+                    <td className="text-right px-4 py-1.5">{pt.stage.toFixed(3)}</td>
+                    <td className="text-right px-4 py-1.5">{pt.discharge.toFixed(3)}</td>
+                    <td className="text-right px-4 py-1.5">{pt.area.toFixed(3)}</td>
+                    <td className="text-right px-4 py-1.5">{pt.velocity.toFixed(3)}</td>
+                    <td className="text-right px-4 py-1.5">{pt.hydraulicRadius.toFixed(3)}</td>
+                    <td className="text-right px-4 py-1.5">{pt.froudeNumber.toFixed(3)}</td>
+                    <td className="text-right px-4 py-1.5">{pt.specificEnergy.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -522,7 +2020,7 @@ const App: React.FC = () => {
                 </label>
                 <p className="text-xs text-slate-500">
                    Enter data points as "Time, Flow". <br/>
-                   Time in hours/sec (arbitrary), Flow in {U.Q}.
+                   Time in {HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.label.toLowerCase()}, Flow in {U.Q}.
                 </p>
                 <textarea 
                    value={hydroInput}
@@ -532,8 +2030,15 @@ const App: React.FC = () => {
                    placeholder="0, 10&#10;1, 15&#10;2, 25"
                 />
              </div>
-             <div className="bg-slate-50 p-3 rounded text-xs text-slate-600 border border-slate-200">
+             <label className="block">
+                <span className="text-[10px] text-slate-500 block">Time Unit</span>
+                <select value={hydroTimeScale} onChange={(e) => setHydroTimeScale(Number(e.target.value))} className="w-full text-sm p-1 border border-slate-300 rounded">
+                   {HYDROGRAPH_TIME_UNITS.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+                </select>
+             </label>
+             <div className="bg-slate-50 p-3 rounded text-xs text-slate-600 border border-slate-200 space-y-2">
                 <p>The system will calculate the corresponding <strong>Normal Depth</strong> for each flow rate based on the channel parameters set in the Calculator tab.</p>
+                <p>The hydrograph is also <strong>routed</strong> through the reaches of the main canal in the Canal Model tab.</p>
              </div>
           </div>
         </div>
@@ -563,6 +2068,88 @@ const App: React.FC = () => {
                  )}
             </div>
         </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-white flex justify-between items-center">
+                <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+                    <Waves className="w-4 h-4 text-brand-500" />
+                    Routed Through the Canal (Muskingum–Cunge)
+                </h2>
+                {!routing.error && (
+                    <span className="text-xs text-slate-500">
+                        {canalSections.length} reach{canalSections.length === 1 ? '' : 'es'} · {canalSections.reduce((sum, sec) => sum + sec.length, 0).toFixed(0)} {U.L} · Δt {routing.timeStep.toFixed(1)} s
+                    </span>
+                )}
+            </div>
+            {routing.error ? (
+                <div className="m-4 p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{routing.error}</span>
+                </div>
+            ) : (
+                <>
+                    <div className="h-[400px] bg-slate-50 p-4">
+                        <TimeSeriesChart
+                            data={routing.inflow}
+                            xLabel={`Time (${HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.short})`}
+                            yLabel={`Discharge (${U.Q})`}
+                            color="#0ea5e9"
+                            label="Inflow"
+                            overlay={{ data: routing.outflow, color: '#6366f1', label: 'Outflow' }}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 px-5 py-4 border-t border-slate-100 text-sm">
+                        <div>
+                            <span className="text-xs text-slate-500 block">Peak Inflow</span>
+                            <span className="font-mono text-slate-800">{routing.peakInflow.toFixed(3)} {U.Q}</span>
+                        </div>
+                        <div>
+                            <span className="text-xs text-slate-500 block">Peak Outflow</span>
+                            <span className="font-mono text-slate-800">{routing.peakOutflow.toFixed(3)} {U.Q}</span>
+                        </div>
+                        <div>
+                            <span className="text-xs text-slate-500 block">Peak Attenuation</span>
+                            <span className="font-mono text-slate-800">{routing.attenuation.toFixed(3)} {U.Q} ({(100 * routing.attenuation / (routing.peakOutflow + routing.attenuation || 1)).toFixed(1)}%)</span>
+                        </div>
+                        <div>
+                            <span className="text-xs text-slate-500 block">Peak Lag</span>
+                            <span className="font-mono text-slate-800">{routing.lag.toFixed(3)} {HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.short}</span>
+                        </div>
+                    </div>
+                    <table className="w-full text-sm border-t border-slate-100">
+                        <thead>
+                            <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                                <th className="text-left font-semibold px-5 py-2">Reach</th>
+                                <th className="text-right font-semibold px-5 py-2">Q ref ({U.Q})</th>
+                                <th className="text-right font-semibold px-5 py-2">yn ({U.L})</th>
+                                <th className="text-right font-semibold px-5 py-2">c ({U.V})</th>
+                                <th className="text-right font-semibold px-5 py-2">Subreaches</th>
+                                <th className="text-right font-semibold px-5 py-2">K (s)</th>
+                                <th className="text-right font-semibold px-5 py-2">X</th>
+                                <th className="text-right font-semibold px-5 py-2">Courant</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {routing.reaches.map(r => (
+                                <tr key={r.sectionIndex} className="border-t border-slate-100">
+                                    <td className="px-5 py-2 text-slate-600">Reach {r.sectionIndex + 1}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.referenceFlow.toFixed(3)}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.depth.toFixed(3)}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.celerity.toFixed(3)}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.subreaches}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.K.toFixed(1)}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.X.toFixed(3)}</td>
+                                    <td className="px-5 py-2 text-right font-mono text-slate-700">{r.courant.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100">
+                        Parameters at normal depth for a reference flow midway between base and peak, plus the steady inflows above the reach. Point and lateral inflows join as steady flow; structures, junction losses and seepage are not routed. A negative X means the wave diffuses more than one subreach can hold, which the scheme still reproduces.
+                    </p>
+                </>
+            )}
+        </div>
       </div>
     </div>
   );
@@ -582,19 +2169,165 @@ const App: React.FC = () => {
                    <div className="p-3 bg-slate-50 border border-slate-100 rounded-md text-xs text-slate-500 space-y-1">
                        <p className="font-semibold text-slate-700">Calculated Geometry:</p>
                        <div className="flex justify-between"><span>Type:</span> <span>{activeTab}</span></div>
-                       <div className="flex justify-between"><span>Q:</span> <span>{params.flowRate} {U.Q}</span></div>
+                       <div className="flex justify-between"><span>Q:</span> <span>{solvedParams.flowRate} {U.Q}</span></div>
+                   </div>
+
+                   {/* Network: each branch leaves the downstream end of its parent */}
+                   <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                         <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Network Branches ({networkBranches.length}/{MAX_BRANCHES})</h3>
+                         <button onClick={addNetworkBranch} disabled={networkBranches.length >= MAX_BRANCHES} className="text-brand-600 hover:text-brand-700 disabled:opacity-50">
+                            <Plus className="w-4 h-4" />
+                         </button>
+                      </div>
+                      {networkBranches.length === 0 ? (
+                         <p className="text-[10px] text-slate-400">A single canal. A branch splits the flow at the downstream end of the canal being edited.</p>
+                      ) : (
+                         <>
+                            <div className="grid grid-cols-2 gap-2">
+                               <label className="block">
+                                  <span className="text-[10px] text-slate-500 block">Flow Split</span>
+                                  <select 
+                                     value={networkOptions.splitMode}
+                                     onChange={(e) => setNetworkOptions(prev => ({ ...prev, splitMode: e.target.value as FlowSplitMode }))}
+                                     className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                  >
+                                     {SPLIT_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                  </select>
+                               </label>
+                               <label className="block">
+                                  <span className="text-[10px] text-slate-500 block">Junction Compatibility</span>
+                                  <select 
+                                     value={networkOptions.compatibility}
+                                     onChange={(e) => setNetworkOptions(prev => ({ ...prev, compatibility: e.target.value as JunctionCompatibility }))}
+                                     className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                  >
+                                     {COMPATIBILITY_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                  </select>
+                               </label>
+                            </div>
+                            {networkBranches.map(b => {
+                               const subtree = branchSubtree(b.id);
+                               const isTail = !networkBranches.some(k => k.parentId === b.id);
+                               return (
+                               <div key={b.id} className={`border rounded-lg p-3 space-y-2 ${editingBranch === b.id ? 'border-brand-200 bg-brand-50/30' : 'border-slate-200 bg-white'}`}>
+                                  <div className="flex items-center gap-2">
+                                     <input 
+                                        type="text" value={b.name}
+                                        onChange={(e) => updateNetworkBranch(b.id, { name: e.target.value })}
+                                        className="flex-1 min-w-0 text-sm p-1 border border-slate-300 rounded" 
+                                     />
+                                     <button onClick={() => removeNetworkBranch(b.id)}><Trash2 className="w-3 h-3 text-slate-400 hover:text-rose-500" /></button>
+                                  </div>
+                                  <div className="grid grid-cols-2 gap-2">
+                                     <label className="block">
+                                        <span className="text-[10px] text-slate-500 block">Leaves the End of</span>
+                                        <select 
+                                           value={b.parentId ?? MAIN_CANAL}
+                                           onChange={(e) => updateNetworkBranch(b.id, { parentId: e.target.value })}
+                                           className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                        >
+                                           {allBranches.filter(x => !subtree.has(x.id)).map(x => <option key={x.id} value={x.id}>{x.name}</option>)}
+                                        </select>
+                                     </label>
+                                     {networkOptions.splitMode === 'Fixed' && (
+                                        <label className="block">
+                                           <span className="text-[10px] text-slate-500 block">Flow Share</span>
+                                           <input 
+                                              type="number" step="0.1" min="0" value={b.flowShare}
+                                              onChange={(e) => updateNetworkBranch(b.id, { flowShare: parseFloat(e.target.value) || 0 })}
+                                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                                           />
+                                        </label>
+                                     )}
+                                     {networkOptions.compatibility === 'Momentum' && (
+                                        <label className="block">
+                                           <span className="text-[10px] text-slate-500 block">Deflection (°)</span>
+                                           <input 
+                                              type="number" step="5" value={b.angle}
+                                              onChange={(e) => updateNetworkBranch(b.id, { angle: parseFloat(e.target.value) || 0 })}
+                                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                                           />
+                                        </label>
+                                     )}
+                                     {isTail && (
+                                        <label className="block">
+                                           <span className="text-[10px] text-slate-500 block">Tail Control</span>
+                                           <select 
+                                              value={b.downstream.type}
+                                              onChange={(e) => updateNetworkBranch(b.id, { downstream: { ...b.downstream, type: e.target.value as ControlCondition['type'] } })}
+                                              className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                           >
+                                              {TAIL_CONTROLS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                                           </select>
+                                        </label>
+                                     )}
+                                     {isTail && b.downstream.type === 'KnownDepth' && (
+                                        <label className="block">
+                                           <span className="text-[10px] text-slate-500 block">Tail Depth ({U.L})</span>
+                                           <input 
+                                              type="number" step="0.01" value={b.downstream.value}
+                                              onChange={(e) => updateNetworkBranch(b.id, { downstream: { ...b.downstream, value: parseFloat(e.target.value) || 0 } })}
+                                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                                           />
+                                        </label>
+                                     )}
+                                  </div>
+                               </div>
+                               );
+                            })}
+                         </>
+                      )}
                    </div>
 
                    {/* Sections List */}
                    <div className="space-y-4">
                       <div className="flex items-center justify-between">
-                         <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Reach Sections ({canalSections.length}/5)</h3>
-                         <button onClick={addCanalSection} disabled={canalSections.length >= 5} className="text-brand-600 hover:text-brand-700 disabled:opacity-50">
+                         <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Reach Sections ({activeSections.length}/5)</h3>
+                         <button onClick={addCanalSection} disabled={activeSections.length >= 5} className="text-brand-600 hover:text-brand-700 disabled:opacity-50">
                             <Plus className="w-4 h-4" />
                          </button>
                       </div>
+                      {networkBranches.length > 0 && (
+                         <label className="block">
+                            <span className="text-[10px] text-slate-500 block">Editing</span>
+                            <select 
+                               value={editingBranch}
+                               onChange={(e) => setEditingBranch(e.target.value)}
+                               className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                            >
+                               {allBranches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                            </select>
+                         </label>
+                      )}
                       
-                      {canalSections.map((sec, idx) => (
+                      {activeSections.map((sec, idx) => {
+                         const reach = resolveReachSection(activeTab, solvedParams, sec);
+                         const reachSlope = sec.inputMode === 'Elevation' ? (sec.usElevation - sec.dsElevation) / sec.length : sec.slope;
+                         const reachParams = { ...reach.params, slope: reachSlope };
+                         const reachYn = solveNormalDepth(reach.type, reachParams, unit);
+                         const thumbDepth = reachYn.converged ? reachYn.depth : solveCriticalDepth(reach.type, reachParams, unit).depth;
+                         const geomField = (field: keyof ReachGeometry, label: string, step: string) => (
+                            <label key={field} className="block">
+                               <span className="text-[10px] text-slate-500 block">{label}</span>
+                               <input 
+                                  type="number" step={step} value={reach.params[field] ?? ''} 
+                                  onChange={(e) => updateSectionGeometry(sec.id, field, e.target.value)}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                         );
+                         const flowField = (field: 'pointInflow' | 'lateralInflow' | 'seepageCoefficient', label: string, step: string) => (
+                            <label key={field} className="block">
+                               <span className="text-[10px] text-slate-500 block">{label}</span>
+                               <input 
+                                  type="number" step={step} value={sec[field] ?? ''} placeholder="0"
+                                  onChange={(e) => { const v = parseFloat(e.target.value); updateSection(sec.id, field, isNaN(v) ? undefined : v); }}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                         );
+                         return (
                          <div key={sec.id} className="border border-slate-200 rounded-lg p-3 space-y-3 bg-white">
                              <div className="flex items-center justify-between">
                                 <span className="text-sm font-medium text-slate-700">Section {idx + 1}</span>
@@ -655,68 +2388,223 @@ const App: React.FC = () => {
                                     </div>
                                 )}
                              </div>
+                             <div className="flex gap-3 pt-2 border-t border-slate-100">
+                                <div className="w-24 h-16 shrink-0 bg-slate-50 rounded border border-slate-100" title={`${reach.type} at ${reachYn.converged ? 'normal' : 'critical'} depth`}>
+                                   <SectionThumbnail type={reach.type} params={reachParams} depth={thumbDepth} />
+                                </div>
+                                <div className="flex-1 space-y-2">
+                                   <select 
+                                      value={sec.channelType ?? ''}
+                                      onChange={(e) => updateSectionShape(sec.id, e.target.value as ChannelType | '')}
+                                      className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                   >
+                                      <option value="">Calculator ({activeTab})</option>
+                                      {REACH_SHAPES.map(t => <option key={t} value={t}>{t}</option>)}
+                                   </select>
+                                   <div className="grid grid-cols-2 gap-2">
+                                      {WIDTH_LABELS[reach.type] && geomField('width', `${WIDTH_LABELS[reach.type]} (${U.L})`, '0.1')}
+                                      {DIAMETER_LABELS[reach.type] && geomField('diameter', `${DIAMETER_LABELS[reach.type]} (${U.L})`, '0.1')}
+                                      {HEIGHT_LABELS[reach.type] && geomField('height', `${HEIGHT_LABELS[reach.type]} (${U.L})`, '0.1')}
+                                      {reach.type === ChannelType.RoundBottom && geomField('bottomRadius', `Bottom Radius r (${U.L})`, '0.1')}
+                                      {(reach.type === ChannelType.Trapezoidal || reach.type === ChannelType.Triangular || reach.type === ChannelType.RoundBottom) && !(sec.channelType === undefined && isAsymmetric) && geomField('sideSlope', 'Side Slope z', '0.1')}
+                                      {geomField('manningN', "Manning's n", '0.001')}
+                                   </div>
+                                </div>
+                             </div>
+                             {/* Lateral flow: + adds water, - takes it out */}
+                             <div className="grid grid-cols-2 gap-2 pt-2 border-t border-slate-100">
+                                {flowField('pointInflow', `${idx === 0 ? 'Extra' : 'Junction'} Inflow ± (${U.Q})`, '0.1')}
+                                {flowField('lateralInflow', `Lateral q ± (${U.Q}/${U.L})`, '0.0001')}
+                                <label className="block">
+                                   <span className="text-[10px] text-slate-500 block">Seepage</span>
+                                   <select 
+                                      value={sec.seepage ?? 'None'}
+                                      onChange={(e) => updateSection(sec.id, 'seepage', e.target.value as SeepageMethod)}
+                                      className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                   >
+                                      {SEEPAGE_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                   </select>
+                                </label>
+                                {sec.seepage && sec.seepage !== 'None' && flowField('seepageCoefficient', `${sec.seepage === 'Moritz' ? 'C' : 'k'} (${U.L}/day)`, '0.01')}
+                             </div>
+                             {/* Structure between this reach and the next */}
+                             {idx < activeSections.length - 1 && (
+                                <div className="space-y-2 pt-2 border-t border-slate-100">
+                                   <label className="block">
+                                      <span className="text-[10px] text-slate-500 block">Structure at Downstream End</span>
+                                      <select 
+                                         value={sec.structure?.type ?? ''}
+                                         onChange={(e) => updateSectionStructure(sec.id, e.target.value as StructureType | '')}
+                                         className="w-full text-sm p-1 border border-slate-300 rounded bg-white"
+                                      >
+                                         <option value="">None</option>
+                                         {STRUCTURE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                                      </select>
+                                   </label>
+                                   {sec.structure && (sec.structure.type === 'Drop' && activeSections[idx + 1].inputMode === 'Elevation' ? (
+                                      <p className="text-[10px] text-slate-500">Fall taken from the bed elevations of the two reaches.</p>
+                                   ) : (
+                                      <div className="grid grid-cols-2 gap-2">
+                                         {STRUCTURE_FIELDS[sec.structure.type].map(({ field, label, isLength }) => (
+                                            <label key={field} className="block">
+                                               <span className="text-[10px] text-slate-500 block">{isLength ? `${label} (${U.L})` : label}</span>
+                                               <input 
+                                                  type="number" step={isLength ? '0.1' : '0.01'} value={sec.structure![field] ?? ''} 
+                                                  onChange={(e) => updateStructureField(sec.id, field, e.target.value)}
+                                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                                               />
+                                            </label>
+                                         ))}
+                                      </div>
+                                   ))}
+                                   {/* Local losses stand in for a structure; a structure's own equation covers its losses */}
+                                   {!sec.structure && (
+                                      <>
+                                         <label className="flex items-center gap-2 text-xs text-slate-600">
+                                            <input 
+                                               type="checkbox" 
+                                               checked={!!sec.junctionLoss} 
+                                               onChange={(e) => toggleJunctionLoss(sec.id, e.target.checked)}
+                                            />
+                                            Local losses at the junction (transition, bend, racks)
+                                         </label>
+                                         {sec.junctionLoss && (
+                                            <div className="grid grid-cols-2 gap-2">
+                                               {JUNCTION_LOSS_FIELDS.map(({ field, label, step }) => (
+                                                  <label key={field} className="block">
+                                                     <span className="text-[10px] text-slate-500 block">{label}</span>
+                                                     <input 
+                                                        type="number" step={step} min="0" value={sec.junctionLoss![field] ?? ''} 
+                                                        onChange={(e) => updateJunctionLossField(sec.id, field, e.target.value)}
+                                                        className="w-full text-sm p-1 border border-slate-300 rounded" 
+                                                     />
+                                                  </label>
+                                               ))}
+                                            </div>
+                                         )}
+                                      </>
+                                   )}
+                                </div>
+                             )}
                          </div>
-                      ))}
+                         );
+                      })}
                    </div>
                    
                    <div className="space-y-3 pt-4 border-t border-slate-100">
                         <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Boundary Conditions</h3>
                         
                         <div className="grid grid-cols-2 gap-2">
-                            <button 
-                                onClick={() => setBoundaryCond(prev => ({ ...prev, location: 'Upstream' }))}
-                                className={`px-3 py-2 text-xs font-medium rounded border text-center ${boundaryCond.location === 'Upstream' ? 'bg-brand-50 text-brand-700 border-brand-200' : 'bg-white text-slate-600 border-slate-200'}`}
-                            >
-                                Upstream End
-                            </button>
-                            <button 
-                                onClick={() => setBoundaryCond(prev => ({ ...prev, location: 'Downstream' }))}
-                                className={`px-3 py-2 text-xs font-medium rounded border text-center ${boundaryCond.location === 'Downstream' ? 'bg-brand-50 text-brand-700 border-brand-200' : 'bg-white text-slate-600 border-slate-200'}`}
-                            >
-                                Downstream End
-                            </button>
+                            {BC_ENDS.map(({ end, label }) => {
+                                const active = boundaryCond[end] !== undefined;
+                                const other = end === 'upstream' ? 'downstream' : 'upstream';
+                                return (
+                                    <button 
+                                        key={end}
+                                        onClick={() => setBoundaryCond(prev => ({ ...prev, [end]: active ? undefined : DEFAULT_CONTROLS[end] }))}
+                                        disabled={active && boundaryCond[other] === undefined}
+                                        className={`px-3 py-2 text-xs font-medium rounded border text-center ${active ? 'bg-brand-50 text-brand-700 border-brand-200' : 'bg-white text-slate-600 border-slate-200'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                );
+                            })}
                         </div>
 
-                        <div className="space-y-2 mt-2">
-                             <label className="flex items-center gap-2 text-sm text-slate-700">
-                                 <input 
-                                    type="radio" 
-                                    name="bcType" 
-                                    checked={boundaryCond.type === 'KnownDepth'} 
-                                    onChange={() => setBoundaryCond(prev => ({ ...prev, type: 'KnownDepth' }))}
-                                 />
-                                 Known Depth y
-                             </label>
-                             {boundaryCond.type === 'KnownDepth' && (
-                                 <input 
-                                    type="number"
-                                    step="0.01"
-                                    value={boundaryCond.value}
-                                    onChange={(e) => setBoundaryCond(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))} 
-                                    className="w-full ml-6 max-w-[120px] p-1 text-sm border border-slate-300 rounded"
-                                 />
-                             )}
-                             
-                             <label className="flex items-center gap-2 text-sm text-slate-700">
-                                 <input 
-                                    type="radio" 
-                                    name="bcType" 
-                                    checked={boundaryCond.type === 'NormalDepth'} 
-                                    onChange={() => setBoundaryCond(prev => ({ ...prev, type: 'NormalDepth' }))}
-                                 />
-                                 Normal Depth
-                             </label>
-
-                             <label className="flex items-center gap-2 text-sm text-slate-700">
-                                 <input 
-                                    type="radio" 
-                                    name="bcType" 
-                                    checked={boundaryCond.type === 'CriticalDepth'} 
-                                    onChange={() => setBoundaryCond(prev => ({ ...prev, type: 'CriticalDepth' }))}
-                                 />
-                                 Critical Depth
-                             </label>
+                        {BC_ENDS.map(({ end, label }) => {
+                            const control = boundaryCond[end];
+                            if (!control) return null;
+                            const setControl = (patch: Partial<ControlCondition>) => setBoundaryCond(prev => ({ ...prev, [end]: { ...control, ...patch } }));
+                            return (
+                                <div key={end} className="space-y-2 mt-2">
+                                    <p className="text-[10px] font-semibold text-slate-500 uppercase">{label}</p>
+                                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                                        <input 
+                                           type="radio" 
+                                           name={`bcType-${end}`} 
+                                           checked={control.type === 'KnownDepth'} 
+                                           onChange={() => setControl({ type: 'KnownDepth' })}
+                                        />
+                                        Known Depth y
+                                    </label>
+                                    {control.type === 'KnownDepth' && (
+                                        <input 
+                                           type="number"
+                                           step="0.01"
+                                           value={control.value}
+                                           onChange={(e) => setControl({ value: parseFloat(e.target.value) || 0 })} 
+                                           className="w-full ml-6 max-w-[120px] p-1 text-sm border border-slate-300 rounded"
+                                        />
+                                    )}
+                                    
+                                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                                        <input 
+                                           type="radio" 
+                                           name={`bcType-${end}`} 
+                                           checked={control.type === 'NormalDepth'} 
+                                           onChange={() => setControl({ type: 'NormalDepth' })}
+                                        />
+                                        Normal Depth
+                                    </label>
+
+                                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                                        <input 
+                                           type="radio" 
+                                           name={`bcType-${end}`} 
+                                           checked={control.type === 'CriticalDepth'} 
+                                           onChange={() => setControl({ type: 'CriticalDepth' })}
+                                        />
+                                        Critical Depth
+                                    </label>
+                                </div>
+                            );
+                        })}
+
+                        {boundaryCond.upstream && boundaryCond.downstream && (
+                            <p className="text-[10px] text-slate-400">Both ends set: the upstream control drives a supercritical profile, the downstream control a subcritical one, and the jump forms where their specific forces balance.</p>
+                        )}
+                        {networkBranches.length > 0 && (
+                            <p className="text-[10px] text-slate-400">With branches the network is solved from the tail controls of its branches; these controls apply to a single canal only.</p>
+                        )}
+                   </div>
+
+                   <div className="space-y-3 pt-4 border-t border-slate-100">
+                        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Standard Step Solver</h3>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="block">
+                               <span className="text-[10px] text-slate-500 block">Depth Tolerance ({U.L})</span>
+                               <input 
+                                  type="number" step="0.0001" min="0" value={profileOptions.tolerance} 
+                                  onChange={(e) => setProfileOptions(prev => ({ ...prev, tolerance: parseFloat(e.target.value) || DEFAULT_PROFILE_OPTIONS.tolerance }))}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                            <label className="block">
+                               <span className="text-[10px] text-slate-500 block">Max Steps / Reach</span>
+                               <input 
+                                  type="number" step="100" min="1" value={profileOptions.maxSteps} 
+                                  onChange={(e) => setProfileOptions(prev => ({ ...prev, maxSteps: Math.max(1, parseInt(e.target.value) || DEFAULT_PROFILE_OPTIONS.maxSteps) }))}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                            <label className="block">
+                               <span className="text-[10px] text-slate-500 block">Min Step ({U.L})</span>
+                               <input 
+                                  type="number" step="0.01" min="0" value={profileOptions.minStep} 
+                                  onChange={(e) => setProfileOptions(prev => ({ ...prev, minStep: parseFloat(e.target.value) || DEFAULT_PROFILE_OPTIONS.minStep }))}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                            <label className="block">
+                               <span className="text-[10px] text-slate-500 block">Max Step ({U.L})</span>
+                               <input 
+                                  type="number" step="1" min="0" value={profileOptions.maxStep} 
+                                  onChange={(e) => setProfileOptions(prev => ({ ...prev, maxStep: parseFloat(e.target.value) || DEFAULT_PROFILE_OPTIONS.maxStep }))}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
                         </div>
+                        <p className="text-[10px] text-slate-400">Each step is compared with two half steps; it is halved while the depth difference exceeds the tolerance.</p>
                    </div>
 
                    <button 
@@ -728,14 +2616,120 @@ const App: React.FC = () => {
                    </button>
                 </div>
             </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+                    <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+                        <Activity className="w-4 h-4 text-slate-400" />
+                        Unsteady Flow
+                    </h2>
+                </div>
+                <div className="p-4 space-y-3">
+                    <p className="text-[10px] text-slate-400">Routes the Hydrograph input down the main canal with the Saint-Venant equations, starting from the steady state of its first flow.</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        <label className="block">
+                           <span className="text-[10px] text-slate-500 block">Δt (s)</span>
+                           <input 
+                              type="number" step="10" min="0" value={unsteadyOptions.timeStep} 
+                              onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, timeStep: parseFloat(e.target.value) || DEFAULT_UNSTEADY_OPTIONS.timeStep }))}
+                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                           />
+                        </label>
+                        <label className="block">
+                           <span className="text-[10px] text-slate-500 block">Δx ({U.L})</span>
+                           <input 
+                              type="number" step="10" min="0" value={unsteadyOptions.spaceStep} 
+                              onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, spaceStep: parseFloat(e.target.value) || prev.spaceStep }))}
+                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                           />
+                        </label>
+                        <label className="block">
+                           <span className="text-[10px] text-slate-500 block">θ</span>
+                           <input 
+                              type="number" step="0.05" min="0.5" max="1" value={unsteadyOptions.theta} 
+                              onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, theta: parseFloat(e.target.value) }))}
+                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                           />
+                        </label>
+                    </div>
+                    <label className="block">
+                        <span className="text-[10px] text-slate-500 block">Downstream Boundary</span>
+                        <select 
+                           value={unsteadyOptions.downstream.type} 
+                           onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, downstream: { ...prev.downstream, type: e.target.value as UnsteadyDownstreamType } }))}
+                           className="w-full text-sm p-1 border border-slate-300 rounded"
+                        >
+                           {UNSTEADY_BOUNDARIES.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+                        </select>
+                    </label>
+                    {unsteadyOptions.downstream.type === 'Stage' && (
+                        <label className="block">
+                           <span className="text-[10px] text-slate-500 block">Depth ({U.L})</span>
+                           <input 
+                              type="number" step="0.1" min="0" value={unsteadyOptions.downstream.depth} 
+                              onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, downstream: { ...prev.downstream, depth: parseFloat(e.target.value) } }))}
+                              className="w-full text-sm p-1 border border-slate-300 rounded" 
+                           />
+                        </label>
+                    )}
+                    {unsteadyOptions.downstream.type === 'Rating' && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="block">
+                               <span className="text-[10px] text-slate-500 block">C</span>
+                               <input 
+                                  type="number" step="0.1" min="0" value={unsteadyOptions.downstream.coefficient} 
+                                  onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, downstream: { ...prev.downstream, coefficient: parseFloat(e.target.value) } }))}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                            <label className="block">
+                               <span className="text-[10px] text-slate-500 block">m</span>
+                               <input 
+                                  type="number" step="0.1" min="0" value={unsteadyOptions.downstream.exponent} 
+                                  onChange={(e) => setUnsteadyOptions(prev => ({ ...prev, downstream: { ...prev.downstream, exponent: parseFloat(e.target.value) } }))}
+                                  className="w-full text-sm p-1 border border-slate-300 rounded" 
+                               />
+                            </label>
+                        </div>
+                    )}
+                    <button 
+                       onClick={handleRunUnsteady}
+                       className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white border border-brand-600 text-brand-700 hover:bg-brand-50 font-medium rounded-lg shadow-sm transition-colors"
+                    >
+                       <Activity className="w-4 h-4" />
+                       Run Unsteady
+                    </button>
+                </div>
+            </div>
          </div>
 
          <div className="xl:col-span-8 space-y-6">
+            {networkResult && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <GitFork className="w-4 h-4 text-slate-400" />
+                    Network
+                  </h3>
+                  <span className="text-xs text-slate-500">Click a branch to show the profile down to its tail</span>
+                </div>
+                <div className="h-60 bg-slate-50 p-4">
+                  <NetworkSchematic 
+                    branches={allBranches} 
+                    result={networkResult.error ? null : networkResult} 
+                    selectedId={networkSelection} 
+                    onSelect={selectNetworkBranch} 
+                    flowUnit={U.Q} 
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden h-[500px] flex flex-col">
                 <div className="px-6 py-4 border-b border-slate-100 bg-white flex justify-between items-center">
                     <h2 className="font-semibold text-slate-800 flex items-center gap-2">
                         <Activity className="w-4 h-4 text-brand-500" />
-                        Water Surface Profile
+                        Water Surface Profile{networkResult && !networkResult.error && `: ${networkPath.map(b => b.name).join(' → ')}`}
                     </h2>
                     {profileData.length > 0 && (
                         <span className="text-xs text-slate-500 font-mono bg-slate-100 px-2 py-1 rounded">
@@ -744,8 +2738,13 @@ const App: React.FC = () => {
                     )}
                 </div>
                 <div className="flex-1 bg-slate-50 p-4">
-                     {profileData.length > 0 ? (
-                         <ProfileChart data={profileData} unitLabel={U.L} />
+                     {profileError ? (
+                         <div className="p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800 flex items-start gap-2">
+                             <AlertTriangle className="w-4 h-4 shrink-0" />
+                             <span>{profileError}</span>
+                         </div>
+                     ) : profileData.length > 0 ? (
+                         <ProfileChart data={profileData} unitLabel={U.L} jumps={profileJumps} classes={profileClasses} structures={profileStructures} />
                      ) : (
                          <div className="w-full h-full flex flex-col items-center justify-center text-slate-400">
                              <Map className="w-12 h-12 mb-2 opacity-20" />
@@ -754,6 +2753,497 @@ const App: React.FC = () => {
                      )}
                 </div>
             </div>
+
+            {profileReaches.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <Layers className="w-4 h-4 text-slate-400" />
+                    Reach Summary
+                  </h3>
+                  <span className="text-xs font-mono text-slate-500">{profileReaches.reduce((n, r) => n + r.steps, 0)} steps</span>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                      <th className="text-left font-semibold px-5 py-2">Reach</th>
+                      <th className="text-right font-semibold px-5 py-2">Q ({U.Q})</th>
+                      <th className="text-right font-semibold px-5 py-2">S₀</th>
+                      <th className="text-right font-semibold px-5 py-2">Slope</th>
+                      <th className="text-right font-semibold px-5 py-2">yn ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">yc ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">hf ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Local ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Profile</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profileClasses.map(c => {
+                      const reachPts = profileData.filter(p => p.sectionIndex === c.sectionIndex);
+                      const qIn = reachPts[0].discharge;
+                      const qOut = reachPts[reachPts.length - 1].discharge;
+                      // Local loss includes the junction or structure at the reach entry
+                      const before = profileData.filter(p => p.sectionIndex < c.sectionIndex);
+                      const entryLocal = before.length > 0 ? before[before.length - 1].localLoss : 0;
+                      return (
+                      <tr key={c.sectionIndex} className="border-t border-slate-100">
+                        <td className="px-5 py-2 text-slate-600">Section {c.sectionIndex + 1}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{Math.abs(qOut - qIn) > 1e-6 * qIn ? `${qIn.toFixed(3)} → ${qOut.toFixed(3)}` : qIn.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{c.slope.toFixed(5)}</td>
+                        <td className="px-5 py-2 text-right text-slate-600">{c.slopeClass}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{c.normalDepth === null ? '—' : c.normalDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{c.criticalDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{(reachPts[reachPts.length - 1].frictionLoss - reachPts[0].frictionLoss).toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{(reachPts[reachPts.length - 1].localLoss - entryLocal).toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono font-semibold text-sky-700">{c.segments.map(seg => seg.type).join(' → ')}</td>
+                      </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <p className="px-5 pt-4 pb-1 text-xs font-semibold text-slate-400 uppercase tracking-wider">Solver Sweeps</p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                      <th className="text-left font-semibold px-5 py-2">Reach</th>
+                      <th className="text-left font-semibold px-5 py-2">Sweep</th>
+                      <th className="text-right font-semibold px-5 py-2">Steps</th>
+                      <th className="text-right font-semibold px-5 py-2">Entry y ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Exit y ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Energy Error ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profileReaches.map(r => (
+                      <tr key={`${r.sectionIndex}-${r.direction}`} className="border-t border-slate-100">
+                        <td className="px-5 py-2 text-slate-600">Section {r.sectionIndex + 1}</td>
+                        <td className="px-5 py-2 text-slate-500 text-xs">{r.direction === 'Upstream' ? '↑ Upstream' : '↓ Downstream'}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{r.steps}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{r.startDepth.toFixed(3)}{r.junctionChoked && <span className="text-amber-600" title="Junction choked: entry set to critical depth"> *</span>}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{r.endDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{r.energyError.toExponential(2)}</td>
+                        <td className="px-5 py-2 text-right">
+                          <span className={`px-2 py-1 rounded text-xs font-semibold border ${REACH_STATUS[r.status].badge}`}>{REACH_STATUS[r.status].label}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {profileReaches.some(r => r.status !== 'Complete' || r.junctionChoked) && (
+                  <div className="m-4 p-3 bg-amber-50 border border-amber-100 rounded-md text-xs text-amber-800 space-y-1">
+                    {profileReaches.filter(r => r.status !== 'Complete').map(r => (
+                      <p key={`${r.sectionIndex}-${r.direction}`}>
+                        Section {r.sectionIndex + 1} ({r.direction.toLowerCase()} sweep): {r.status === 'StepLimit' ? 'step limit reached' : r.status === 'Surcharged' ? 'conduit runs full' : 'profile reaches critical depth'} at {r.stopDistance?.toFixed(1)} {U.L} from its upstream end; this sweep does not cover the rest of the reach.
+                      </p>
+                    ))}
+                    {profileReaches.some(r => r.junctionChoked) && <p>* The junction where the computation entered the reach could not supply the energy required, so the reach starts at critical depth.</p>}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {profileJumps.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <Waves className="w-4 h-4 text-slate-400" />
+                    Hydraulic Jumps
+                  </h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                      <th className="text-left font-semibold px-5 py-2">Chainage ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">y₁ ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">y₂ ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Fr₁</th>
+                      <th className="text-right font-semibold px-5 py-2">ΔE ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Length ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Type</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profileJumps.map(j => (
+                      <tr key={j.distance} className="border-t border-slate-100">
+                        <td className="px-5 py-2 font-mono text-slate-700">{j.distance.toFixed(1)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.upstreamDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.downstreamDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.upstreamFroude.toFixed(2)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.energyLoss.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.length.toFixed(1)}</td>
+                        <td className="px-5 py-2 text-right text-slate-600">{j.jumpType}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {profileStructures.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <Square className="w-4 h-4 text-slate-400" />
+                    Structures
+                  </h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                      <th className="text-left font-semibold px-5 py-2">Chainage ({U.L})</th>
+                      <th className="text-left font-semibold px-5 py-2">Structure</th>
+                      <th className="text-right font-semibold px-5 py-2">Upstream y ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Tailwater y ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Jet y ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Submergence</th>
+                      <th className="text-right font-semibold px-5 py-2">Head Loss ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Flow</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profileStructures.map(st => (
+                      <tr key={st.sectionIndex} className="border-t border-slate-100">
+                        <td className="px-5 py-2 font-mono text-slate-700">{st.distance.toFixed(1)}</td>
+                        <td className="px-5 py-2 text-slate-600">{STRUCTURE_TYPES.find(t => t.value === st.type)?.label}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{st.upstreamDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{st.tailwaterDepth === null ? '—' : st.tailwaterDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{st.jetDepth === null ? '—' : st.jetDepth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{st.submergence === null ? '—' : st.submergence.toFixed(2)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{st.headLoss === null ? '—' : st.headLoss.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right">
+                          <span className={`px-2 py-1 rounded text-xs font-semibold border ${STRUCTURE_FLOW[st.flow].badge}`}>{STRUCTURE_FLOW[st.flow].label}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100">
+                  Submergence: tailwater head over upstream head for weirs, tailwater over the conjugate of the vena contracta for gates, over the sequent depth at the foot for drops, over the diameter for culverts.
+                </p>
+              </div>
+            )}
+
+            {profileJunctions.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <CornerDownRight className="w-4 h-4 text-slate-400" />
+                    Junction Losses
+                  </h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                      <th className="text-left font-semibold px-5 py-2">Chainage ({U.L})</th>
+                      <th className="text-left font-semibold px-5 py-2">Junction</th>
+                      <th className="text-right font-semibold px-5 py-2">V₁ → V₂ ({U.V})</th>
+                      <th className="text-right font-semibold px-5 py-2">Transition ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Bend ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Fixed K ({U.Energy})</th>
+                      <th className="text-right font-semibold px-5 py-2">Total hL ({U.Energy})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profileJunctions.map(j => (
+                      <tr key={j.sectionIndex} className="border-t border-slate-100">
+                        <td className="px-5 py-2 font-mono text-slate-700">{j.distance.toFixed(1)}</td>
+                        <td className="px-5 py-2 text-slate-600">Reach {j.sectionIndex + 1} → {j.sectionIndex + 2}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.upstreamVelocity.toFixed(3)} → {j.downstreamVelocity.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.transitionLoss.toFixed(4)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.bendLoss.toFixed(4)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.fixedLoss.toFixed(4)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{j.totalLoss.toFixed(4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100">
+                  Losses from the velocities either side of the junction. Where the junction chokes, the head dropped there (Local in the reach summary) also includes the excess energy of the critical section.
+                </p>
+              </div>
+            )}
+
+            {networkResult && networkResult.nodes.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <GitFork className="w-4 h-4 text-slate-400" />
+                    Division Nodes
+                  </h3>
+                  <span className="text-xs text-slate-500">{SPLIT_MODES.find(m => m.value === networkOptions.splitMode)?.label} · {COMPATIBILITY_METHODS.find(m => m.value === networkOptions.compatibility)?.label}</span>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                      <th className="text-left font-semibold px-5 py-2">Node</th>
+                      <th className="text-right font-semibold px-5 py-2">y ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Energy Level ({U.Energy})</th>
+                      <th className="text-left font-semibold px-5 py-2">Branch</th>
+                      <th className="text-right font-semibold px-5 py-2">Q ({U.Q})</th>
+                      <th className="text-right font-semibold px-5 py-2">Head WS ({U.L})</th>
+                      <th className="text-right font-semibold px-5 py-2">Head Drop ({U.Energy})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {networkResult.nodes.flatMap(node => node.outflows.map((o, i) => (
+                      <tr key={`${node.branchId}-${o.branchId}`} className={i === 0 ? 'border-t border-slate-100' : ''}>
+                        <td className="px-5 py-2 text-slate-600">{i === 0 && `End of ${allBranches.find(b => b.id === node.branchId)?.name ?? node.branchId}${node.critical ? ' *' : ''}`}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{i === 0 && node.depth.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{i === 0 && node.energyLevel.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-slate-600">{allBranches.find(b => b.id === o.branchId)?.name ?? o.branchId}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{o.discharge.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{o.waterLevel.toFixed(3)}</td>
+                        <td className="px-5 py-2 text-right font-mono text-slate-700">{o.headDrop.toFixed(4)}</td>
+                      </tr>
+                    )))}
+                  </tbody>
+                </table>
+                <div className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100 space-y-1">
+                  <p>Head drop: node energy level less the energy level at the branch head, taken up by the division structure (negative where the momentum balance hands energy to a branch). Largest mismatch between branch heads: {Math.max(...networkResult.nodes.map(n => n.mismatch)).toFixed(4)} {U.L}.</p>
+                  {networkResult.nodes.some(n => n.critical) && <p>* The branch heads are too low to hold the parent canal, which passes critical depth into the node.</p>}
+                </div>
+              </div>
+            )}
+
+            {profileData.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <Ruler className="w-4 h-4 text-slate-400" />
+                    Station Results
+                  </h3>
+                  <span className="text-xs font-mono text-slate-500">
+                    Σ hf {profileData[profileData.length - 1].frictionLoss.toFixed(3)} · Σ local {profileData[profileData.length - 1].localLoss.toFixed(3)} {U.Energy}
+                  </span>
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="text-xs text-slate-400 uppercase tracking-wide">
+                        {STATION_COLUMNS.map(col => (
+                          <th key={col.key} className="text-right font-semibold px-3 py-2 whitespace-nowrap">
+                            <button 
+                              onClick={() => setStationSort(prev => ({ key: col.key, ascending: prev.key === col.key ? !prev.ascending : true }))}
+                              className="inline-flex items-center gap-1 uppercase hover:text-slate-600"
+                            >
+                              {col.label}{col.unit && ` (${U[col.unit]})`}
+                              {stationSort.key === col.key && (stationSort.ascending ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+                            </button>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...profileData]
+                        .sort((a, b) => (a[stationSort.key] - b[stationSort.key]) * (stationSort.ascending ? 1 : -1))
+                        .map((pt, i) => (
+                          <tr key={i} className="border-t border-slate-100">
+                            {STATION_COLUMNS.map(col => (
+                              <td key={col.key} className="px-3 py-1.5 text-right font-mono text-slate-700">{col.format(pt[col.key])}</td>
+                            ))}
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100">
+                  Losses accumulate from the upstream end. Local losses are the head dropped across junctions, structures and hydraulic jumps.
+                </p>
+              </div>
+            )}
+
+            {unsteadyRun && (
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                    <Activity className="w-4 h-4 text-slate-400" />
+                    Unsteady Flow (Saint-Venant)
+                  </h3>
+                  {!unsteadyRun.result.error && (
+                    <span className="text-xs text-slate-500">
+                      {unsteadyRun.result.steps} steps of {unsteadyRun.result.timeStep} s · {unsteadyRun.result.stations.length} nodes · ≤ {unsteadyRun.result.maxIterations} Newton iterations
+                    </span>
+                  )}
+                </div>
+                {unsteadyRun.result.error ? (
+                  <div className="m-4 p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800 flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{unsteadyRun.result.error}</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="px-5 py-3 flex items-center justify-between gap-3">
+                      <label className="flex items-center gap-2 text-xs text-slate-500">
+                        Hydrographs at chainage ({U.L})
+                        <input 
+                          type="number" step="10" min={0} max={unsteadyLength} value={+unsteadyAt.toFixed(3)}
+                          onChange={(e) => setUnsteadyChainage(parseFloat(e.target.value))}
+                          className="w-28 text-sm p-1 border border-slate-300 rounded"
+                        />
+                      </label>
+                      <span className="text-xs text-slate-400">Water surfaces play back in Water Surface Playback</span>
+                    </div>
+                    {unsteadySeries && (
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 px-4 pb-4 bg-slate-50">
+                        <div className="h-[300px]">
+                          <TimeSeriesChart 
+                            data={unsteadySeries.head.map(d => ({ time: d.time, value: d.discharge }))}
+                            xLabel={`Time (${HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.short})`}
+                            yLabel={`Discharge (${U.Q})`}
+                            color="#0ea5e9"
+                            label="Canal head"
+                            overlay={{ data: unsteadySeries.at.map(d => ({ time: d.time, value: d.discharge })), color: '#6366f1', label: `At ${unsteadyAt.toFixed(0)} ${U.L}` }}
+                          />
+                        </div>
+                        <div className="h-[300px]">
+                          <TimeSeriesChart 
+                            data={unsteadySeries.at.map(d => ({ time: d.time, value: d.depth }))}
+                            xLabel={`Time (${HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.short})`}
+                            yLabel={`Depth (${U.L})`}
+                            color="#6366f1"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 px-5 py-4 border-t border-slate-100 text-sm">
+                      <div>
+                        <span className="text-xs text-slate-500 block">Inflow Volume</span>
+                        <span className="font-mono text-slate-800">{unsteadyRun.result.inflowVolume.toFixed(0)} {U.Volume}</span>
+                      </div>
+                      <div>
+                        <span className="text-xs text-slate-500 block">Lateral (net)</span>
+                        <span className="font-mono text-slate-800">{unsteadyRun.result.lateralVolume.toFixed(0)} {U.Volume}</span>
+                      </div>
+                      <div>
+                        <span className="text-xs text-slate-500 block">Outflow Volume</span>
+                        <span className="font-mono text-slate-800">{unsteadyRun.result.outflowVolume.toFixed(0)} {U.Volume}</span>
+                      </div>
+                      <div>
+                        <span className="text-xs text-slate-500 block">Storage Change</span>
+                        <span className="font-mono text-slate-800">{unsteadyRun.result.storageChange.toFixed(0)} {U.Volume}</span>
+                      </div>
+                      <div>
+                        <span className="text-xs text-slate-500 block">Mass Balance Error</span>
+                        <span className="font-mono text-slate-800">{(100 * unsteadyRun.result.massBalanceError).toExponential(2)} %</span>
+                      </div>
+                    </div>
+                    <p className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100">
+                      Preissmann scheme with θ = {unsteadyOptions.theta}. The last inflow is held after the hydrograph ends, for twice the travel time down the canal. The mass balance compares the boundary and lateral volumes with the change in storage; it closes to the Newton tolerance when the run is converged. Junction losses are neglected and inline structures are not modelled.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+              <div className="px-5 py-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                  <Film className="w-4 h-4 text-slate-400" />
+                  Water Surface Playback
+                </h3>
+                <div className="flex items-center gap-2">
+                  <select 
+                    value={playbackSource} 
+                    onChange={(e) => showPlayback(e.target.value as PlaybackSource)}
+                    className="text-xs p-1 border border-slate-300 rounded"
+                  >
+                    {PLAYBACK_SOURCES.map(src => <option key={src.value} value={src.value}>{src.label}</option>)}
+                  </select>
+                  {playbackSource === 'QuasiSteady' && (
+                    <button 
+                      onClick={handleBuildQuasiSteady}
+                      className="text-xs flex items-center gap-1 bg-white border border-slate-300 px-2 py-1 rounded hover:bg-slate-50 text-slate-600"
+                    >
+                      <ArrowRight className="w-3 h-3" /> Build Frames
+                    </button>
+                  )}
+                </div>
+              </div>
+              {playbackSource === 'QuasiSteady' && quasiSteady?.result.error ? (
+                <div className="m-4 p-3 bg-rose-50 border border-rose-100 rounded-md text-xs text-rose-800 flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <span>{quasiSteady.result.error}</span>
+                </div>
+              ) : !playbackRun ? (
+                <div className="p-8 flex flex-col items-center justify-center text-slate-400">
+                  <Film className="w-12 h-12 mb-2 opacity-20" />
+                  <p className="text-sm">
+                    {playbackSource === 'QuasiSteady'
+                      ? "Click 'Build Frames' for a steady profile at each time of the Hydrograph input."
+                      : "Click 'Run Unsteady' to compute time-stepped water surfaces."}
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 p-4 bg-slate-50">
+                    <div className="lg:col-span-2 h-[360px]">
+                      <ProfileChart data={playbackPoints} unitLabel={U.L} extent={playbackExtent} />
+                    </div>
+                    <div className="h-[360px] bg-white rounded-lg flex flex-col">
+                      <div className="flex-1 min-h-0">
+                        {playbackSection && playbackState && (
+                          <ChannelVisualizer 
+                            type={playbackSection.type} 
+                            params={playbackSection.params} 
+                            displayDepth={playbackState.depth} 
+                            extentDepth={playbackMaxDepth}
+                          />
+                        )}
+                      </div>
+                      <label className="flex items-center justify-between gap-2 px-3 pb-3 text-xs text-slate-500">
+                        Station ({U.L})
+                        <input 
+                          type="number" step="10" min={0} max={playbackLength} value={+playbackAt.toFixed(3)}
+                          onChange={(e) => setPlaybackStation(parseFloat(e.target.value))}
+                          className="w-28 text-sm p-1 border border-slate-300 rounded"
+                        />
+                      </label>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 px-5 py-3 border-t border-slate-100 text-sm">
+                    <div>
+                      <span className="text-xs text-slate-500 block">Time</span>
+                      <span className="font-mono text-slate-800">{playbackTimes[playbackIndex]?.toFixed(2)} {HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.short}</span>
+                    </div>
+                    <div>
+                      <span className="text-xs text-slate-500 block">Inflow</span>
+                      <span className="font-mono text-slate-800">{playbackInflow?.toFixed(3)} {U.Q}</span>
+                    </div>
+                    <div>
+                      <span className="text-xs text-slate-500 block">Q at Station</span>
+                      <span className="font-mono text-slate-800">{playbackState?.discharge.toFixed(3)} {U.Q}</span>
+                    </div>
+                    <div>
+                      <span className="text-xs text-slate-500 block">Stage at Station</span>
+                      <span className="font-mono text-slate-800">{playbackState?.waterElevation.toFixed(3)} {U.L}</span>
+                    </div>
+                    <div>
+                      <span className="text-xs text-slate-500 block">Depth at Station</span>
+                      <span className="font-mono text-slate-800">{playbackState?.depth.toFixed(3)} {U.L}</span>
+                    </div>
+                  </div>
+                  <div className="px-5 py-3 border-t border-slate-100">
+                    <PlaybackTimeline 
+                      frameCount={playbackCount}
+                      frame={playbackIndex}
+                      onFrame={setPlaybackFrame}
+                      playing={playing}
+                      onPlayingChange={setPlaying}
+                      speed={playbackSpeed}
+                      speeds={PLAYBACK_SPEEDS}
+                      onSpeedChange={setPlaybackSpeed}
+                      label={`t = ${playbackTimes[playbackIndex]?.toFixed(2)} ${HYDROGRAPH_TIME_UNITS.find(u => u.value === hydroTimeScale)?.short}`}
+                    />
+                  </div>
+                  <p className="px-5 py-3 text-xs text-slate-500 border-t border-slate-100">
+                    {playbackSource === 'QuasiSteady'
+                      ? 'Quasi-steady: each frame is the steady profile for the inflow at that time, so the whole canal answers at once, without storage or travel time.'
+                      : 'Unsteady: each frame is a time step of the Saint-Venant run, so the wave travels and attenuates down the canal.'}
+                  </p>
+                </>
+              )}
+            </div>
          </div>
       </div>
   );
@@ -800,6 +3290,111 @@ const App: React.FC = () => {
           </ul>
         </section>
 
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Standard Step Method</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             The canal model solves the energy equation between successive stations for the unknown depth, keeping the flow on the branch (sub- or supercritical) it started on. Each step is repeated as two half steps; the step is halved while the two answers differ by more than the tolerance and doubled when they agree closely. When no depth on the branch balances the energy, the profile has reached critical depth and the reach stops there. The energy error reported per reach is the sum of the residuals of this equation between the stored stations.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800">
+             z₁ + y₁ + αV₁²/2g = z₂ + y₂ + αV₂²/2g + ½ (S_f1 + S_f2) Δx
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Mixed Flow Regime</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             With controls at both ends, a supercritical profile is computed downstream from the upstream control and a subcritical profile upstream from the downstream control. Where both exist, the one with the larger specific force prevails. The hydraulic jump forms where control passes from the supercritical to the subcritical profile, at the point where their specific forces are equal.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800">
+             M_sup(x_j) = M_sub(x_j),  M = Q²/(gA) + Aȳ
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Profile Classification</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             Each reach is classed by its slope: mild (yn &gt; yc), steep (yn &lt; yc), critical (yn ≈ yc), horizontal (S₀ = 0) or adverse (S₀ &lt; 0). Horizontal and adverse beds cannot carry uniform flow, so they have no normal depth and only zones 2 and 3. The profile type follows from where the depth lies: zone 1 above both yn and yc, zone 2 between them, zone 3 below both. Depths within 0.5% of yn are reported as uniform.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>Mild: M1 y &gt; yn &gt; yc · M2 yn &gt; y &gt; yc · M3 y &lt; yc</div>
+             <div>Steep: S1 y &gt; yc &gt; yn · S2 yc &gt; y &gt; yn · S3 y &lt; yn</div>
+             <div>Critical: C1, C3 · Horizontal: H2, H3 · Adverse: A2, A3</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Spatially Varied Flow</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             Junction inflows and offtakes step the discharge between reaches; lateral inflow and seepage change it continuously along a reach. Water entering from the side has no velocity along the channel and must be accelerated by the main flow, which costs head. Water leaving through an offtake or the bed takes its own velocity head with it, so outflow costs none. Seepage depends on the water level, so the discharge and the profile are solved alternately until the discharge settles.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>dQ/dx = q − s</div>
+             <div>ΔH = −S̄f·Δx − α·Q̄·ΔQ / (g·Ā²)  (inflow only)</div>
+             <div>Wetted perimeter: s = k·P · Moritz: S = 0.0375·C·√(Q/V) m³/s per km</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Inline Structures</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             A structure between two reaches is an internal control. The backwater sweep reaches it with the tailwater, and the structure sets the upstream level: from its free-flow equation, or higher when the tailwater submerges it. In free flow a supercritical jet leaves the structure, and the jump below it is placed by the specific-force balance. Heads H are measured from the crest, sill or invert and include the approach velocity head.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>Broad-crested: Q = Cd·b·(2/3)^1.5·√g·H^1.5 · drowned (h₂ &gt; 2H/3): Q = Cd·b·h₂·√(2g(H − h₂))</div>
+             <div>Sharp-crested: Q = Cd·(2/3)·√(2g)·b·H^1.5 · Villemonte: Qs = Q·(1 − (h₂/H)^1.5)^0.385</div>
+             <div>Sluice gate: E₁ = y_s + q²/(2g·(Cc·a)²), y_s = Cc·a until the tailwater exceeds its conjugate</div>
+             <div>Drop (Rand): y₁ = 0.54·D^0.425·Δz, y₂ = 1.66·D^0.27·Δz, D = q²/(g·Δz³)</div>
+             <div>Culvert: HW = max(inlet, h_o + (1 + Ke + 2g·n²·L/(K²·R^4/3))·V²/2g − Δz)</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Branched Networks</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             A network is a tree of canals: each branch leaves the downstream end of its parent at a division node, and only the main canal takes the inflow. The solution is a backwater one. Branches with nothing below them start from their own tail control, and every node takes its depth from the heads of the branches it feeds. A fixed split divides the flow in the given shares, and the parent holds the highest head level with the division structures taking up the rest. A solved split rates each branch head against its inflow and divides the flow so that all heads share one level, corrected with Newton steps on the ratings. Energy compatibility equates energy levels across the node. Momentum compatibility equates the water levels of the branch heads and finds the parent depth from the specific-force balance, with each branch flux projected on the parent axis and the forces on the divide neglected.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>ΣQᵢ = Q_node</div>
+             <div>Energy: z + E_parent = zᵢ + Eᵢ for every branch i</div>
+             <div>Momentum: A·ȳ + Q²/(gA) = Σ(Aᵢ·ȳᵢ + Qᵢ·Vᵢ·cos θᵢ/g)</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Flood Routing (Muskingum–Cunge)</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             A flood wave travels down a canal at the kinematic celerity c = dQ/dA and flattens as it goes. The Muskingum scheme routes it between the ends of a subreach with storage constant K and weighting factor X. Cunge chose both from the channel so that the numerical diffusion of the scheme equals the physical diffusion of the wave, Q/(2·T·S₀). Each reach takes c, T and the normal depth at a reference flow midway between base and peak, and is split into subreaches about c·Δt long.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>O₂ = C₀·I₂ + C₁·I₁ + C₂·O₁</div>
+             <div>K = Δx/c,  X = ½ (1 − Q/(T·S₀·c·Δx))</div>
+             <div>C₀ = (Δt − 2KX)/D,  C₁ = (Δt + 2KX)/D,  C₂ = (2K(1 − X) − Δt)/D,  D = 2K(1 − X) + Δt</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Unsteady Flow (Saint-Venant)</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             The dynamic wave keeps every term of the Saint-Venant equations, so backwater, gate operations and flood waves travel upstream as well as down. The Preissmann four-point scheme centres both equations in space over each segment and weights the new time level by θ; θ = 0.5 is second-order accurate, and θ slightly above it damps the spurious oscillations. Each time step is a nonlinear system, solved by Newton iterations with the double sweep: discharge corrections are carried down from the upstream inflow as ΔQ = E·Δy + F, the downstream stage, rating or normal-depth condition closes the system, and the depth corrections follow back up. At a junction between reaches the water level carries across.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>∂A/∂t + ∂Q/∂x = q</div>
+             <div>∂Q/∂t + ∂(Q²/A)/∂x + gA (∂h/∂x + S_f) = 0,  S_f = Q|Q|/K²</div>
+             <div>∂f/∂x ≈ [θ(f_j+1 − f_j)ⁿ⁺¹ + (1 − θ)(f_j+1 − f_j)ⁿ]/Δx</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Junction Losses</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+             Without a structure, the energy level carries across a junction between reaches less any local loss there. A width or shape change costs a fraction of the change in velocity head, Kc when the flow accelerates and Ke when it slows down. Bends (HEC-22) and fixed elements such as trash racks or bridge openings cost a multiple of the downstream velocity head. The loss depends on the depth being solved for, so it is part of the junction root function in both sweep directions.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>z₁ + E₁ = z₂ + E₂ + hL</div>
+             <div>hL = K_c|e · |V₂² − V₁²|/2g + (0.0033·θ + K)·V₂²/2g</div>
+          </div>
+        </section>
+
         <section>
           <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Specific Energy</h3>
           <p className="text-slate-600 mb-4 leading-relaxed">
@@ -809,6 +3404,75 @@ const App: React.FC = () => {
              E = y + V² / (2g)
           </div>
         </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Hydraulic Jump</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+            A jump from supercritical depth y₁ to its sequent depth y₂ conserves specific force, not energy, so y₂ is found as the subcritical root of M(y) = M(y₁) in any section shape. The jump is classed by Fr₁ as undular (1–1.7), weak (1.7–2.5), oscillating (2.5–4.5), steady (4.5–9) or strong (&gt; 9). Its length is estimated with the rectangular-basin rule L ≈ 6.9 (y₂ − y₁).
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>Q²/(gA₁) + A₁ȳ₁ = Q²/(gA₂) + A₂ȳ₂</div>
+             <div>Rectangular: y₂/y₁ = ½ (√(1 + 8Fr₁²) − 1)</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Transitions and Choking</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+            Across a short transition the specific energy drops by the bed rise Δz and the local loss. Subcritical flow stays subcritical and supercritical flow stays supercritical. If the energy left for the downstream section is below its critical energy, the transition chokes: the downstream section runs at critical depth and the upstream water level backs up until it carries enough energy to pass the flow.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>E₁ = E₂ + Δz + K |V₁² − V₂²| / 2g</div>
+             <div>Choke when Δz &gt; E₁ − E_c2 − h_L</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Compound Channels</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+            Once the water leaves the main channel, the section is divided by vertical lines at the bank tops into main channel and overbank subsections, each with its own roughness. The interfaces are not counted in the wetted perimeter. Total conveyance is the sum of the subsection conveyances, and the uneven velocity distribution is carried by the energy coefficient α.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>K = Σ (k/nᵢ) Aᵢ Rᵢ^(2/3),  Q = K S^(1/2)</div>
+             <div>α = Σ (Kᵢ³/Aᵢ²) / (K³/A²)</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Composite Roughness</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+            When the bed and banks have different linings, an equivalent n is computed from the wetted perimeter Pᵢ of each part. Because the share of each part changes with depth, the equivalent n is re-evaluated at every depth the solvers try.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>Horton–Einstein: n = [Σ Pᵢ nᵢ^1.5 / P]^(2/3)</div>
+             <div>Pavlovskii: n = [Σ Pᵢ nᵢ² / P]^(1/2)</div>
+             <div>Lotter: n = P R^(5/3) / Σ (Pᵢ Rᵢ^(5/3) / nᵢ), Rᵢ = Aᵢ/Pᵢ of the sub-area against each part</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Friction Laws</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+            Any of the resistance laws below can replace Manning in the normal-depth, critical-depth and profile solvers. Darcy–Weisbach takes f from Colebrook–White with the hydraulic diameter 4R, so it responds to the Reynolds number. Whatever the law, results are reported as a Darcy f and an equivalent sand roughness; the roughness Reynolds number u*ks/ν then places the flow in the smooth (&lt; 5), transitional or fully rough (&gt; 70) regime.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>Chézy: V = C √(RS)</div>
+             <div>Strickler: V = k_St R^(2/3) S^(1/2),  k_St = 1/n</div>
+             <div>Darcy–Weisbach: V = √(8gRS/f)</div>
+             <div>1/√f = −2 log₁₀(ks/(3.7·4R) + 2.51/(Re √f)),  Re = 4VR/ν</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-semibold text-slate-900 mb-3 border-b border-slate-100 pb-2">Part-full Pipes</h3>
+          <p className="text-slate-600 mb-4 leading-relaxed">
+            Near the crown the wetted perimeter grows faster than the area, so Manning discharge peaks at about 0.938D at roughly 1.076 Qfull, and velocity peaks at about 0.81D. Flows between Qfull and Qmax have two normal depths; flows above Qmax cannot pass part-full and the pipe surcharges, needing a friction slope steeper than the bed.
+          </p>
+          <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 font-mono text-sm text-center text-slate-800 space-y-1">
+             <div>Qfull = (k/n) (πD²/4) (D/4)^(2/3) S^(1/2)</div>
+             <div>S_f = (Q / K_full)²  when Q &gt; Qmax</div>
+          </div>
+        </section>
       </div>
     </div>
   );
@@ -920,6 +3584,14 @@ const App: React.FC = () => {
               <LineChart className="w-4 h-4" />
               Hydrograph
             </button>
+            <button 
+               onClick={() => setCurrentView('RatingCurve')}
+               className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-all
+                ${currentView === 'RatingCurve' ? 'bg-slate-100 text-slate-900' : 'text-slate-600 hover:bg-slate-50'}`}
+            >
+              <Ruler className="w-4 h-4" />
+              Rating Curve
+            </button>
             <button 
                onClick={() => setCurrentView('CanalModel')}
                className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium transition-all
@@ -1003,12 +3675,15 @@ const App: React.FC = () => {
                <SettingsIcon className="w-5 h-5 text-slate-600" />
              </button>
           </div>
-          {currentView === 'Calculator' && <CalculatorView />}
-          {currentView === 'Hydrograph' && <HydrographView />}
-          {currentView === 'CanalModel' && <CanalModelView />}
-          {currentView === 'Theory' && <TheoryView />}
-          {currentView === 'Settings' && <SettingsView />}
-          {currentView === 'About' && <AboutView />}
+          {/* Called, not mounted: the views are redefined on every render, and mounting them as
+              components would remount every input and canvas on each state change */}
+          {currentView === 'Calculator' && CalculatorView()}
+          {currentView === 'Hydrograph' && HydrographView()}
+          {currentView === 'RatingCurve' && RatingCurveView()}
+          {currentView === 'CanalModel' && CanalModelView()}
+          {currentView === 'Theory' && TheoryView()}
+          {currentView === 'Settings' && SettingsView()}
+          {currentView === 'About' && AboutView()}
         </div>
       </main>
     </div>
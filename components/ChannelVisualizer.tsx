@@ -1,14 +1,75 @@
 import React, { useEffect, useRef } from 'react';
 import { ChannelType, InputParams } from '../types';
+import { getConduitRise, getHalfWidthProfile, getSideSlopes } from '../utils/calculations';
+
+// Compound section outline from the left top of bank to the right top of bank.
+// World x = 0 is the main channel centreline.
+const compoundOutline = (params: InputParams, topY: number) => {
+  const hL = params.leftOverbank?.bankHeight ?? topY;
+  const hR = params.rightOverbank?.bankHeight ?? topY;
+  const wL = params.leftOverbank?.width ?? 0;
+  const wR = params.rightOverbank?.width ?? 0;
+  const zL = params.leftOverbank?.sideSlope ?? 0;
+  const zR = params.rightOverbank?.sideSlope ?? 0;
+  const halfB = params.width / 2;
+  const xBankL = -halfB - params.sideSlope * hL;
+  const xBankR = halfB + params.sideSlope * hR;
+
+  return {
+    points: [
+      { x: xBankL - wL - zL * Math.max(0, topY - hL), y: Math.max(topY, hL) },
+      { x: xBankL - wL, y: hL },
+      { x: xBankL, y: hL },
+      { x: -halfB, y: 0 },
+      { x: halfB, y: 0 },
+      { x: xBankR, y: hR },
+      { x: xBankR + wR, y: hR },
+      { x: xBankR + wR + zR * Math.max(0, topY - hR), y: Math.max(topY, hR) },
+    ],
+    dividers: [{ x: xBankL, y: hL }, { x: xBankR, y: hR }],
+  };
+};
+
+// Surveyed ground line, rebased so the thalweg sits at y = 0 and with vertical
+// walls at the ends up to topY (matching the geometry calculation).
+const surveyedOutline = (params: InputParams, topY: number) => {
+  const pts = params.surveyPoints ?? [];
+  if (pts.length === 0) return [];
+  const zMin = Math.min(...pts.map(pt => pt.elevation));
+  const ground = pts.map(pt => ({ x: pt.station, y: pt.elevation - zMin }));
+  const first = ground[0];
+  const last = ground[ground.length - 1];
+  return [
+    { x: first.x, y: Math.max(topY, first.y) },
+    ...ground,
+    { x: last.x, y: Math.max(topY, last.y) },
+  ];
+};
+
+// Symmetric outline sampled from a half-width profile, from the left top down
+// through the invert and back up to the right top.
+const profileOutline = (halfWidth: (h: number) => number, topY: number, samples: number = 80) => {
+  const left: { x: number; y: number }[] = [];
+  const right: { x: number; y: number }[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const y = (topY * i) / samples;
+    const x = halfWidth(y);
+    left.unshift({ x: -x, y });
+    right.push({ x, y });
+  }
+  return [...left, ...right];
+};
 
 interface Props {
   type: ChannelType;
   params: InputParams;
   displayDepth: number;
   criticalDepth?: number; // Optional reference
+  sequentDepth?: number; // Jump: displayDepth is y1, drawn filled; y2 is drawn as a dashed level
+  extentDepth?: number; // Fit the drawing to at least this depth, e.g. the highest of an animation
 }
 
-const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, criticalDepth }) => {
+const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, criticalDepth, sequentDepth, extentDepth }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -29,13 +90,21 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
 
     // Calculate Bounding Box of the Geometry
     // We need to fit the geometry + water level
-    const maxDepthToRender = Math.max(displayDepth, criticalDepth || 0) * 1.2;
+    const maxDepthToRender = Math.max(displayDepth, criticalDepth || 0, sequentDepth || 0, extentDepth || 0) * 1.2;
     
     let geomW = 0;
     let geomH = 0;
+    let worldCenterX = 0;
+
+    const halfWidth = type === ChannelType.Circular ? null : getHalfWidthProfile(type, params);
+    const rise = getConduitRise(type, params);
+    const { zL, zR } = getSideSlopes(params);
 
     // Determine dimensions based on shape
-    if (type === ChannelType.Circular) {
+    if (halfWidth) {
+      geomH = rise ?? Math.max(maxDepthToRender, type === ChannelType.Parabolic ? params.height ?? 0 : 0);
+      geomW = 2 * Math.max(...profileOutline(halfWidth, geomH).map(pt => pt.x));
+    } else if (type === ChannelType.Circular) {
       geomH = params.diameter;
       geomW = params.diameter;
     } else if (type === ChannelType.Rectangular) {
@@ -43,11 +112,25 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
       geomW = params.width;
     } else if (type === ChannelType.Trapezoidal) {
       geomH = maxDepthToRender;
-      const topWidth = params.width + 2 * params.sideSlope * geomH;
+      const topWidth = params.width + (zL + zR) * geomH;
       geomW = topWidth;
+      worldCenterX = ((zR - zL) * geomH) / 2;
     } else if (type === ChannelType.Triangular) {
       geomH = maxDepthToRender;
-      geomW = 2 * params.sideSlope * geomH;
+      geomW = (zL + zR) * geomH;
+      worldCenterX = ((zR - zL) * geomH) / 2;
+    } else if (type === ChannelType.Compound) {
+      const bankTop = Math.max(params.leftOverbank?.bankHeight ?? 0, params.rightOverbank?.bankHeight ?? 0);
+      geomH = Math.max(maxDepthToRender, bankTop * 1.3);
+      const xs = compoundOutline(params, geomH).points.map(pt => pt.x);
+      geomW = Math.max(...xs) - Math.min(...xs);
+      worldCenterX = (Math.max(...xs) + Math.min(...xs)) / 2;
+    } else if (type === ChannelType.Surveyed) {
+      const ground = surveyedOutline(params, 0);
+      geomH = Math.max(maxDepthToRender, ...ground.map(pt => pt.y));
+      const xs = ground.map(pt => pt.x);
+      geomW = xs.length > 0 ? Math.max(...xs) - Math.min(...xs) : 0;
+      worldCenterX = xs.length > 0 ? (Math.max(...xs) + Math.min(...xs)) / 2 : 0;
     }
     
     // Ensure minimums to prevent div by zero or bad scale
@@ -65,13 +148,13 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
     // Actually, let's map the center of the bounding box to the center of the canvas.
     
     // World Bounding Box Center Y = geomH / 2
-    // World Bounding Box Center X = 0 (since we build geometry symmetric around 0)
+    // World Bounding Box Center X = 0 for symmetric shapes (the invert is centred on x = 0);
+    // asymmetric trapezoids, Compound and Surveyed are centred on their extents
     
     // Canvas Center = (w/2, h/2)
     // Transformation: canvasX = w/2 + (worldX - centerX) * scale
     // Transformation: canvasY = h/2 - (worldY - centerY) * scale
     
-    const worldCenterX = 0;
     const worldCenterY = geomH / 2;
 
     const toCanvas = (x: number, y: number) => ({
@@ -79,6 +162,23 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
       y: h / 2 - (y - worldCenterY) * scale
     });
 
+    // Open polyline outline for shapes that are filled by clipping
+    const outline = halfWidth
+      ? profileOutline(halfWidth, geomH)
+      : type === ChannelType.Compound
+        ? compoundOutline(params, geomH).points
+        : type === ChannelType.Surveyed
+          ? surveyedOutline(params, geomH)
+          : null;
+
+    const traceOutline = (pts: { x: number; y: number }[]) => {
+      pts.forEach((pt, i) => {
+        const c = toCanvas(pt.x, pt.y);
+        if (i === 0) ctx.moveTo(c.x, c.y);
+        else ctx.lineTo(c.x, c.y);
+      });
+    };
+
     // Draw Channel Geometry
     ctx.beginPath();
     ctx.strokeStyle = '#334155'; // slate-700
@@ -102,23 +202,24 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
       ctx.lineTo(p4.x, p4.y);
     } else if (type === ChannelType.Trapezoidal) {
       const halfB = params.width / 2;
-      const topXOffset = params.sideSlope * geomH;
-      const p1 = toCanvas(-halfB - topXOffset, geomH);
+      const p1 = toCanvas(-halfB - zL * geomH, geomH);
       const p2 = toCanvas(-halfB, 0);
       const p3 = toCanvas(halfB, 0);
-      const p4 = toCanvas(halfB + topXOffset, geomH);
+      const p4 = toCanvas(halfB + zR * geomH, geomH);
       ctx.moveTo(p1.x, p1.y);
       ctx.lineTo(p2.x, p2.y);
       ctx.lineTo(p3.x, p3.y);
       ctx.lineTo(p4.x, p4.y);
     } else if (type === ChannelType.Triangular) {
-      const topXOffset = params.sideSlope * geomH;
-      const p1 = toCanvas(-topXOffset, geomH);
+      const p1 = toCanvas(-zL * geomH, geomH);
       const p2 = toCanvas(0, 0);
-      const p3 = toCanvas(topXOffset, geomH);
+      const p3 = toCanvas(zR * geomH, geomH);
       ctx.moveTo(p1.x, p1.y);
       ctx.lineTo(p2.x, p2.y);
       ctx.lineTo(p3.x, p3.y);
+    } else if (outline) {
+      traceOutline(outline);
+      if (rise !== null) ctx.closePath(); // Roof of closed conduits
     }
     ctx.stroke();
 
@@ -158,6 +259,44 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
           ctx.lineTo(pRight.x, pRight.y);
           ctx.stroke();
         }
+      } else if (outline) {
+        const waterLevelY = toCanvas(0, displayDepth).y;
+
+        // Clip to the section and flood everything below the water level.
+        // Separate low pockets of a surveyed section fill on their own.
+        ctx.save();
+        ctx.beginPath();
+        traceOutline(outline);
+        ctx.closePath();
+        ctx.clip();
+
+        ctx.beginPath();
+        ctx.rect(0, waterLevelY, w, h);
+        ctx.fill();
+
+        ctx.beginPath();
+        ctx.strokeStyle = '#0ea5e9';
+        ctx.lineWidth = 2;
+        ctx.moveTo(0, waterLevelY);
+        ctx.lineTo(w, waterLevelY);
+        ctx.stroke();
+        ctx.restore();
+
+        // Subsection dividers (vertical interfaces at the bank tops)
+        const dividers = type === ChannelType.Compound ? compoundOutline(params, geomH).dividers : [];
+        ctx.strokeStyle = '#64748b';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 4]);
+        dividers.forEach(d => {
+          if (displayDepth <= d.y) return;
+          const bottom = toCanvas(d.x, d.y);
+          const top = toCanvas(d.x, displayDepth);
+          ctx.beginPath();
+          ctx.moveTo(bottom.x, bottom.y);
+          ctx.lineTo(top.x, top.y);
+          ctx.stroke();
+        });
+        ctx.setLineDash([]);
       } else {
         // Polygons
         let pBL, pBR, pTL, pTR;
@@ -170,15 +309,13 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
            pBR = toCanvas(halfB, 0);
         } else if (type === ChannelType.Trapezoidal) {
            const halfB = params.width / 2;
-           const topOffset = params.sideSlope * displayDepth;
-           pTL = toCanvas(-halfB - topOffset, displayDepth);
-           pTR = toCanvas(halfB + topOffset, displayDepth);
+           pTL = toCanvas(-halfB - zL * displayDepth, displayDepth);
+           pTR = toCanvas(halfB + zR * displayDepth, displayDepth);
            pBL = toCanvas(-halfB, 0);
            pBR = toCanvas(halfB, 0);
         } else { // Triangular
-           const topOffset = params.sideSlope * displayDepth;
-           pTL = toCanvas(-topOffset, displayDepth);
-           pTR = toCanvas(topOffset, displayDepth);
+           pTL = toCanvas(-zL * displayDepth, displayDepth);
+           pTR = toCanvas(zR * displayDepth, displayDepth);
            pBL = toCanvas(0, 0);
            pBR = toCanvas(0, 0);
         }
@@ -204,12 +341,30 @@ const ChannelVisualizer: React.FC<Props> = ({ type, params, displayDepth, critic
     if (displayDepth > 0) {
         ctx.fillStyle = '#0369a1';
         ctx.font = 'bold 12px sans-serif';
-        const lvl = toCanvas(0, displayDepth);
+        const lvl = toCanvas(worldCenterX, displayDepth);
         // Adjust label position to not overlap too much
-        ctx.fillText(`y = ${displayDepth.toFixed(3)}`, lvl.x + 5, lvl.y - 5);
+        ctx.fillText(`${sequentDepth ? 'y₁' : 'y'} = ${displayDepth.toFixed(3)}`, lvl.x + 5, lvl.y - 5);
+    }
+
+    // Sequent depth of a jump, across the full drawing width
+    if (sequentDepth && sequentDepth > 0) {
+        const left = toCanvas(worldCenterX - geomW / 2, sequentDepth);
+        const right = toCanvas(worldCenterX + geomW / 2, sequentDepth);
+        ctx.beginPath();
+        ctx.strokeStyle = '#4f46e5'; // indigo-600
+        ctx.lineWidth = 2;
+        ctx.setLineDash([8, 6]);
+        ctx.moveTo(left.x, left.y);
+        ctx.lineTo(right.x, right.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = '#4338ca'; // indigo-700
+        ctx.font = 'bold 12px sans-serif';
+        ctx.fillText(`y₂ = ${sequentDepth.toFixed(3)}`, left.x + 5, left.y - 5);
     }
 
-  }, [type, params, displayDepth, criticalDepth]);
+  }, [type, params, displayDepth, criticalDepth, sequentDepth, extentDepth]);
 
   return (
     <div className="w-full h-full flex items-center justify-center rounded-lg relative">
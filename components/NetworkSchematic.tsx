@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { NetworkBranch, NetworkResult } from '../types';
+
+interface Props {
+  branches: NetworkBranch[]; // Main canal first
+  result: NetworkResult | null;
+  selectedId: string; // Branch whose path from the main canal is highlighted
+  onSelect: (id: string) => void;
+  flowUnit: string;
+}
+
+const PATH_COLOR = '#0ea5e9'; // sky-500
+const BRANCH_COLOR = '#94a3b8'; // slate-400
+const NODE_COLOR = '#334155'; // slate-700
+
+interface Segment {
+  id: string;
+  depth: number; // Column of the branch
+  fromRow: number; // Row of the node it leaves
+  row: number;
+}
+
+// Tidy tree: one column per generation, leaves on successive rows and every other branch on
+// the mean row of its children, so each node sits level with the branches it feeds
+const layoutTree = (branches: NetworkBranch[]): { segments: Segment[]; columns: number; rows: number } => {
+  const segments: Segment[] = [];
+  let leaf = 0;
+  const place = (b: NetworkBranch, depth: number, seen: Set<string>): number => {
+    seen.add(b.id);
+    const kids = branches.filter(k => k.parentId === b.id && !seen.has(k.id));
+    const kidRows = kids.map(k => place(k, depth + 1, seen));
+    const row = kidRows.length > 0 ? kidRows.reduce((a, r) => a + r, 0) / kidRows.length : leaf++;
+    segments.push({ id: b.id, depth, fromRow: row, row });
+    return row;
+  };
+  const root = branches.find(b => b.parentId === null);
+  if (root) place(root, 0, new Set());
+  // Each branch starts at the node on its parent's row
+  segments.forEach(s => {
+    const parentId = branches.find(b => b.id === s.id)?.parentId;
+    const parent = segments.find(p => p.id === parentId);
+    if (parent) s.fromRow = parent.row;
+  });
+  return { segments, columns: Math.max(1, ...segments.map(s => s.depth + 1)), rows: Math.max(1, leaf) };
+};
+
+// Plan view of a branched network; clicking a branch selects it
+const NetworkSchematic: React.FC<Props> = ({ branches, result, selectedId, onSelect, flowUnit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layout = useMemo(() => layoutTree(branches), [branches]);
+
+  // Shared layout, also used to map clicks back to a branch
+  const PADDING_X = 40;
+  const PADDING_Y = 36;
+  const ELBOW = 0.2; // Fraction of a column spent turning away from the parent axis
+
+  const geometry = (w: number, h: number) => {
+    const colW = (w - 2 * PADDING_X) / layout.columns;
+    const rowH = layout.rows > 1 ? (h - 2 * PADDING_Y) / (layout.rows - 1) : 0;
+    const toY = (row: number) => layout.rows > 1 ? PADDING_Y + row * rowH : h / 2;
+    return layout.segments.map(s => {
+      const x0 = PADDING_X + s.depth * colW;
+      return {
+        id: s.id,
+        points: [
+          { x: x0, y: toY(s.fromRow) },
+          { x: x0 + ELBOW * colW, y: toY(s.row) },
+          { x: x0 + colW, y: toY(s.row) },
+        ],
+      };
+    });
+  };
+
+  // Branches from the main canal down to the selection
+  const path = useMemo(() => {
+    const ids = new Set<string>();
+    for (let b = branches.find(x => x.id === selectedId); b && !ids.has(b.id); b = branches.find(x => x.id === b!.parentId)) ids.add(b.id);
+    return ids;
+  }, [branches, selectedId]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = canvas.width;
+    const h = canvas.height;
+    ctx.clearRect(0, 0, w, h);
+
+    const drawn = geometry(w, h);
+    // Off-path branches first so the highlighted path draws on top
+    [...drawn].sort((a, b) => Number(path.has(a.id)) - Number(path.has(b.id))).forEach(seg => {
+      const onPath = path.has(seg.id);
+      ctx.strokeStyle = onPath ? PATH_COLOR : BRANCH_COLOR;
+      ctx.lineWidth = seg.id === selectedId ? 6 : onPath ? 4 : 3;
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      seg.points.forEach((pt, i) => (i === 0 ? ctx.moveTo(pt.x, pt.y) : ctx.lineTo(pt.x, pt.y)));
+      ctx.stroke();
+
+      const branch = branches.find(b => b.id === seg.id);
+      const flow = result?.branches.find(r => r.branchId === seg.id);
+      const mid = { x: (seg.points[1].x + seg.points[2].x) / 2, y: seg.points[2].y };
+      ctx.textAlign = 'center';
+      ctx.fillStyle = onPath ? '#0369a1' : '#475569'; // sky-700, slate-600
+      ctx.font = `${onPath ? 'bold ' : ''}11px sans-serif`;
+      ctx.fillText(branch?.name ?? seg.id, mid.x, mid.y - 8);
+      if (flow) {
+        ctx.fillStyle = '#64748b'; // slate-500
+        ctx.font = '10px sans-serif';
+        ctx.fillText(`Q ${flow.inflow.toFixed(2)} → ${flow.outflow.toFixed(2)} ${flowUnit}`, mid.x, mid.y + 16);
+      }
+    });
+
+    // Nodes where the flow divides, and the inflow point of the main canal
+    drawn.forEach(seg => {
+      const end = seg.points[2];
+      if (branches.some(b => b.parentId === seg.id)) {
+        ctx.beginPath();
+        ctx.fillStyle = NODE_COLOR;
+        ctx.arc(end.x, end.y, 5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      if (branches.find(b => b.id === seg.id)?.parentId === null) {
+        ctx.beginPath();
+        ctx.fillStyle = '#ffffff';
+        ctx.strokeStyle = NODE_COLOR;
+        ctx.lineWidth = 2;
+        ctx.arc(seg.points[0].x, seg.points[0].y, 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+    });
+
+  }, [branches, result, layout, path, selectedId, flowUnit]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // object-contain letterboxes the canvas inside its box
+    const rect = canvas.getBoundingClientRect();
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const x = (e.clientX - rect.left - (rect.width - canvas.width * scale) / 2) / scale;
+    const y = (e.clientY - rect.top - (rect.height - canvas.height * scale) / 2) / scale;
+
+    // Nearest branch polyline within a few pixels
+    const distance = (p: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }) => {
+      const dx = b.x - a.x, dy = b.y - a.y;
+      const t = dx === 0 && dy === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy)));
+      return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+    };
+    let hit: { id: string; d: number } | null = null;
+    for (const seg of geometry(canvas.width, canvas.height)) {
+      for (let i = 1; i < seg.points.length; i++) {
+        const d = distance({ x, y }, seg.points[i - 1], seg.points[i]);
+        if (!hit || d < hit.d) hit = { id: seg.id, d };
+      }
+    }
+    if (hit && hit.d <= 15) onSelect(hit.id);
+  };
+
+  return (
+    <div className="w-full h-full bg-white rounded-lg">
+      <canvas
+        ref={canvasRef}
+        width={800}
+        height={240}
+        onClick={handleClick}
+        className="w-full h-full object-contain cursor-pointer"
+      />
+    </div>
+  );
+};
+
+export default NetworkSchematic;
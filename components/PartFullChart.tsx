@@ -0,0 +1,135 @@
+import React, { useEffect, useRef } from 'react';
+import { PartFullRatio } from '../types';
+
+interface Props {
+  data: PartFullRatio[];
+  depthRatio?: number; // Current y/D, marked with a horizontal line
+}
+
+const Q_COLOR = '#0ea5e9'; // sky-500
+const V_COLOR = '#6366f1'; // indigo-500
+
+const PartFullChart: React.FC<Props> = ({ data, depthRatio }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || data.length === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = canvas.width;
+    const h = canvas.height;
+    ctx.clearRect(0, 0, w, h);
+
+    const PADDING_L = 50;
+    const PADDING_R = 20;
+    const PADDING_T = 20;
+    const PADDING_B = 40;
+    const DRAW_W = w - PADDING_L - PADDING_R;
+    const DRAW_H = h - PADDING_T - PADDING_B;
+
+    // Ratios peak just above 1 (Q at ~0.94D, V at ~0.81D)
+    const maxX = 1.2;
+    const toX = (r: number) => PADDING_L + (r / maxX) * DRAW_W;
+    const toY = (d: number) => PADDING_T + DRAW_H - d * DRAW_H;
+
+    // Grid
+    ctx.strokeStyle = '#e2e8f0'; // slate-200
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.fillStyle = '#64748b'; // slate-500
+    ctx.font = '10px sans-serif';
+    for (let i = 0; i <= 6; i++) {
+      const r = (maxX * i) / 6;
+      const x = toX(r);
+      ctx.moveTo(x, PADDING_T);
+      ctx.lineTo(x, h - PADDING_B);
+      ctx.textAlign = 'center';
+      ctx.fillText(r.toFixed(1), x, h - PADDING_B + 15);
+    }
+    for (let i = 0; i <= 5; i++) {
+      const d = i / 5;
+      const y = toY(d);
+      ctx.moveTo(PADDING_L, y);
+      ctx.lineTo(w - PADDING_R, y);
+      ctx.textAlign = 'right';
+      ctx.fillText(d.toFixed(1), PADDING_L - 8, y + 3);
+    }
+    ctx.stroke();
+
+    // Full-pipe reference (ratio = 1)
+    ctx.strokeStyle = '#94a3b8'; // slate-400
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(toX(1), PADDING_T);
+    ctx.lineTo(toX(1), h - PADDING_B);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Axis Labels
+    ctx.save();
+    ctx.translate(15, h / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#475569';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillText('y / D', 0, 0);
+    ctx.restore();
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#475569';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillText('Ratio to full-flow value', w / 2 + PADDING_L / 2, h - 5);
+
+    // Curves start from the invert
+    const drawCurve = (value: (d: PartFullRatio) => number, color: string) => {
+      ctx.beginPath();
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 3;
+      ctx.lineJoin = 'round';
+      ctx.moveTo(toX(0), toY(0));
+      for (const d of data) ctx.lineTo(toX(value(d)), toY(d.depthRatio));
+      ctx.stroke();
+    };
+    drawCurve(d => d.flowRatio, Q_COLOR);
+    drawCurve(d => d.velocityRatio, V_COLOR);
+
+    // Current depth
+    if (depthRatio !== undefined && depthRatio > 0) {
+      const y = toY(Math.min(depthRatio, 1));
+      ctx.strokeStyle = '#f59e0b'; // amber-500
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(PADDING_L, y);
+      ctx.lineTo(w - PADDING_R, y);
+      ctx.stroke();
+      ctx.fillStyle = '#b45309'; // amber-700
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'right';
+      ctx.fillText(`yn/D = ${depthRatio.toFixed(3)}`, w - PADDING_R - 4, y - 4);
+    }
+
+    // Legend
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillStyle = Q_COLOR;
+    ctx.fillText('Q / Qfull', PADDING_L + 10, PADDING_T + 14);
+    ctx.fillStyle = V_COLOR;
+    ctx.fillText('V / Vfull', PADDING_L + 10, PADDING_T + 30);
+
+  }, [data, depthRatio]);
+
+  return (
+    <div className="w-full h-full min-h-[300px] bg-white rounded-lg">
+      <canvas
+        ref={canvasRef}
+        width={800}
+        height={400}
+        className="w-full h-full object-contain"
+      />
+    </div>
+  );
+};
+
+export default PartFullChart;
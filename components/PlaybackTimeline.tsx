@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { Play, Pause, SkipBack, SkipForward } from 'lucide-react';
+
+interface Props {
+  frameCount: number;
+  frame: number;
+  onFrame: (frame: number) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  speed: number; // Multiplier on the base frame rate
+  speeds: number[];
+  onSpeedChange: (speed: number) => void;
+  label: string; // Current time, shown next to the track
+}
+
+// Transport controls for an animation; the frame, play state and timer belong to the caller
+const PlaybackTimeline: React.FC<Props> = ({ frameCount, frame, onFrame, playing, onPlayingChange, speed, speeds, onSpeedChange, label }) => {
+  const last = Math.max(0, frameCount - 1);
+  const fraction = last > 0 ? frame / last : 0;
+
+  // Removes the window listeners of a drag in progress; also run on unmount, mid-drag or not
+  const endDrag = useRef<(() => void) | null>(null);
+  useEffect(() => () => endDrag.current?.(), []);
+
+  // Scrubbing follows the pointer through window listeners, which survive a re-render of the track
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scrub = (clientX: number) => onFrame(Math.round(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * last));
+    endDrag.current?.();
+    onPlayingChange(false);
+    scrub(e.clientX);
+    const move = (ev: PointerEvent) => scrub(ev.clientX);
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+      endDrag.current = null;
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+    endDrag.current = up;
+  };
+
+  const togglePlay = () => {
+    // Playing from the last frame starts over
+    if (!playing && frame >= last) onFrame(0);
+    onPlayingChange(!playing);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex items-center gap-1">
+        <button onClick={() => onFrame(Math.max(0, frame - 1))} className="p-1.5 rounded hover:bg-slate-100 text-slate-500" title="Previous step">
+          <SkipBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={togglePlay}
+          disabled={frameCount < 2}
+          className="p-2 rounded-full bg-brand-600 hover:bg-brand-700 text-white disabled:opacity-40"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => onFrame(Math.min(last, frame + 1))} className="p-1.5 rounded hover:bg-slate-100 text-slate-500" title="Next step">
+          <SkipForward className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div onPointerDown={handlePointerDown} className="relative flex-1 h-6 cursor-pointer touch-none select-none">
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1.5 rounded-full bg-slate-200" />
+        <div className="absolute left-0 top-1/2 -translate-y-1/2 h-1.5 rounded-full bg-brand-500" style={{ width: `${fraction * 100}%` }} />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3.5 h-3.5 rounded-full bg-white border-2 border-brand-600 shadow-sm"
+          style={{ left: `${fraction * 100}%` }}
+        />
+      </div>
+
+      <span className="text-xs font-mono text-slate-700 whitespace-nowrap">{label}</span>
+      <span className="text-[10px] text-slate-400 whitespace-nowrap">{frameCount > 0 ? frame + 1 : 0} / {frameCount}</span>
+
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="text-xs p-1 border border-slate-300 rounded"
+        title="Playback speed"
+      >
+        {speeds.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default PlaybackTimeline;
@@ -1,15 +1,46 @@
 
 import React, { useEffect, useRef } from 'react';
-import { ProfilePoint } from '../types';
+import { ProfilePoint, ProfileJump, ReachClassification, StructureResult, StructureType } from '../types';
+
+// Axis ranges held across frames of an animation, so the water moves rather than the axes
+interface Extent {
+  minElevation: number;
+  maxElevation: number;
+  minDischarge: number;
+  maxDischarge: number;
+}
 
 interface Props {
   data: ProfilePoint[];
   unitLabel: string;
+  jumps?: ProfileJump[];
+  classes?: ReachClassification[]; // Profile type labels (M1, S2, ...) per segment
+  structures?: StructureResult[];
+  extent?: Extent; // Widens the ranges found in data
 }
 
-const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
+const JUMP_COLOR = '#6366f1'; // indigo-500
+const EGL_COLOR = '#a855f7'; // purple-500
+const DISCHARGE_COLOR = '#d97706'; // amber-600
+const STRUCTURE_COLOR = '#475569'; // slate-600
+
+const STRUCTURE_SHORT: Record<StructureType, string> = {
+  BroadCrestedWeir: 'Broad weir',
+  SharpCrestedWeir: 'Sharp weir',
+  SluiceGate: 'Gate',
+  Drop: 'Drop',
+  Culvert: 'Culvert',
+};
+const DISCHARGE_H = 90; // Discharge strip under the profile, shown when Q varies along the canal
+const DISCHARGE_GAP = 25;
+
+const ProfileChart: React.FC<Props> = ({ data, unitLabel, jumps = [], classes = [], structures = [], extent }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
+  const discharges = [...data.map(d => d.discharge), ...(extent ? [extent.minDischarge, extent.maxDischarge] : [])];
+  const maxQ = Math.max(0, ...discharges);
+  const showDischarge = data.length > 0 && maxQ - Math.min(...discharges) > 1e-6 * maxQ;
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas || data.length === 0) return;
@@ -24,13 +55,17 @@ const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
     const PADDING_R = 20;
     const PADDING_T = 30;
     const PADDING_B = 40;
+    const STRIP = showDischarge ? DISCHARGE_H + DISCHARGE_GAP : 0;
     const DRAW_W = w - PADDING_L - PADDING_R;
-    const DRAW_H = h - PADDING_T - PADDING_B;
+    const DRAW_H = h - PADDING_T - PADDING_B - STRIP;
 
     // Ranges
     const distances = data.map(d => d.distance);
     // Gather all elevations to find Y min/max
-    const elevations = data.flatMap(d => [d.bedElevation, d.waterElevation, d.normalDepthElevation, d.criticalDepthElevation]);
+    // Normal depth is absent on horizontal and adverse reaches
+    const elevations = data.flatMap(d => [d.bedElevation, d.waterElevation, d.normalDepthElevation ?? d.bedElevation, d.criticalDepthElevation, d.totalHead]);
+    structures.forEach(st => elevations.push(st.topElevation ?? st.invertElevation));
+    if (extent) elevations.push(extent.minElevation, extent.maxElevation);
     
     const minX = Math.min(...distances);
     const maxX = Math.max(...distances);
@@ -87,18 +122,65 @@ const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
     ctx.fillText(`Distance (${unitLabel})`, w / 2 + PADDING_L / 2, h - 5);
     
     ctx.save();
-    ctx.translate(15, h / 2);
+    ctx.translate(15, PADDING_T + DRAW_H / 2);
     ctx.rotate(-Math.PI / 2);
     ctx.fillText(`Elevation (${unitLabel})`, 0, 0);
     ctx.restore();
 
+    // --- Discharge strip ---
+    // Shares the distance axis; point inflows and offtakes show as steps at the junctions
+    if (showDischarge) {
+      const top = PADDING_T + DRAW_H + DISCHARGE_GAP;
+      const minQ = Math.min(...discharges);
+      const padQ = (maxQ - minQ) * 0.1;
+      const lowQ = Math.max(0, minQ - padQ);
+      const highQ = maxQ + padQ;
+      const toQY = (q: number) => top + DISCHARGE_H - ((q - lowQ) / (highQ - lowQ)) * DISCHARGE_H;
+
+      ctx.strokeStyle = '#e2e8f0';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'right';
+      ctx.fillStyle = '#94a3b8';
+      for (let i = 0; i <= 2; i++) {
+        const y = top + (DISCHARGE_H * i) / 2;
+        ctx.moveTo(PADDING_L, y);
+        ctx.lineTo(w - PADDING_R, y);
+        ctx.fillText((highQ - ((highQ - lowQ) * i) / 2).toFixed(2), PADDING_L - 8, y + 3);
+      }
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.strokeStyle = DISCHARGE_COLOR;
+      ctx.lineWidth = 2;
+      data.forEach((d, i) => {
+        if (i === 0) ctx.moveTo(toX(d.distance), toQY(d.discharge));
+        else ctx.lineTo(toX(d.distance), toQY(d.discharge));
+      });
+      ctx.stroke();
+
+      ctx.fillStyle = '#475569';
+      ctx.font = 'bold 12px sans-serif';
+      ctx.save();
+      ctx.translate(15, top + DISCHARGE_H / 2);
+      ctx.rotate(-Math.PI / 2);
+      ctx.textAlign = 'center';
+      ctx.fillText(`Q (${unitLabel}³/s)`, 0, 0);
+      ctx.restore();
+      ctx.fillStyle = DISCHARGE_COLOR;
+      ctx.font = 'bold 10px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText('Discharge', PADDING_L + 8, top + 12);
+    }
+
     // --- Draw Lines ---
     // Handle discontinuities (jumps) between sections if they are far apart in data array
     // Our data is sorted by distance. Small dx steps are connected. Large jumps imply breaks or sections.
     // The data includes 'sectionIndex'. We can lift pen between sections if needed.
     // But usually we want continuous drawing within sections.
 
-    const drawProfileLine = (accessor: (p: ProfilePoint) => number, color: string, width: number, dashed: boolean = false) => {
+    const drawProfileLine = (accessor: (p: ProfilePoint) => number | null, color: string, width: number, dashed: boolean = false) => {
       ctx.beginPath();
       ctx.strokeStyle = color;
       ctx.lineWidth = width;
@@ -108,8 +190,13 @@ const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
       let lastSectionIdx = -1;
 
       data.forEach((p, i) => {
+        const value = accessor(p);
+        if (value === null) {
+          lastSectionIdx = -1;
+          return;
+        }
         const x = toX(p.distance);
-        const y = toY(accessor(p));
+        const y = toY(value);
         
         if (i === 0 || p.sectionIndex !== lastSectionIdx) {
             ctx.moveTo(x, y);
@@ -134,7 +221,10 @@ const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
     // 3. Normal Depth (Green Dashed)
     drawProfileLine(d => d.normalDepthElevation, '#10b981', 1.5, true);
 
-    // 4. Water Surface (Blue)
+    // 4. Energy Grade Line (Purple)
+    drawProfileLine(d => d.totalHead, EGL_COLOR, 1.5);
+
+    // 5. Water Surface (Blue)
     drawProfileLine(d => d.waterElevation, '#0ea5e9', 3);
 
     // Fill Water (Tricky with multi-sections/jumps, simplistic fill for now)
@@ -162,6 +252,86 @@ const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
         ctx.fill();
     });
 
+    // Hydraulic jumps: toe drawn at the M balance, roller over the estimated jump length
+    jumps.forEach(j => {
+        const x0 = toX(j.distance);
+        const x1 = toX(Math.min(j.distance + j.length, maxX));
+        const zToe = j.bedElevation + j.upstreamDepth;
+        const zHeel = j.bedElevation + j.downstreamDepth;
+
+        ctx.strokeStyle = JUMP_COLOR;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(x0, toY(zToe));
+        ctx.lineTo(x0, toY(zHeel));
+        ctx.stroke();
+
+        ctx.fillStyle = '#6366f126';
+        ctx.fillRect(x0, toY(zHeel), Math.max(x1 - x0, 2), toY(zToe) - toY(zHeel));
+
+        ctx.fillStyle = JUMP_COLOR;
+        ctx.font = 'bold 10px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText(`Jump Fr₁ = ${j.upstreamFroude.toFixed(2)}`, x0, toY(zHeel) - 8);
+    });
+
+
+    // Structures at their junctions: weir blocks, gate leaf, drop face, culvert barrel
+    structures.forEach(st => {
+        const x = toX(st.distance);
+        const waterUp = st.upstreamBedElevation + st.upstreamDepth;
+        const top = st.topElevation ?? st.invertElevation;
+        ctx.fillStyle = STRUCTURE_COLOR;
+        ctx.strokeStyle = STRUCTURE_COLOR;
+        switch (st.type) {
+          case 'BroadCrestedWeir':
+            ctx.fillRect(x - 6, toY(st.invertElevation), 12, toY(st.downstreamBedElevation) - toY(st.invertElevation));
+            break;
+          case 'SharpCrestedWeir':
+            ctx.fillRect(x - 1.5, toY(st.invertElevation), 3, toY(st.downstreamBedElevation) - toY(st.invertElevation));
+            break;
+          case 'SluiceGate':
+            // Leaf from the lip to above the upstream pool
+            ctx.fillRect(x - 2, toY(waterUp) - 15, 4, toY(top) - toY(waterUp) + 15);
+            break;
+          case 'Drop':
+            ctx.strokeStyle = '#78350f';
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.moveTo(x, toY(st.invertElevation));
+            ctx.lineTo(x, toY(st.downstreamBedElevation));
+            ctx.stroke();
+            break;
+          case 'Culvert':
+            ctx.lineWidth = 2;
+            ctx.fillStyle = '#f8fafc'; // slate-50
+            ctx.fillRect(x - 8, toY(top), 16, toY(st.invertElevation) - toY(top));
+            ctx.strokeRect(x - 8, toY(top), 16, toY(st.invertElevation) - toY(top));
+            break;
+        }
+        ctx.fillStyle = STRUCTURE_COLOR;
+        ctx.font = 'bold 10px sans-serif';
+        ctx.textAlign = 'center';
+        const flow = st.flow === 'InletControl' ? 'inlet' : st.flow === 'OutletControl' ? 'outlet' : st.flow.toLowerCase();
+        ctx.fillText(`${STRUCTURE_SHORT[st.type]} (${flow})`, x, toY(Math.max(waterUp, top)) - 22);
+    });
+
+    // Profile type labels above the water surface, centred on each segment
+    ctx.font = 'bold 10px sans-serif';
+    ctx.textAlign = 'center';
+    classes.forEach(c => c.segments.forEach(seg => {
+        const mid = (seg.start + seg.end) / 2;
+        const secPts = data.filter(d => d.sectionIndex === c.sectionIndex);
+        if (secPts.length === 0) return;
+        const near = secPts.reduce((best, d) => Math.abs(d.distance - mid) < Math.abs(best.distance - mid) ? d : best);
+        const x = toX(mid);
+        const y = toY(near.waterElevation) - 10;
+        const tw = ctx.measureText(seg.type).width + 8;
+        ctx.fillStyle = '#ffffffcc';
+        ctx.fillRect(x - tw / 2, y - 10, tw, 14);
+        ctx.fillStyle = '#0369a1'; // sky-700
+        ctx.fillText(seg.type, x, y);
+    }));
 
     // --- Legend ---
     const legendY = PADDING_T + 10;
@@ -183,19 +353,22 @@ const ProfileChart: React.FC<Props> = ({ data, unitLabel }) => {
       ctx.fillText(label, legendX + 28, y + 3);
     };
 
-    drawLegendItem("Water Surface", "#0ea5e9", legendY, false);
-    drawLegendItem("Normal Depth", "#10b981", legendY + 15, true);
-    drawLegendItem("Critical Depth", "#ef4444", legendY + 30, true);
-    drawLegendItem("Channel Bed", "#78350f", legendY + 45, false);
+    drawLegendItem("Energy Grade Line", EGL_COLOR, legendY, false);
+    drawLegendItem("Water Surface", "#0ea5e9", legendY + 15, false);
+    drawLegendItem("Normal Depth", "#10b981", legendY + 30, true);
+    drawLegendItem("Critical Depth", "#ef4444", legendY + 45, true);
+    drawLegendItem("Channel Bed", "#78350f", legendY + 60, false);
+    if (jumps.length > 0) drawLegendItem("Hydraulic Jump", JUMP_COLOR, legendY + 75, false);
+    if (structures.length > 0) drawLegendItem("Structure", STRUCTURE_COLOR, legendY + (jumps.length > 0 ? 90 : 75), false);
 
-  }, [data, unitLabel]);
+  }, [data, unitLabel, jumps, classes, structures, showDischarge, extent]);
 
   return (
     <div className="w-full h-full min-h-[300px] bg-white rounded-lg">
        <canvas 
         ref={canvasRef} 
         width={800} 
-        height={400} 
+        height={400 + (showDischarge ? DISCHARGE_H + DISCHARGE_GAP : 0)} 
         className="w-full h-full object-contain"
       />
     </div>
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { ChannelType, InputParams } from '../types';
+import { getConduitRise, getGeometry, getSideSlopes } from '../utils/calculations';
+
+interface Props {
+  type: ChannelType;
+  params: InputParams;
+  depth?: number; // Water level drawn inside the outline (e.g. normal depth)
+}
+
+// Outline from the top width at each level; trapezoids and triangles keep their own side
+// slopes, other shapes (including Compound and Surveyed) are drawn symmetric
+const sectionEdges = (type: ChannelType, params: InputParams, top: number, samples: number = 40) => {
+  const { zL, zR } = getSideSlopes(params);
+  const edges: { y: number; left: number; right: number }[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const y = (top * i) / samples;
+    if (type === ChannelType.Trapezoidal || type === ChannelType.Triangular) {
+      const halfB = type === ChannelType.Trapezoidal ? params.width / 2 : 0;
+      edges.push({ y, left: -halfB - zL * y, right: halfB + zR * y });
+    } else {
+      const half = getGeometry(type, y, params).T / 2;
+      edges.push({ y, left: -half, right: half });
+    }
+  }
+  return edges;
+};
+
+const SectionThumbnail: React.FC<Props> = ({ type, params, depth }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = canvas.width;
+    const h = canvas.height;
+    ctx.clearRect(0, 0, w, h);
+
+    const rise = getConduitRise(type, params);
+    const top = rise ?? Math.max(1.5 * (depth ?? 0), type === ChannelType.Parabolic ? params.height ?? 0 : 0, 0.1);
+    const edges = sectionEdges(type, params, top);
+
+    const xMin = Math.min(...edges.map(e => e.left));
+    const xMax = Math.max(...edges.map(e => e.right));
+    const PADDING = 6;
+    const scale = Math.min((w - 2 * PADDING) / (xMax - xMin || 1), (h - 2 * PADDING) / top);
+    const cx = w / 2 - ((xMin + xMax) / 2) * scale;
+    const toX = (x: number) => cx + x * scale;
+    const toY = (y: number) => h / 2 + (top / 2 - y) * scale;
+
+    // Water fill up to the given depth
+    if (depth !== undefined && depth > 0) {
+      const wet = edges.filter(e => e.y <= Math.min(depth, top));
+      const surface = sectionEdges(type, params, Math.min(depth, top), 1)[1];
+      const pts = [...wet, surface];
+      ctx.fillStyle = 'rgba(14, 165, 233, 0.3)';
+      ctx.beginPath();
+      pts.forEach((e, i) => (i === 0 ? ctx.moveTo(toX(e.left), toY(e.y)) : ctx.lineTo(toX(e.left), toY(e.y))));
+      for (let i = pts.length - 1; i >= 0; i--) ctx.lineTo(toX(pts[i].right), toY(pts[i].y));
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    // Outline: left wall top to invert, then up the right wall
+    ctx.strokeStyle = '#334155'; // slate-700
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    for (let i = edges.length - 1; i >= 0; i--) {
+      if (i === edges.length - 1) ctx.moveTo(toX(edges[i].left), toY(edges[i].y));
+      else ctx.lineTo(toX(edges[i].left), toY(edges[i].y));
+    }
+    edges.forEach(e => ctx.lineTo(toX(e.right), toY(e.y)));
+    if (rise !== null) ctx.closePath(); // Roof of closed conduits
+    ctx.stroke();
+
+  }, [type, params, depth]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={120}
+      height={72}
+      className="w-full h-full object-contain"
+    />
+  );
+};
+
+export default SectionThumbnail;
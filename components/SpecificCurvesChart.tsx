@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChannelType, InputParams, UnitSystem } from '../types';
+import { sweepSectionProperties, getConjugateDepths, getConduitRise, calculateSectionProperties } from '../utils/calculations';
+
+interface Props {
+  type: ChannelType;
+  params: InputParams;
+  unit: UnitSystem;
+  depth: number; // Selected depth; its alternate and sequent depths are marked
+  normalDepth: number;
+  criticalDepth: number;
+  customDepth?: number;
+  extraFlows?: number[]; // Additional discharges drawn as thinner curves
+}
+
+const PRIMARY = '#0ea5e9'; // sky-500
+const OVERLAY = ['#94a3b8', '#a78bfa', '#f472b6', '#34d399', '#fbbf24']; // slate-400, violet-400, pink-400, emerald-400, amber-400
+
+const SpecificCurvesChart: React.FC<Props> = ({ type, params, unit, depth, normalDepth, criticalDepth, customDepth, extraFlows = [] }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hoverDepth, setHoverDepth] = useState<number | null>(null);
+
+  // Depth axis: a margin above the highest marked depth, capped at the crown of closed conduits
+  const rise = getConduitRise(type, params);
+  const conjugate = useMemo(() => getConjugateDepths(type, depth, params, unit), [type, depth, params, unit]);
+  const maxDepth = Math.min(
+    rise ?? Infinity,
+    1.5 * Math.max(depth, normalDepth, criticalDepth, customDepth ?? 0, conjugate.alternate ?? 0, conjugate.sequent ?? 0)
+  );
+
+  const curves = useMemo(() => {
+    if (!(maxDepth > 0)) return [];
+    return [params.flowRate, ...extraFlows.filter(q => q > 0)].map(Q => ({
+      Q,
+      points: sweepSectionProperties(type, { ...params, flowRate: Q }, unit, maxDepth),
+    }));
+  }, [type, params, unit, maxDepth, extraFlows]);
+
+  // Shared layout, also used to map the mouse back to a depth
+  const PADDING_L = 50;
+  const PADDING_R = 20;
+  const PADDING_T = 20;
+  const PADDING_B = 40;
+  const GAP = 50;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || curves.length === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = canvas.width;
+    const h = canvas.height;
+    ctx.clearRect(0, 0, w, h);
+
+    const PANEL_W = (w - PADDING_L - PADDING_R - GAP) / 2;
+    const DRAW_H = h - PADDING_T - PADDING_B;
+    const toY = (y: number) => PADDING_T + DRAW_H - (y / maxDepth) * DRAW_H;
+
+    // E >= y, so twice the depth range shows both branches; M is scaled on the primary curve at the top depth
+    const primary = curves[0].points;
+    const maxE = 2 * maxDepth;
+    const maxM = 1.5 * Math.max(...curves.map(c => c.points[c.points.length - 1].specificForce));
+
+    const panels = [
+      { x0: PADDING_L, max: maxE, value: (pt: typeof primary[number]) => pt.specificEnergy, label: `Specific Energy E (${unit === 'SI' ? 'm' : 'ft'})`, title: 'E–y' },
+      { x0: PADDING_L + PANEL_W + GAP, max: maxM, value: (pt: typeof primary[number]) => pt.specificForce, label: `Specific Force M (${unit === 'SI' ? 'm³' : 'ft³'})`, title: 'M–y' },
+    ];
+
+    panels.forEach((panel, idx) => {
+      const toX = (v: number) => panel.x0 + (v / panel.max) * PANEL_W;
+
+      // Grid
+      ctx.strokeStyle = '#e2e8f0'; // slate-200
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.fillStyle = '#64748b'; // slate-500
+      ctx.font = '10px sans-serif';
+      for (let i = 0; i <= 4; i++) {
+        const x = panel.x0 + (PANEL_W * i) / 4;
+        ctx.moveTo(x, PADDING_T);
+        ctx.lineTo(x, h - PADDING_B);
+        ctx.textAlign = 'center';
+        ctx.fillText(((panel.max * i) / 4).toPrecision(3), x, h - PADDING_B + 15);
+      }
+      for (let i = 0; i <= 5; i++) {
+        const y = PADDING_T + (DRAW_H * i) / 5;
+        ctx.moveTo(panel.x0, y);
+        ctx.lineTo(panel.x0 + PANEL_W, y);
+        ctx.textAlign = 'right';
+        ctx.fillText((maxDepth - (maxDepth * i) / 5).toFixed(2), panel.x0 - 6, y + 3);
+      }
+      ctx.stroke();
+
+      ctx.textAlign = 'center';
+      ctx.fillStyle = '#475569';
+      ctx.font = 'bold 12px sans-serif';
+      ctx.fillText(panel.label, panel.x0 + PANEL_W / 2, h - 5);
+      ctx.textAlign = 'left';
+      ctx.fillText(panel.title, panel.x0 + 6, PADDING_T + 14);
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(panel.x0, PADDING_T, PANEL_W, DRAW_H);
+      ctx.clip();
+
+      // E = y asymptote
+      if (idx === 0) {
+        ctx.strokeStyle = '#cbd5e1'; // slate-300
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(toX(0), toY(0));
+        ctx.lineTo(toX(maxDepth), toY(maxDepth));
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      // Overlays first so the primary discharge draws on top
+      [...curves].reverse().forEach((curve, ri) => {
+        const ci = curves.length - 1 - ri;
+        ctx.beginPath();
+        ctx.strokeStyle = ci === 0 ? PRIMARY : OVERLAY[(ci - 1) % OVERLAY.length];
+        ctx.lineWidth = ci === 0 ? 3 : 1.5;
+        ctx.lineJoin = 'round';
+        curve.points.forEach((pt, i) => {
+          const x = toX(Math.min(panel.value(pt), 10 * panel.max));
+          const y = toY(pt.depth);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      });
+
+      // Depth markers on the primary curve
+      const valueAt = (y: number) => panel.value(calculateSectionProperties(type, y, params, unit));
+      const hLine = (y: number, color: string, dash: number[], label: string) => {
+        if (!(y > 0) || y > maxDepth) return;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash(dash);
+        ctx.beginPath();
+        ctx.moveTo(panel.x0, toY(y));
+        ctx.lineTo(panel.x0 + PANEL_W, toY(y));
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = color;
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'right';
+        ctx.fillText(label, panel.x0 + PANEL_W - 4, toY(y) - 3);
+      };
+      hLine(criticalDepth, '#ef4444', [5, 5], 'yc'); // red-500
+      hLine(normalDepth, '#0369a1', [2, 3], 'yn'); // sky-700
+      if (customDepth !== undefined) hLine(customDepth, '#d97706', [], 'custom'); // amber-600
+
+      // Selected depth and its pair: alternate on E-y, sequent on M-y (both share the x value)
+      const pair = idx === 0 ? conjugate.alternate : conjugate.sequent;
+      const dot = (y: number, color: string) => {
+        ctx.beginPath();
+        ctx.fillStyle = '#ffffff';
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.arc(toX(valueAt(y)), toY(y), 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      };
+      if (depth > 0 && depth <= maxDepth) {
+        if (pair !== null && pair <= maxDepth) {
+          ctx.strokeStyle = '#f59e0b'; // amber-500
+          ctx.lineWidth = 1.5;
+          ctx.beginPath();
+          ctx.moveTo(toX(valueAt(depth)), toY(depth));
+          ctx.lineTo(toX(valueAt(depth)), toY(pair));
+          ctx.stroke();
+          dot(pair, '#f59e0b');
+          ctx.fillStyle = '#b45309'; // amber-700
+          ctx.font = '10px sans-serif';
+          ctx.textAlign = 'left';
+          ctx.fillText(`${idx === 0 ? 'alternate' : 'sequent'} ${pair.toFixed(3)}`, toX(valueAt(depth)) + 6, toY(pair) + 3);
+        }
+        dot(depth, '#f59e0b');
+      }
+
+      // Hover read-out on the primary curve
+      if (hoverDepth !== null && hoverDepth > 0 && hoverDepth <= maxDepth) {
+        ctx.strokeStyle = '#334155'; // slate-700
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(panel.x0, toY(hoverDepth));
+        ctx.lineTo(panel.x0 + PANEL_W, toY(hoverDepth));
+        ctx.stroke();
+        ctx.fillStyle = '#334155';
+        ctx.font = '10px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillText(`y ${hoverDepth.toFixed(3)} → ${valueAt(hoverDepth).toFixed(3)}`, panel.x0 + 6, toY(hoverDepth) - 4);
+      }
+      ctx.restore();
+    });
+
+    // Legend
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'right';
+    curves.forEach((curve, i) => {
+      ctx.fillStyle = i === 0 ? PRIMARY : OVERLAY[(i - 1) % OVERLAY.length];
+      ctx.fillText(`Q = ${curve.Q.toPrecision(3)}`, w - PADDING_R - 6, PADDING_T + 14 + i * 14);
+    });
+
+  }, [type, params, curves, maxDepth, depth, normalDepth, criticalDepth, customDepth, conjugate, hoverDepth, unit]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // object-contain letterboxes the canvas inside its box
+    const rect = canvas.getBoundingClientRect();
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const y = (e.clientY - rect.top - (rect.height - canvas.height * scale) / 2) / scale;
+    const DRAW_H = canvas.height - PADDING_T - PADDING_B;
+    const d = ((PADDING_T + DRAW_H - y) / DRAW_H) * maxDepth;
+    setHoverDepth(d > 0 && d <= maxDepth ? d : null);
+  };
+
+  return (
+    <div className="w-full h-full min-h-[300px] bg-white rounded-lg">
+      <canvas
+        ref={canvasRef}
+        width={800}
+        height={400}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverDepth(null)}
+        className="w-full h-full object-contain"
+      />
+    </div>
+  );
+};
+
+export default SpecificCurvesChart;
@@ -5,14 +5,23 @@ interface DataPoint {
   value: number;
 }
 
+// Second series drawn over the first, e.g. a routed outflow against its inflow
+interface Overlay {
+  data: DataPoint[];
+  color: string;
+  label: string;
+}
+
 interface Props {
   data: DataPoint[];
   xLabel: string;
   yLabel: string;
   color: string;
+  label?: string; // Legend entry for data, shown with an overlay
+  overlay?: Overlay;
 }
 
-const TimeSeriesChart: React.FC<Props> = ({ data, xLabel, yLabel, color }) => {
+const TimeSeriesChart: React.FC<Props> = ({ data, xLabel, yLabel, color, label, overlay }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -33,8 +42,9 @@ const TimeSeriesChart: React.FC<Props> = ({ data, xLabel, yLabel, color }) => {
     const DRAW_H = h - PADDING_T - PADDING_B;
 
     // Determine Ranges
-    const times = data.map(d => d.time);
-    const values = data.map(d => d.value);
+    const all = overlay ? [...data, ...overlay.data] : data;
+    const times = all.map(d => d.time);
+    const values = all.map(d => d.value);
     
     const minT = Math.min(...times);
     const maxT = Math.max(...times);
@@ -131,7 +141,23 @@ const TimeSeriesChart: React.FC<Props> = ({ data, xLabel, yLabel, color }) => {
         ctx.stroke();
     }
 
-  }, [data, xLabel, yLabel, color]);
+    // Overlay as a plain line on top, with a legend for both series
+    if (overlay && overlay.data.length > 0) {
+        ctx.beginPath();
+        ctx.strokeStyle = overlay.color;
+        ctx.lineWidth = 3;
+        overlay.data.forEach((d, i) => (i === 0 ? ctx.moveTo(toX(d.time), toY(d.value)) : ctx.lineTo(toX(d.time), toY(d.value))));
+        ctx.stroke();
+
+        ctx.font = 'bold 11px sans-serif';
+        ctx.textAlign = 'right';
+        ctx.fillStyle = color;
+        ctx.fillText(label ?? '', w - PADDING_R - 6, PADDING_T + 14);
+        ctx.fillStyle = overlay.color;
+        ctx.fillText(overlay.label, w - PADDING_R - 6, PADDING_T + 28);
+    }
+
+  }, [data, xLabel, yLabel, color, label, overlay]);
 
   return (
     <div className="w-full h-full min-h-[300px] bg-white rounded-lg">
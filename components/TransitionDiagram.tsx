@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { ChannelType, InputParams, TransitionResult, UnitSystem } from '../types';
+import { sweepSectionProperties, calculateSectionProperties } from '../utils/calculations';
+
+interface Props {
+  type: ChannelType;
+  upstreamParams: InputParams;
+  downstreamParams: InputParams;
+  bedStep: number;
+  result: TransitionResult;
+  unit: UnitSystem;
+}
+
+const UPSTREAM = '#0ea5e9'; // sky-500
+const DOWNSTREAM = '#6366f1'; // indigo-500
+
+// E-y curves of both sections. A frictionless transition moves horizontally from E1 to
+// E1 - dz - hL; a choke pins section 2 at its critical point and pushes section 1 up its curve.
+const TransitionDiagram: React.FC<Props> = ({ type, upstreamParams, downstreamParams, bedStep, result, unit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const w = canvas.width;
+    const h = canvas.height;
+    ctx.clearRect(0, 0, w, h);
+
+    const PADDING_L = 50;
+    const PADDING_R = 20;
+    const PADDING_T = 20;
+    const PADDING_B = 40;
+    const DRAW_W = w - PADDING_L - PADDING_R;
+    const DRAW_H = h - PADDING_T - PADDING_B;
+
+    const y1 = result.requiredUpstreamDepth ?? result.upstreamDepth;
+    const E1 = calculateSectionProperties(type, y1, upstreamParams, unit).specificEnergy;
+    const maxDepth = 1.5 * Math.max(result.upstreamDepth, y1, result.downstreamDepth, result.downstreamCriticalDepth);
+    const maxE = 1.25 * Math.max(result.upstreamEnergy, E1, result.downstreamEnergy, result.downstreamCriticalEnergy, maxDepth);
+    const toX = (e: number) => PADDING_L + (e / maxE) * DRAW_W;
+    const toY = (y: number) => PADDING_T + DRAW_H - (y / maxDepth) * DRAW_H;
+
+    // Grid
+    ctx.strokeStyle = '#e2e8f0'; // slate-200
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.fillStyle = '#64748b'; // slate-500
+    ctx.font = '10px sans-serif';
+    for (let i = 0; i <= 5; i++) {
+      const x = PADDING_L + (DRAW_W * i) / 5;
+      ctx.moveTo(x, PADDING_T);
+      ctx.lineTo(x, h - PADDING_B);
+      ctx.textAlign = 'center';
+      ctx.fillText(((maxE * i) / 5).toFixed(2), x, h - PADDING_B + 15);
+
+      const y = PADDING_T + (DRAW_H * i) / 5;
+      ctx.moveTo(PADDING_L, y);
+      ctx.lineTo(w - PADDING_R, y);
+      ctx.textAlign = 'right';
+      ctx.fillText((maxDepth - (maxDepth * i) / 5).toFixed(2), PADDING_L - 8, y + 3);
+    }
+    ctx.stroke();
+
+    ctx.save();
+    ctx.translate(15, h / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#475569';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillText(`Depth y (${unit === 'SI' ? 'm' : 'ft'})`, 0, 0);
+    ctx.restore();
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#475569';
+    ctx.font = 'bold 12px sans-serif';
+    ctx.fillText(`Specific Energy E (${unit === 'SI' ? 'm' : 'ft'})`, w / 2 + PADDING_L / 2, h - 5);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(PADDING_L, PADDING_T, DRAW_W, DRAW_H);
+    ctx.clip();
+
+    const drawCurve = (params: InputParams, color: string) => {
+      ctx.beginPath();
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2.5;
+      sweepSectionProperties(type, params, unit, maxDepth).forEach((pt, i) => {
+        const x = toX(Math.min(pt.specificEnergy, 10 * maxE));
+        if (i === 0) ctx.moveTo(x, toY(pt.depth));
+        else ctx.lineTo(x, toY(pt.depth));
+      });
+      ctx.stroke();
+    };
+    drawCurve(upstreamParams, UPSTREAM);
+    drawCurve(downstreamParams, DOWNSTREAM);
+
+    const dot = (e: number, y: number, color: string, label: string) => {
+      ctx.beginPath();
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.arc(toX(e), toY(y), 5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = color;
+      ctx.font = 'bold 11px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(label, toX(e) + 8, toY(y) - 6);
+    };
+
+    // Energy drop dz + hL between the two states
+    const eFrom = E1;
+    const eTo = result.choked ? result.downstreamCriticalEnergy : result.downstreamEnergy;
+    const yArrow = Math.max(y1, result.downstreamDepth) + 0.08 * maxDepth;
+    ctx.strokeStyle = '#f59e0b'; // amber-500
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    ctx.moveTo(toX(eFrom), toY(y1));
+    ctx.lineTo(toX(eFrom), toY(yArrow));
+    ctx.moveTo(toX(eTo), toY(result.downstreamDepth));
+    ctx.lineTo(toX(eTo), toY(yArrow));
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(toX(eFrom), toY(yArrow));
+    ctx.lineTo(toX(eTo), toY(yArrow));
+    ctx.stroke();
+    ctx.fillStyle = '#b45309'; // amber-700
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(`Δz + hL = ${(bedStep + result.headLoss).toFixed(3)}`, toX((eFrom + eTo) / 2), toY(yArrow) - 5);
+
+    if (result.choked) {
+      dot(result.upstreamEnergy, result.upstreamDepth, '#94a3b8', '1 (before)'); // slate-400
+      if (result.requiredUpstreamDepth !== undefined) dot(E1, y1, UPSTREAM, "1' (raised)");
+      dot(result.downstreamCriticalEnergy, result.downstreamCriticalDepth, '#ef4444', '2 = critical'); // red-500
+    } else {
+      dot(result.upstreamEnergy, result.upstreamDepth, UPSTREAM, '1');
+      dot(result.downstreamEnergy, result.downstreamDepth, DOWNSTREAM, '2');
+    }
+    ctx.restore();
+
+    // Legend
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.fillStyle = UPSTREAM;
+    ctx.fillText('Upstream section', w - PADDING_R - 6, PADDING_T + 14);
+    ctx.fillStyle = DOWNSTREAM;
+    ctx.fillText('Downstream section', w - PADDING_R - 6, PADDING_T + 28);
+
+  }, [type, upstreamParams, downstreamParams, bedStep, result, unit]);
+
+  return (
+    <div className="w-full h-full min-h-[300px] bg-white rounded-lg">
+      <canvas
+        ref={canvasRef}
+        width={800}
+        height={400}
+        className="w-full h-full object-contain"
+      />
+    </div>
+  );
+};
+
+export default TransitionDiagram;
@@ -4,19 +4,67 @@ export enum ChannelType {
   Trapezoidal = 'Trapezoidal',
   Triangular = 'Triangular',
   Circular = 'Circular',
+  Compound = 'Compound',
+  Surveyed = 'Surveyed',
+  Parabolic = 'Parabolic',
+  RoundBottom = 'Round-Bottom',
+  Box = 'Box',
+  Horseshoe = 'Horseshoe',
+  Egg = 'Egg',
+  PipeArch = 'Pipe-Arch',
 }
 
 export type UnitSystem = 'SI' | 'Imperial';
 
+export interface OverbankParams {
+  width: number; // Floodplain width (flat portion)
+  bankHeight: number; // Main channel bank height above the invert
+  manningN: number; // n of the floodplain
+  sideSlope: number; // Outer bank z (H:V)
+}
+
+export type CompositeRoughnessMethod = 'HortonEinstein' | 'Pavlovskii' | 'Lotter';
+
+export interface CompositeRoughness {
+  method: CompositeRoughnessMethod;
+  bedN: number; // Bed; invert (below springline) of circular pipes
+  leftBankN: number;
+  rightBankN: number;
+  crownN: number; // Circular only: perimeter above the springline
+}
+
+export interface SurveyPoint {
+  station: number; // Horizontal distance across the section
+  elevation: number; // Ground elevation
+}
+
+// Resistance equation used for conveyance. Manning is the default when unset.
+export type FrictionLaw = 'Manning' | 'Chezy' | 'DarcyWeisbach' | 'Strickler';
+
 export interface InputParams {
   flowRate: number; // Q
   slope: number; // S (Used for single section or calculator)
   manningN: number; // n
   width: number; // b
   sideSlope: number; // z
-  diameter: number; // D
+  leftSideSlope?: number; // z_L, overrides z on the left bank (Trapezoidal, Triangular)
+  rightSideSlope?: number; // z_R, overrides z on the right bank (Trapezoidal, Triangular)
+  diameter: number; // D (Circular, Horseshoe; span of Egg)
+  height?: number; // Rise of Box and Pipe-Arch; rim depth of Parabolic (where top width = b)
+  bottomRadius?: number; // r of Round-Bottom
+  leftOverbank?: OverbankParams; // Compound only
+  rightOverbank?: OverbankParams; // Compound only
+  surveyPoints?: SurveyPoint[]; // Surveyed only, ordered by station
+  compositeRoughness?: CompositeRoughness; // Replaces manningN with an equivalent n when set (Manning only)
+  frictionLaw?: FrictionLaw;
+  chezyC?: number; // C (m^0.5/s or ft^0.5/s), Chezy only
+  stricklerK?: number; // k_St = 1/n in m^(1/3)/s, Strickler only
+  roughnessHeight?: number; // Equivalent sand roughness ks, Darcy-Weisbach only
 }
 
+// Reach overrides of the calculator section; unset fields fall back to the calculator values
+export type ReachGeometry = Partial<Pick<InputParams, 'width' | 'sideSlope' | 'diameter' | 'height' | 'bottomRadius' | 'manningN'>>;
+
 export interface CanalSectionInput {
   id: string;
   inputMode: 'Slope' | 'Elevation';
@@ -24,6 +72,85 @@ export interface CanalSectionInput {
   slope: number; // Used if mode is Slope
   usElevation: number; // Used if mode is Elevation
   dsElevation: number; // Used if mode is Elevation
+  channelType?: ChannelType; // Defaults to the calculator shape
+  geometry?: ReachGeometry;
+  pointInflow?: number; // Inflow (+) or offtake (-) entering at the upstream end of the reach
+  lateralInflow?: number; // Distributed inflow (+) or loss (-) per unit length, Q/L
+  seepage?: SeepageMethod;
+  seepageCoefficient?: number; // m/day (ft/day): loss rate per wetted area, or Moritz C
+  structure?: StructureInput; // At the downstream end, between this reach and the next
+  junctionLoss?: JunctionLossInput; // Also at the downstream end; ignored where a structure sits
+}
+
+// Local losses where one reach hands over to the next, each a coefficient on a velocity head
+export interface JunctionLossInput {
+  contractionCoeff?: number; // Kc, applied to the velocity-head change when the flow accelerates
+  expansionCoeff?: number; // Ke, applied when the flow decelerates
+  bendAngle?: number; // Deflection in degrees, Kb = 0.0033·θ on the downstream velocity head
+  fixedK?: number; // Trash racks, bridge openings and the like, on the downstream velocity head
+}
+
+export type StructureType = 'BroadCrestedWeir' | 'SharpCrestedWeir' | 'SluiceGate' | 'Drop' | 'Culvert';
+
+export interface StructureInput {
+  type: StructureType;
+  width?: number; // Weir crest length, gate width or culvert diameter
+  coefficient?: number; // Weir Cd, gate contraction Cc or culvert entrance loss Ke
+  height?: number; // Weir crest above the upstream bed, or fall of a drop
+  opening?: number; // Gate opening a
+  length?: number; // Culvert barrel length
+  manningN?: number; // Culvert barrel roughness
+}
+
+// Seepage loss per unit length: WettedPerimeter q = k·P; Moritz S = 0.0375·C·√(Q/V) m³/s per km
+// (0.2·C·√(Q/V) ft³/s per mile)
+export type SeepageMethod = 'None' | 'WettedPerimeter' | 'Moritz';
+
+export interface SolverDiagnostics {
+  iterations: number;
+  residual: number; // Dimensionless residual of the solved equation at the returned depth
+  converged: boolean;
+}
+
+export interface DepthSolution extends SolverDiagnostics {
+  depth: number;
+}
+
+export interface SubsectionResult {
+  label: 'Left Overbank' | 'Main Channel' | 'Right Overbank';
+  area: number; // A_i
+  conveyance: number; // K_i
+  discharge: number; // Q_i
+  velocity: number; // V_i
+}
+
+export type FrictionRegime = 'Laminar' | 'Smooth' | 'Transitional' | 'Rough';
+
+// Resistance at normal depth, expressed on the hydraulic diameter 4R whatever the friction law
+export interface FrictionResult {
+  law: FrictionLaw;
+  frictionFactor: number; // Darcy f
+  reynoldsNumber: number; // Re = 4VR / nu
+  relativeRoughness: number; // ks / 4R (ks back-calculated from Colebrook-White unless given)
+  regime: FrictionRegime;
+}
+
+export interface PipeFlowResult {
+  fullFlow: number; // Qfull, flowing just full at the given slope
+  fullVelocity: number; // Vfull
+  maxCapacity: number; // Qmax, peak of the Manning curve
+  maxCapacityDepth: number; // Depth at Qmax (~0.938D)
+  percentFull: number; // yn / D * 100
+  upperNormalDepth?: number; // Second root between the capacity peak and the crown (Qfull < Q <= Qmax)
+  surcharged: boolean; // Q > Qmax: the pipe runs under pressure
+  hydraulicGradient?: number; // Friction slope required to pass Q full-bore when surcharged
+}
+
+// One point of the part-full ratio curves for a circular pipe
+export interface PartFullRatio {
+  depthRatio: number; // y / D
+  flowRatio: number; // Q / Qfull
+  velocityRatio: number; // V / Vfull
 }
 
 export interface CalculationResult {
@@ -33,6 +160,23 @@ export interface CalculationResult {
   froudeNumber: number; // Fr
   flowRegime: 'Subcritical' | 'Supercritical' | 'Critical';
   criticalVelocity: number; // Vc
+  energyCoefficient: number; // alpha (1 for single-roughness sections)
+  equivalentN: number; // Manning's n at normal depth (composite value if set, or the n matching another friction law)
+  normalDepthSolver: SolverDiagnostics;
+  criticalDepthSolver: SolverDiagnostics;
+  subsections?: SubsectionResult[]; // Divided conveyance breakdown (Compound)
+  friction: FrictionResult;
+  pipe?: PipeFlowResult; // Part-full and surcharge analysis (Circular)
+  error?: string;
+}
+
+// The unknown in the Calculator: depth (normal depth from Q) or any input given the depth
+export type SolveTarget = 'depth' | 'flowRate' | 'width' | 'diameter' | 'sideSlope' | 'slope' | 'manningN';
+
+export interface InverseResult {
+  target: SolveTarget;
+  value: number | null; // Solution used for the results (smallest root if several)
+  roots: number[]; // All solutions found in the search range
   error?: string;
 }
 
@@ -45,6 +189,62 @@ export interface SectionProperties {
   specificEnergy: number; // E
   specificForce: number; // M (Momentum)
   velocity: number; // V at this depth given Q
+  wettedSubareas: number; // Disconnected wetted regions (> 1 only for Surveyed)
+}
+
+// Classification by upstream Froude number (Chow)
+export type JumpType = 'Undular' | 'Weak' | 'Oscillating' | 'Steady' | 'Strong';
+
+export interface HydraulicJumpResult {
+  upstreamDepth: number; // y1 (supercritical)
+  sequentDepth: number; // y2, conjugate by momentum
+  upstreamFroude: number; // Fr1
+  downstreamFroude: number; // Fr2
+  upstreamVelocity: number; // V1
+  downstreamVelocity: number; // V2
+  specificForce: number; // M1 = M2
+  energyLoss: number; // dE = E1 - E2
+  jumpHeight: number; // y2 - y1
+  efficiency: number; // E2 / E1
+  length: number; // Estimated roller length
+  jumpType: JumpType;
+  error?: string;
+}
+
+// Short transition from the Calculator section to a downstream section of the same shape
+export interface TransitionInput {
+  upstreamDepth: number; // y1
+  bedStep: number; // dz, rise of the downstream bed (negative for a drop)
+  downstreamWidth: number; // b2; equal to b1 for a pure bed step
+  contractionCoeff: number; // Kc, applied to the velocity-head change when the flow accelerates
+  expansionCoeff: number; // Ke, applied when the flow decelerates
+}
+
+export interface TransitionResult {
+  upstreamDepth: number; // y1
+  upstreamEnergy: number; // E1
+  downstreamDepth: number; // y2 (critical when choked)
+  downstreamEnergy: number; // E2
+  downstreamCriticalDepth: number; // yc2
+  downstreamCriticalEnergy: number; // Ec2
+  headLoss: number; // hL = K |V1^2 - V2^2| / 2g
+  maxBedStep: number; // Largest rise passable without choking at the given y1 and b2
+  choked: boolean;
+  requiredUpstreamDepth?: number; // Subcritical y1 that just passes Q through critical at section 2
+  upstreamRise?: number; // requiredUpstreamDepth - y1
+  upstreamFroude: number;
+  downstreamFroude: number;
+  error?: string;
+}
+
+export interface RatingPoint {
+  stage: number; // Depth above the invert
+  discharge: number; // Q at normal flow for this stage
+  area: number; // A
+  velocity: number; // V
+  hydraulicRadius: number; // R
+  froudeNumber: number; // Fr
+  specificEnergy: number; // E
 }
 
 export interface ProfilePoint {
@@ -52,20 +252,319 @@ export interface ProfilePoint {
   bedElevation: number; // z
   waterElevation: number; // z + y
   depth: number; // y
-  normalDepthElevation: number; // z + yn
+  normalDepthElevation: number | null; // z + yn (null on horizontal and adverse slopes)
   criticalDepthElevation: number; // z + yc
+  discharge: number; // Q at this station (varies with lateral inflow, offtakes and seepage)
+  velocity: number;
+  froudeNumber: number;
+  specificEnergy: number; // E, with the energy coefficient
+  totalHead: number; // z + E (energy grade line)
+  frictionSlope: number; // Sf
+  frictionLoss: number; // Cumulative friction loss from the upstream end
+  localLoss: number; // Cumulative loss at junctions, structures and jumps from the upstream end
   sectionIndex: number; // To track which section this point belongs to
 }
 
-export interface BoundaryCondition {
-  location: 'Upstream' | 'Downstream';
-  type: 'KnownDepth' | 'NormalDepth' | 'CriticalDepth';
+export type ControlType = 'KnownDepth' | 'NormalDepth' | 'CriticalDepth';
+
+export interface ControlCondition {
+  type: ControlType;
   value: number; // Depth value
 }
 
+// Either end may be controlled. With both, the upstream control feeds a supercritical profile
+// and the downstream control a subcritical one, joined by a hydraulic jump.
+export interface BoundaryCondition {
+  upstream?: ControlCondition;
+  downstream?: ControlCondition;
+}
+
+export interface ProfileSolverOptions {
+  tolerance: number; // Allowed depth error per step (step doubling estimate)
+  minStep: number; // Smallest distance step
+  maxStep: number; // Largest distance step
+  maxSteps: number; // Step limit per reach
+}
+
+export type ReachStatus = 'Complete' | 'ReachedCritical' | 'Surcharged' | 'StepLimit';
+
+export interface ReachSummary {
+  sectionIndex: number;
+  direction: 'Upstream' | 'Downstream'; // Direction of the sweep that produced it
+  steps: number; // Accepted standard steps
+  startDepth: number; // Depth at the end the computation started from
+  endDepth: number; // Depth where the computation stopped
+  energyError: number; // Σ |ΔH − hf| between stored stations (trapezoidal friction loss)
+  status: ReachStatus;
+  stopDistance?: number; // Local distance reached when the profile stopped early
+  junctionChoked: boolean; // Entry depth forced to critical because the junction lacked energy
+}
+
+export interface JunctionLossResult {
+  sectionIndex: number; // Reach upstream of the junction
+  distance: number; // Chainage of the junction
+  upstreamVelocity: number;
+  downstreamVelocity: number;
+  transitionLoss: number; // Kc or Ke times |V1^2 - V2^2| / 2g
+  bendLoss: number;
+  fixedLoss: number;
+  totalLoss: number;
+}
+
+export interface ProfileJump extends HydraulicJumpResult {
+  distance: number; // Chainage of the toe
+  sectionIndex: number;
+  bedElevation: number;
+  downstreamDepth: number; // Subcritical profile depth at the toe
+}
+
+// Free: the structure alone sets the upstream level. Submerged: the tailwater raises it.
+// Culverts report which of inlet and outlet control gives the higher headwater.
+export type StructureFlow = 'Free' | 'Submerged' | 'InletControl' | 'OutletControl' | 'Inactive';
+
+export interface StructureResult {
+  sectionIndex: number; // Reach whose downstream end holds the structure
+  type: StructureType;
+  distance: number; // Chainage
+  flow: StructureFlow;
+  upstreamDepth: number;
+  upstreamEnergy: number; // Specific energy above the upstream bed
+  tailwaterDepth: number | null; // Null when no profile reaches the structure from downstream
+  jetDepth: number | null; // Supercritical depth leaving the structure in free flow
+  submergence: number | null; // Tailwater ratio of the free/submerged check
+  headLoss: number | null; // Upstream minus downstream energy level
+  invertElevation: number; // Weir crest, gate sill, drop brink or culvert invert
+  topElevation?: number; // Gate lip or culvert crown
+  upstreamBedElevation: number;
+  downstreamBedElevation: number;
+  error?: string; // The structure equation gave no finite upstream head
+}
+
+export type SlopeClass = 'Mild' | 'Steep' | 'Critical' | 'Horizontal' | 'Adverse';
+
+export type GvfProfileType = 'M1' | 'M2' | 'M3' | 'S1' | 'S2' | 'S3' | 'C1' | 'C3' | 'H2' | 'H3' | 'A2' | 'A3' | 'Uniform';
+
+export interface ProfileSegment {
+  type: GvfProfileType;
+  start: number; // Chainage
+  end: number;
+}
+
+export interface ReachClassification {
+  sectionIndex: number;
+  slope: number;
+  slopeClass: SlopeClass;
+  normalDepth: number | null; // At the upstream end; null where uniform flow cannot exist
+  criticalDepth: number; // At the upstream end
+  segments: ProfileSegment[]; // Downstream order
+}
+
+export interface ProfileResult {
+  points: ProfilePoint[];
+  reaches: ReachSummary[]; // One per reach and sweep
+  jumps: ProfileJump[];
+  classes: ReachClassification[];
+  structures: StructureResult[];
+  junctions: JunctionLossResult[]; // Junctions with a local-loss element
+  error?: string;
+}
+
+// A canal in a dendritic network: a chain of reaches leaving the downstream end of its parent
+export interface NetworkBranch {
+  id: string;
+  name: string;
+  parentId: string | null; // Null for the main canal, which takes the inflow
+  sections: CanalSectionInput[];
+  flowShare: number; // Weight of this branch in a fixed split at its head node
+  angle: number; // Deflection from the parent canal in degrees, for the momentum balance
+  downstream: ControlCondition; // Control at the tail, used when no branch leaves it
+}
+
+// Fixed: division structures hold the shares. Solved: the flow divides so that the branch heads
+// agree on the compatibility level.
+export type FlowSplitMode = 'Fixed' | 'Solved';
+
+// Energy: one energy level across the node. Momentum: one water level at the branch heads, with
+// the parent depth from the specific-force balance.
+export type JunctionCompatibility = 'Energy' | 'Momentum';
+
+export interface NetworkOptions {
+  splitMode: FlowSplitMode;
+  compatibility: JunctionCompatibility;
+}
+
+export interface NetworkOutflow {
+  branchId: string;
+  discharge: number;
+  waterLevel: number; // At the branch head
+  energyLevel: number;
+  headDrop: number; // Node energy level less the branch head's, taken up by the division
+}
+
+export interface NetworkNodeResult {
+  branchId: string; // Parent branch ending at the node
+  bedElevation: number;
+  depth: number; // Parent depth at the node
+  waterLevel: number;
+  energyLevel: number;
+  critical: boolean; // Branch heads too low to hold the parent: it passes critical depth into the node
+  outflows: NetworkOutflow[];
+  mismatch: number; // Spread of the compatibility level over the branch heads
+}
+
+export interface NetworkBranchResult {
+  branchId: string;
+  inflow: number;
+  outflow: number;
+  profile: ProfileResult;
+}
+
+export interface NetworkResult {
+  branches: NetworkBranchResult[]; // Parent before child
+  nodes: NetworkNodeResult[];
+  error?: string;
+}
+
+export interface HydrographPoint {
+  time: number;
+  value: number;
+}
+
+// Muskingum–Cunge parameters of one canal reach, fixed at its reference discharge
+export interface RoutingReachResult {
+  sectionIndex: number;
+  referenceFlow: number;
+  depth: number; // Normal depth at the reference flow
+  topWidth: number;
+  celerity: number; // Kinematic wave celerity dQ/dA
+  subreaches: number;
+  K: number; // Travel time through one subreach, s
+  X: number; // Weighting factor; below zero the scheme still matches the wave diffusion
+  courant: number; // c·Δt/Δx
+}
+
+export interface RoutingResult {
+  inflow: HydrographPoint[]; // On the output grid, held at the last value past the end of the data
+  outflow: HydrographPoint[]; // At the tail of the last reach
+  reaches: RoutingReachResult[];
+  timeStep: number; // Routing step, s
+  peakInflow: number;
+  peakOutflow: number;
+  attenuation: number; // Peak reduction, after adding the steady point and lateral inflows
+  lag: number; // Time from the inflow peak to the outflow peak, in the hydrograph's time unit
+  error?: string;
+}
+
+// Steady profile for the inflow at one time of a hydrograph, ignoring storage and wave travel
+export interface QuasiSteadyFrame {
+  time: number; // In the hydrograph's time unit
+  inflow: number;
+  profile: ProfileResult;
+}
+
+export interface QuasiSteadyResult {
+  frames: QuasiSteadyFrame[];
+  error?: string;
+}
+
+// Stage: fixed depth at the tail. Rating: Q = C·y^m. NormalDepth: Q = K(y)·√S0 of the last reach.
+export type UnsteadyDownstreamType = 'Stage' | 'Rating' | 'NormalDepth';
+
+export interface UnsteadyDownstream {
+  type: UnsteadyDownstreamType;
+  depth: number; // Stage
+  coefficient: number; // Rating C
+  exponent: number; // Rating m
+}
+
+export interface UnsteadyOptions {
+  timeStep: number; // Δt, s
+  spaceStep: number; // Target Δx; each reach is split into equal segments no longer than this
+  theta: number; // Time weighting of the Preissmann scheme, 0.5 (centred) to 1 (fully implicit)
+  downstream: UnsteadyDownstream;
+}
+
+export interface UnsteadyStation {
+  distance: number; // Chainage
+  sectionIndex: number;
+  bedElevation: number;
+}
+
+export interface UnsteadySnapshot {
+  time: number; // In the hydrograph's time unit
+  depth: number[]; // Per station
+  discharge: number[];
+}
+
+export interface UnsteadyHydrographPoint {
+  time: number;
+  depth: number;
+  waterLevel: number;
+  discharge: number;
+}
+
+export interface UnsteadyResult {
+  stations: UnsteadyStation[]; // A reach junction has a station on each side at the same chainage
+  snapshots: UnsteadySnapshot[]; // The initial steady state first
+  timeStep: number; // s
+  steps: number;
+  maxIterations: number; // Newton iterations of the hardest time step
+  inflowVolume: number; // At the upstream boundary
+  outflowVolume: number; // At the downstream boundary
+  lateralVolume: number; // Point and lateral inflows less seepage
+  storageChange: number;
+  massBalanceError: number; // (in + lateral - out - Δstorage) / in
+  error?: string;
+}
+
 export const DEFAULT_PARAMS: Record<ChannelType, InputParams> = {
   [ChannelType.Rectangular]: { flowRate: 10, slope: 0.001, manningN: 0.013, width: 5, sideSlope: 0, diameter: 0 },
   [ChannelType.Trapezoidal]: { flowRate: 10, slope: 0.001, manningN: 0.013, width: 3, sideSlope: 2, diameter: 0 },
   [ChannelType.Triangular]: { flowRate: 5, slope: 0.005, manningN: 0.013, width: 0, sideSlope: 1.5, diameter: 0 },
   [ChannelType.Circular]: { flowRate: 2, slope: 0.002, manningN: 0.013, width: 0, sideSlope: 0, diameter: 2 },
+  [ChannelType.Compound]: {
+    flowRate: 60, slope: 0.001, manningN: 0.030, width: 10, sideSlope: 1.5, diameter: 0,
+    leftOverbank: { width: 30, bankHeight: 2, manningN: 0.050, sideSlope: 2 },
+    rightOverbank: { width: 20, bankHeight: 2, manningN: 0.050, sideSlope: 2 },
+  },
+  [ChannelType.Surveyed]: {
+    flowRate: 15, slope: 0.001, manningN: 0.035, width: 0, sideSlope: 0, diameter: 0,
+    surveyPoints: [
+      { station: 0, elevation: 5.0 }, { station: 5, elevation: 3.2 }, { station: 10, elevation: 3.0 },
+      { station: 14, elevation: 3.6 }, { station: 18, elevation: 2.5 }, { station: 21, elevation: 0.8 },
+      { station: 24, elevation: 0.2 }, { station: 27, elevation: 0.6 }, { station: 30, elevation: 2.4 },
+      { station: 36, elevation: 3.4 }, { station: 42, elevation: 5.0 },
+    ],
+  },
+  [ChannelType.Parabolic]: { flowRate: 5, slope: 0.001, manningN: 0.025, width: 6, sideSlope: 0, diameter: 0, height: 1.5 },
+  [ChannelType.RoundBottom]: { flowRate: 5, slope: 0.001, manningN: 0.015, width: 0, sideSlope: 1.5, diameter: 0, bottomRadius: 0.5 },
+  [ChannelType.Box]: { flowRate: 4, slope: 0.002, manningN: 0.013, width: 2, sideSlope: 0, diameter: 0, height: 1.5 },
+  [ChannelType.Horseshoe]: { flowRate: 3, slope: 0.002, manningN: 0.013, width: 0, sideSlope: 0, diameter: 2 },
+  [ChannelType.Egg]: { flowRate: 1.5, slope: 0.002, manningN: 0.013, width: 0, sideSlope: 0, diameter: 1.2 },
+  [ChannelType.PipeArch]: { flowRate: 1.2, slope: 0.002, manningN: 0.024, width: 1.83, sideSlope: 0, diameter: 0, height: 1.19 },
+};
+
+// SI values; lengths are rescaled when the unit system changes
+export const DEFAULT_PROFILE_OPTIONS: ProfileSolverOptions = { tolerance: 1e-4, minStep: 0.01, maxStep: 50, maxSteps: 2000 };
+
+// SI values; lengths are rescaled when the unit system changes
+export const DEFAULT_STRUCTURES: Record<StructureType, StructureInput> = {
+  BroadCrestedWeir: { type: 'BroadCrestedWeir', width: 5, height: 0.5, coefficient: 0.95 },
+  SharpCrestedWeir: { type: 'SharpCrestedWeir', width: 5, height: 0.5, coefficient: 0.62 },
+  SluiceGate: { type: 'SluiceGate', width: 5, opening: 0.5, coefficient: 0.61 },
+  Drop: { type: 'Drop', height: 1 },
+  Culvert: { type: 'Culvert', width: 1.5, length: 20, manningN: 0.013, coefficient: 0.5 },
+};
+
+// Gradual transition coefficients; bend and fixed losses are opted into per junction
+export const DEFAULT_JUNCTION_LOSS: JunctionLossInput = { contractionCoeff: 0.1, expansionCoeff: 0.3, bendAngle: 0, fixedK: 0 };
+
+export const DEFAULT_NETWORK_OPTIONS: NetworkOptions = { splitMode: 'Solved', compatibility: 'Energy' };
+
+// SI values; lengths are rescaled when the unit system changes
+export const DEFAULT_UNSTEADY_OPTIONS: UnsteadyOptions = {
+  timeStep: 60,
+  spaceStep: 100,
+  theta: 0.6,
+  downstream: { type: 'NormalDepth', depth: 2, coefficient: 10, exponent: 1.5 },
 };
@@ -1,13 +1,14 @@
 
-import { ChannelType, InputParams, CalculationResult, SectionProperties, UnitSystem, ProfilePoint, BoundaryCondition, CanalSectionInput } from '../types';
+import { ChannelType, InputParams, CalculationResult, SectionProperties, UnitSystem, ProfilePoint, BoundaryCondition, CanalSectionInput, OverbankParams, SubsectionResult, SurveyPoint, CompositeRoughness, SolveTarget, InverseResult, DepthSolution, SolverDiagnostics, PipeFlowResult, PartFullRatio, FrictionLaw, FrictionResult, FrictionRegime, HydraulicJumpResult, JumpType, TransitionInput, TransitionResult, RatingPoint, ProfileSolverOptions, ProfileResult, ReachSummary, ReachStatus, ControlCondition, ProfileJump, SlopeClass, GvfProfileType, ProfileSegment, ReachClassification, StructureInput, StructureResult, StructureFlow, JunctionLossInput, JunctionLossResult, NetworkBranch, NetworkOptions, NetworkResult, NetworkNodeResult, NetworkBranchResult, HydrographPoint, RoutingReachResult, RoutingResult, UnsteadyOptions, UnsteadyResult, UnsteadyStation, UnsteadySnapshot, UnsteadyHydrographPoint, QuasiSteadyFrame, QuasiSteadyResult, DEFAULT_PROFILE_OPTIONS } from '../types';
 
 const MAX_ITER = 100;
 const TOLERANCE = 1e-6;
 
 // Unit Constants
+// NU: kinematic viscosity of water at 20 °C
 const UNIT_CONSTANTS = {
-  SI: { G: 9.81, K: 1.0 },
-  Imperial: { G: 32.2, K: 1.486 }
+  SI: { G: 9.81, K: 1.0, NU: 1.004e-6 },
+  Imperial: { G: 32.2, K: 1.486, NU: 1.081e-5 }
 };
 
 // --- Geometric Helpers ---
@@ -19,451 +20,2410 @@ interface Geometry {
   centroidDepth: number; // Depth of centroid from water surface
 }
 
+interface SubsectionGeometry extends Geometry {
+  label: SubsectionResult['label'];
+  n: number;
+}
+
+const NO_OVERBANK: OverbankParams = { width: 0, bankHeight: Infinity, manningN: 0, sideSlope: 0 };
+
+// Area of a bank face that rises until height h and is then cut off by a vertical divider:
+// integral of min(eta, h) d(eta) over [0, y], and its first moment about the water surface.
+const clippedBankArea = (y: number, h: number) => y <= h ? (y * y) / 2 : (h * h) / 2 + h * (y - h);
+const clippedBankMoment = (y: number, h: number) => y <= h
+  ? Math.pow(y, 3) / 6
+  : (y * h * h) / 2 - Math.pow(h, 3) / 3 + (h * Math.pow(y - h, 2)) / 2;
+
+// Divided-channel method: vertical interfaces at the bank tops, not counted in the wetted perimeter.
+const getCompoundSubsections = (y: number, p: InputParams): SubsectionGeometry[] => {
+  const left = p.leftOverbank ?? NO_OVERBANK;
+  const right = p.rightOverbank ?? NO_OVERBANK;
+  const z = p.sideSlope;
+  const wetL = Math.min(y, left.bankHeight);
+  const wetR = Math.min(y, right.bankHeight);
+
+  const mainA = p.width * y + z * (clippedBankArea(y, left.bankHeight) + clippedBankArea(y, right.bankHeight));
+  const mainMoment = (p.width * y * y) / 2 + z * (clippedBankMoment(y, left.bankHeight) + clippedBankMoment(y, right.bankHeight));
+  const subs: SubsectionGeometry[] = [{
+    label: 'Main Channel',
+    n: p.manningN,
+    A: mainA,
+    P: p.width + Math.sqrt(1 + z * z) * (wetL + wetR),
+    T: p.width + z * (wetL + wetR),
+    centroidDepth: mainA > 0 ? mainMoment / mainA : 0,
+  }];
+
+  const overbank = (ob: OverbankParams, label: SubsectionResult['label']) => {
+    const d = y - ob.bankHeight;
+    if (d <= 0 || ob.width <= 0) return;
+    const A = ob.width * d + (ob.sideSlope * d * d) / 2;
+    const moment = (ob.width * d * d) / 2 + (ob.sideSlope * Math.pow(d, 3)) / 6;
+    subs.push({
+      label,
+      n: ob.manningN,
+      A,
+      P: ob.width + d * Math.sqrt(1 + ob.sideSlope * ob.sideSlope),
+      T: ob.width + ob.sideSlope * d,
+      centroidDepth: moment / A,
+    });
+  };
+  overbank(left, 'Left Overbank');
+  overbank(right, 'Right Overbank');
+  return subs;
+};
+
+// Bank slopes of Trapezoidal and Triangular sections; each side falls back to the shared z
+export const getSideSlopes = (p: InputParams) => ({
+  zL: p.leftSideSlope ?? p.sideSlope,
+  zR: p.rightSideSlope ?? p.sideSlope,
+});
+
+// Circular segment of diameter D filled to depth h (0 < h <= D)
+const circularSegment = (D: number, h: number): Geometry => {
+  const r = D / 2;
+  const theta = 2 * Math.acos(1 - (2 * h) / D);
+  const alpha = theta / 2;
+  const segmentCentroidFromCenter = (2 * D * Math.pow(Math.sin(alpha), 3)) / (3 * (theta - Math.sin(theta)));
+  return {
+    A: (Math.pow(D, 2) / 8) * (theta - Math.sin(theta)),
+    P: (D / 2) * theta,
+    T: D * Math.sin(theta / 2),
+    centroidDepth: (h - r) + segmentCentroidFromCenter,
+  };
+};
+
+// Triangle with a circular bottom of radius r tangent to both sides (side slope z)
+const roundBottomGeometry = (y: number, r: number, z: number): Geometry => {
+  const alpha = Math.atan2(1, z); // Angle of the tangent points from the vertical
+  const yt = r * (1 - Math.cos(alpha));
+  if (r <= 0 || y <= yt) {
+    if (r <= 0) return { A: z * y * y, P: 2 * y * Math.sqrt(1 + z * z), T: 2 * z * y, centroidDepth: y / 3 };
+    return circularSegment(2 * r, y);
+  }
+  const seg = circularSegment(2 * r, yt);
+  const d = y - yt;
+  const Tt = 2 * r * Math.sin(alpha);
+  const A = seg.A + Tt * d + z * d * d;
+  const moment = seg.A * (seg.centroidDepth + d) + (Tt * d * d) / 2 + (z * Math.pow(d, 3)) / 3;
+  return {
+    A,
+    P: 2 * r * alpha + 2 * d * Math.sqrt(1 + z * z),
+    T: Tt + 2 * z * d,
+    centroidDepth: moment / A,
+  };
+};
+
+// Closed conduits: the crown height. Flow depth is clamped here like the circular pipe.
+export const getConduitRise = (type: ChannelType, p: InputParams): number | null => {
+  switch (type) {
+    case ChannelType.Circular:
+    case ChannelType.Horseshoe:
+      return p.diameter;
+    case ChannelType.Egg:
+      return 1.5 * p.diameter;
+    case ChannelType.Box:
+    case ChannelType.PipeArch:
+      return p.height ?? 0;
+    default:
+      return null;
+  }
+};
+
+// Half-width x(h) at height h above the invert for the symmetric curved shapes.
+// Horseshoe: standard section (crown radius D/2, side and invert radii D).
+// Egg: standard ovoid (crown radius D/2, sides 1.5D, invert D/4, rise 1.5D).
+// Pipe-Arch: semicircular crown of the span on a semi-elliptical invert.
+export const getHalfWidthProfile = (type: ChannelType, p: InputParams): ((h: number) => number) | null => {
+  const sqrt0 = (v: number) => Math.sqrt(Math.max(0, v));
+  switch (type) {
+    case ChannelType.Horseshoe: {
+      const D = p.diameter;
+      const hInvert = (D * (3 - Math.sqrt(7))) / 4; // Invert arc meets the side arcs
+      return h => {
+        if (h <= hInvert) return sqrt0(D * D - Math.pow(h - D, 2));
+        if (h <= D / 2) return sqrt0(D * D - Math.pow(h - D / 2, 2)) - D / 2;
+        return sqrt0(Math.pow(D / 2, 2) - Math.pow(h - D / 2, 2));
+      };
+    }
+    case ChannelType.Egg: {
+      const R = p.diameter / 2;
+      return h => {
+        if (h <= 0.2 * R) return sqrt0(Math.pow(R / 2, 2) - Math.pow(h - R / 2, 2));
+        if (h <= 2 * R) return sqrt0(9 * R * R - Math.pow(h - 2 * R, 2)) - 2 * R;
+        return sqrt0(R * R - Math.pow(h - 2 * R, 2));
+      };
+    }
+    case ChannelType.PipeArch: {
+      const a = p.width / 2;
+      const b = (p.height ?? 0) - a; // Springline height
+      return h => {
+        if (h <= b) return b > 0 ? a * sqrt0(1 - Math.pow((h - b) / b, 2)) : a;
+        return sqrt0(a * a - Math.pow(h - b, 2));
+      };
+    }
+    case ChannelType.Parabolic: {
+      const H = p.height ?? 0;
+      return h => H > 0 ? (p.width / 2) * sqrt0(h / H) : 0;
+    }
+    case ChannelType.RoundBottom: {
+      const r = p.bottomRadius ?? 0;
+      const alpha = Math.atan2(1, p.sideSlope);
+      const yt = r * (1 - Math.cos(alpha));
+      return h => h <= yt ? sqrt0(r * r - Math.pow(h - r, 2)) : r * Math.sin(alpha) + p.sideSlope * (h - yt);
+    }
+    case ChannelType.Box:
+      return h => h <= (p.height ?? 0) ? p.width / 2 : 0;
+    default:
+      return null;
+  }
+};
+
+const NUMERIC_SLICES = 200;
+
+// Numerical A, P, T and centroid for a symmetric section given by its half-width profile.
+// Area and moment use the midpoint rule; the perimeter is the length of the sampled boundary.
+const integrateSymmetricSection = (halfWidth: (h: number) => number, y: number): Geometry => {
+  const dh = y / NUMERIC_SLICES;
+  let A = 0, P = 0, moment = 0;
+  let wPrev = halfWidth(0);
+  P += 2 * wPrev; // Flat invert, if any
+  for (let i = 1; i <= NUMERIC_SLICES; i++) {
+    const h = i * dh;
+    const w = halfWidth(h);
+    const dA = 2 * halfWidth(h - dh / 2) * dh;
+    A += dA;
+    moment += dA * (y - (h - dh / 2));
+    P += 2 * Math.hypot(w - wPrev, dh);
+    wPrev = w;
+  }
+  return { A, P, T: 2 * wPrev, centroidDepth: A > 0 ? moment / A : 0 };
+};
+
+// Stage for surveyed sections is measured from the lowest ground point (thalweg).
+// Water above either end point is held by an imaginary vertical wall there.
+export const getSurveyedSubareas = (y: number, points: SurveyPoint[]): Geometry[] => {
+  if (y <= 0 || points.length < 2) return [];
+  const zMin = Math.min(...points.map(pt => pt.elevation));
+  const wse = zMin + y;
+  const areas: Geometry[] = [];
+  let A = 0, P = 0, T = 0, moment = 0;
+
+  const close = () => {
+    if (A > 0) areas.push({ A, P, T, centroidDepth: moment / A });
+    A = 0; P = 0; T = 0; moment = 0;
+  };
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first.elevation < wse) P += wse - first.elevation;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i], p2 = points[i + 1];
+    const d1 = wse - p1.elevation;
+    const d2 = wse - p2.elevation;
+    const dx = p2.station - p1.station;
+    const len = Math.hypot(dx, p2.elevation - p1.elevation);
+
+    if (d1 <= 0 && d2 <= 0) { close(); continue; }
+
+    if (d1 >= 0 && d2 >= 0) {
+      A += ((d1 + d2) / 2) * dx;
+      moment += (dx * (d1 * d1 + d1 * d2 + d2 * d2)) / 6;
+      P += len;
+      T += dx;
+      continue;
+    }
+
+    // Segment crosses the water surface: wet only the part with positive depth
+    const t = d1 / (d1 - d2);
+    const d = Math.max(d1, d2);
+    const frac = d1 > 0 ? t : 1 - t;
+    if (d1 <= 0) close();
+    A += (d * frac * dx) / 2;
+    moment += (frac * dx * d * d) / 6;
+    P += frac * len;
+    T += frac * dx;
+    if (d2 <= 0) close();
+  }
+
+  if (last.elevation < wse) P += wse - last.elevation;
+  close();
+  return areas;
+};
+
 export const getGeometry = (type: ChannelType, y: number, p: InputParams): Geometry => {
   let A = 0, P = 0, T = 0, centroidDepth = 0;
 
-  if (y <= 0) return { A: 0, P: 0, T: 0, centroidDepth: 0 };
+  if (y <= 0) return { A: 0, P: 0, T: 0, centroidDepth: 0 };
+
+  switch (type) {
+    case ChannelType.Rectangular:
+      A = p.width * y;
+      P = p.width + 2 * y;
+      T = p.width;
+      centroidDepth = y / 2;
+      break;
+      
+    case ChannelType.Trapezoidal:
+      // A = y * (b + (zL + zR) y / 2)
+      // T = b + (zL + zR) y
+      const trap = getSideSlopes(p);
+      A = (p.width + ((trap.zL + trap.zR) / 2) * y) * y;
+      P = p.width + y * (Math.sqrt(1 + trap.zL * trap.zL) + Math.sqrt(1 + trap.zR * trap.zR));
+      T = p.width + (trap.zL + trap.zR) * y;
+      const y_bar_bottom = (y / 3) * ((2 * T + p.width) / (T + p.width));
+      centroidDepth = y - y_bar_bottom;
+      break;
+
+    case ChannelType.Triangular:
+      const tri = getSideSlopes(p);
+      A = ((tri.zL + tri.zR) / 2) * y * y;
+      P = y * (Math.sqrt(1 + tri.zL * tri.zL) + Math.sqrt(1 + tri.zR * tri.zR));
+      T = (tri.zL + tri.zR) * y;
+      centroidDepth = y / 3; 
+      break;
+
+    case ChannelType.Circular:
+      ({ A, P, T, centroidDepth } = circularSegment(p.diameter, Math.min(y, p.diameter)));
+      break;
+
+    case ChannelType.Parabolic:
+      // x^2 = (T0^2 / 4H) * y, with T0 the top width at the rim depth H
+      const H = p.height ?? 0;
+      const a = H > 0 && p.width > 0 ? (4 * H) / (p.width * p.width) : 0; // y = a x^2
+      if (a === 0) break;
+      T = 2 * Math.sqrt(y / a);
+      A = (2 / 3) * T * y;
+      const u = a * T; // 2a * (T/2)
+      P = (T / 2) * Math.sqrt(1 + u * u) + Math.asinh(u) / (2 * a);
+      centroidDepth = (2 / 5) * y;
+      break;
+
+    case ChannelType.RoundBottom:
+      ({ A, P, T, centroidDepth } = roundBottomGeometry(y, p.bottomRadius ?? 0, p.sideSlope));
+      break;
+
+    case ChannelType.Box:
+      const rise = p.height ?? 0;
+      const hb = Math.min(y, rise);
+      A = p.width * hb;
+      // Full box: the roof is wetted and the free surface disappears, as with a full circle
+      P = y >= rise ? 2 * (p.width + rise) : p.width + 2 * hb;
+      T = y >= rise ? 0 : p.width;
+      centroidDepth = hb / 2;
+      break;
+
+    case ChannelType.Horseshoe:
+    case ChannelType.Egg:
+    case ChannelType.PipeArch:
+      const profile = getHalfWidthProfile(type, p);
+      const crown = getConduitRise(type, p) ?? 0;
+      if (!profile || crown <= 0) break;
+      ({ A, P, T, centroidDepth } = integrateSymmetricSection(profile, Math.min(y, crown)));
+      break;
+
+    case ChannelType.Compound:
+      let moment = 0;
+      for (const sub of getCompoundSubsections(y, p)) {
+        A += sub.A;
+        P += sub.P;
+        T += sub.T;
+        moment += sub.A * sub.centroidDepth;
+      }
+      centroidDepth = A > 0 ? moment / A : 0;
+      break;
+
+    case ChannelType.Surveyed:
+      let surveyMoment = 0;
+      for (const sub of getSurveyedSubareas(y, p.surveyPoints ?? [])) {
+        A += sub.A;
+        P += sub.P;
+        T += sub.T;
+        surveyMoment += sub.A * sub.centroidDepth;
+      }
+      centroidDepth = A > 0 ? surveyMoment / A : 0;
+      break;
+  }
+  return { A, P, T, centroidDepth };
+};
+
+// --- Composite Roughness ---
+
+export const supportsCompositeRoughness = (type: ChannelType) =>
+  type === ChannelType.Rectangular || type === ChannelType.Trapezoidal ||
+  type === ChannelType.Triangular || type === ChannelType.Circular;
+
+// Flow area of a trapezoid (bed b, sides zL and zR) split by the bisectors of its corners, so
+// each point belongs to the nearest wall: [bed, left bank, right bank]. At height η the banks
+// take η·√(1 + z²) of the width until the bed part closes at η*, then share it in that ratio.
+const getBisectorAreas = (b: number, zL: number, zR: number, y: number): [number, number, number] => {
+  const cL = Math.sqrt(1 + zL * zL), cR = Math.sqrt(1 + zR * zR);
+  const closure = b / (cL + cR - zL - zR);
+  const h = Math.min(y, closure);
+  const above = y > h ? b * (y - h) + ((zL + zR) * (y * y - h * h)) / 2 : 0;
+  return [
+    b * h + ((zL + zR - cL - cR) * h * h) / 2,
+    (cL * h * h) / 2 + (above * cL) / (cL + cR),
+    (cR * h * h) / 2 + (above * cR) / (cL + cR),
+  ];
+};
+
+// Wetted perimeter split into parts of different roughness, each with the flow area against it
+const getPerimeterParts = (type: ChannelType, y: number, p: InputParams, c: CompositeRoughness): { P: number; A: number; n: number }[] => {
+  const { zL, zR } = getSideSlopes(p);
+  switch (type) {
+    case ChannelType.Rectangular: {
+      const [bed, left, right] = getBisectorAreas(p.width, 0, 0, y);
+      return [{ P: p.width, A: bed, n: c.bedN }, { P: y, A: left, n: c.leftBankN }, { P: y, A: right, n: c.rightBankN }];
+    }
+    case ChannelType.Trapezoidal: {
+      const [bed, left, right] = getBisectorAreas(p.width, zL, zR, y);
+      return [
+        { P: p.width, A: bed, n: c.bedN },
+        { P: y * Math.sqrt(1 + zL * zL), A: left, n: c.leftBankN },
+        { P: y * Math.sqrt(1 + zR * zR), A: right, n: c.rightBankN },
+      ];
+    }
+    case ChannelType.Triangular: {
+      const [, left, right] = getBisectorAreas(0, zL, zR, y);
+      return [{ P: y * Math.sqrt(1 + zL * zL), A: left, n: c.leftBankN }, { P: y * Math.sqrt(1 + zR * zR), A: right, n: c.rightBankN }];
+    }
+    case ChannelType.Circular:
+      // The radii to the springline divide the invert from the crown
+      const r = p.diameter / 2;
+      const { A, P } = getGeometry(type, y, p);
+      const invertP = Math.min(P, Math.PI * r);
+      const invertA = Math.min(A, (Math.PI * r * r) / 2);
+      return [{ P: invertP, A: invertA, n: c.bedN }, { P: P - invertP, A: A - invertA, n: c.crownN }];
+    default:
+      return [];
+  }
+};
+
+// Equivalent n of the whole wetted perimeter at depth y. Depth-dependent, since the
+// share of each part in the perimeter changes as the water rises.
+// Lotter gives each part its own hydraulic radius from the sub-area against it.
+export const getEquivalentManningN = (type: ChannelType, y: number, p: InputParams): number => {
+  const c = p.compositeRoughness;
+  if (!c || !supportsCompositeRoughness(type)) return p.manningN;
+  const parts = getPerimeterParts(type, y, p, c).filter(part => part.P > 0);
+  const P = parts.reduce((sum, part) => sum + part.P, 0);
+  if (P <= 0) return parts.length > 0 ? parts[0].n : c.bedN;
+
+  switch (c.method) {
+    case 'HortonEinstein':
+      return Math.pow(parts.reduce((sum, part) => sum + part.P * Math.pow(part.n, 1.5), 0) / P, 2/3);
+    case 'Pavlovskii':
+      return Math.sqrt(parts.reduce((sum, part) => sum + part.P * part.n * part.n, 0) / P);
+    case 'Lotter': {
+      // Conveyances of the sub-areas add up: n = P·R^(5/3) / Σ(Pᵢ·Rᵢ^(5/3)/nᵢ)
+      const A = parts.reduce((sum, part) => sum + part.A, 0);
+      const K = parts.reduce((sum, part) => sum + (part.P * Math.pow(part.A / part.P, 5/3)) / part.n, 0);
+      return K > 0 ? (P * Math.pow(A / P, 5/3)) / K : parts[0].n;
+    }
+  }
+};
+
+// --- Friction Laws ---
+
+const LAMINAR_RE = 2000;
+
+export const getFrictionLaw = (p: InputParams): FrictionLaw => p.frictionLaw ?? 'Manning';
+
+// Darcy f from Colebrook-White, with Re and relative roughness on the hydraulic diameter.
+// Laminar below Re = 2000.
+export const colebrookFrictionFactor = (Re: number, relativeRoughness: number): number => {
+  if (Re <= 0) return Infinity;
+  if (Re < LAMINAR_RE) return 64 / Re;
+  // Swamee-Jain start, then fixed-point iteration on 1/sqrt(f)
+  let x = -2 * Math.log10(relativeRoughness / 3.7 + 5.74 / Math.pow(Re, 0.9));
+  for (let i = 0; i < MAX_ITER; i++) {
+    const next = -2 * Math.log10(relativeRoughness / 3.7 + 2.51 * x / Re);
+    const done = Math.abs(next - x) < TOLERANCE * x;
+    x = next;
+    if (done) break;
+  }
+  return 1 / (x * x);
+};
+
+// Conveyance of one subsection. meanV sets the Reynolds number for Darcy-Weisbach,
+// which makes K depend on the discharge for that law.
+const subsectionConveyance = (A: number, P: number, n: number, law: FrictionLaw, p: InputParams, unit: UnitSystem, meanV: number): number => {
+  if (A <= 0 || P <= 0) return 0;
+  const { K: k, G, NU } = UNIT_CONSTANTS[unit];
+  const R = A / P;
+  switch (law) {
+    case 'Chezy':
+      return (p.chezyC ?? 0) * A * Math.sqrt(R);
+    case 'Strickler':
+      // k_St is defined in SI (= 1/n), so it carries the Manning unit factor
+      return k * (p.stricklerK ?? 0) * A * Math.pow(R, 2/3);
+    case 'DarcyWeisbach':
+      const f = colebrookFrictionFactor(4 * R * meanV / NU, (p.roughnessHeight ?? 0) / (4 * R));
+      return A * Math.sqrt(8 * G * R / f);
+    default:
+      return (k / n) * A * Math.pow(R, 2/3);
+  }
+};
+
+// Classify resistance at depth y from the actual friction slope Sf.
+// Other laws are mapped onto Darcy f and an equivalent ks so the regimes compare directly.
+const getFrictionResult = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): FrictionResult => {
+  const { G, NU } = UNIT_CONSTANTS[unit];
+  const law = getFrictionLaw(p);
+  const geom = getGeometry(type, y, p);
+  const R = geom.P > 0 ? geom.A / geom.P : 0;
+  const V = geom.A > 0 ? p.flowRate / geom.A : 0;
+  const K = getConveyance(type, y, p, unit).K;
+  const Sf = K > 0 ? Math.pow(p.flowRate / K, 2) : 0;
+  const f = V > 0 ? 8 * G * R * Sf / (V * V) : 0;
+  const Re = 4 * V * R / NU;
+
+  let relativeRoughness = 0;
+  if (law === 'DarcyWeisbach') {
+    relativeRoughness = R > 0 ? (p.roughnessHeight ?? 0) / (4 * R) : 0;
+  } else if (f > 0 && Re > 0) {
+    // Invert Colebrook-White for ks/Dh; a non-positive value means smoother than the smooth-wall law
+    const sqrtF = Math.sqrt(f);
+    relativeRoughness = Math.max(0, 3.7 * (Math.pow(10, -1 / (2 * sqrtF)) - 2.51 / (Re * sqrtF)));
+  }
+
+  // Roughness Reynolds number u* ks / nu
+  let regime: FrictionRegime = 'Laminar';
+  if (Re >= LAMINAR_RE) {
+    const roughRe = V * Math.sqrt(f / 8) * relativeRoughness * 4 * R / NU;
+    regime = roughRe < 5 ? 'Smooth' : roughRe < 70 ? 'Transitional' : 'Rough';
+  }
+  return { law, frictionFactor: f, reynoldsNumber: Re, relativeRoughness, regime };
+};
+
+// --- Conveyance ---
+
+interface Conveyance {
+  K: number; // Total conveyance, Q = K * sqrt(S)
+  alpha: number; // Energy (Coriolis) coefficient
+  subsections: (SubsectionGeometry & { K: number })[];
+}
+
+// The selected friction law applies to the main channel; Compound overbanks keep their Manning n.
+export const getConveyance = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): Conveyance => {
+  const law = getFrictionLaw(p);
+  const parts: SubsectionGeometry[] = type === ChannelType.Compound
+    ? getCompoundSubsections(y, p)
+    : [{ ...getGeometry(type, y, p), label: 'Main Channel', n: getEquivalentManningN(type, y, p) }];
+  const At = parts.reduce((sum, sub) => sum + sub.A, 0);
+  const meanV = At > 0 ? p.flowRate / At : 0;
+
+  let Kt = 0, sumK3A2 = 0;
+  const subsections = parts.map(sub => {
+    const K = subsectionConveyance(sub.A, sub.P, sub.n, sub.label === 'Main Channel' ? law : 'Manning', p, unit, meanV);
+    Kt += K;
+    if (sub.A > 0) sumK3A2 += Math.pow(K, 3) / Math.pow(sub.A, 2);
+    return { ...sub, K };
+  });
+
+  // alpha = sum(K_i^3 / A_i^2) / (K^3 / A^2); exactly 1 for a single subsection
+  const alpha = Kt > 0 && parts.length > 1 ? sumK3A2 / (Math.pow(Kt, 3) / Math.pow(At, 2)) : 1;
+  return { K: Kt, alpha, subsections };
+};
+
+// Discharge carried at depth y on slope S. For Darcy-Weisbach the Reynolds number
+// depends on Q itself, so Q = K(Q) sqrt(S) is iterated to a fixed point.
+export const getDischarge = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): number => {
+  const sqrtS = Math.sqrt(p.slope);
+  if (getFrictionLaw(p) !== 'DarcyWeisbach') return getConveyance(type, y, p, unit).K * sqrtS;
+
+  let Q = p.flowRate > 0 ? p.flowRate : 1;
+  for (let i = 0; i < MAX_ITER; i++) {
+    const next = getConveyance(type, y, { ...p, flowRate: Q }, unit).K * sqrtS;
+    const done = Math.abs(next - Q) <= TOLERANCE * next;
+    Q = next;
+    if (done) break;
+  }
+  return Q;
+};
+
+// --- Solvers ---
+
+const MAX_DEPTH = 1e4; // Bracket expansion stops here (length units)
+const NOT_SOLVED: SolverDiagnostics = { iterations: 0, residual: 0, converged: false };
+
+// Brent's method on a bracket [a, b] with f(a), f(b) of opposite sign.
+// Falls back to bisection whenever the interpolation step is not acceptable.
+const brentSolve = (f: (x: number) => number, a: number, b: number, tol: number = TOLERANCE): DepthSolution => {
+  let fa = f(a), fb = f(b);
+  if (fa * fb > 0) {
+    const best = Math.abs(fa) < Math.abs(fb) ? { x: a, fx: fa } : { x: b, fx: fb };
+    return { depth: best.x, iterations: 0, residual: best.fx, converged: false };
+  }
+  let c = b, fc = fb, d = b - a, e = d;
+
+  for (let iter = 1; iter <= MAX_ITER; iter++) {
+    if (fb * fc > 0) { c = a; fc = fa; d = b - a; e = d; }
+    if (Math.abs(fc) < Math.abs(fb)) { a = b; b = c; c = a; fa = fb; fb = fc; fc = fa; }
+
+    const tol1 = 2 * Number.EPSILON * Math.abs(b) + 0.5 * tol;
+    const xm = 0.5 * (c - b);
+    if (Math.abs(xm) <= tol1 || fb === 0) return { depth: b, iterations: iter, residual: fb, converged: true };
+
+    if (Math.abs(e) >= tol1 && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation (secant when only two points)
+      const s = fb / fa;
+      let p: number, q: number;
+      if (a === c) {
+        p = 2 * xm * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc, r = fb / fc;
+        p = s * (2 * xm * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+      if (2 * p < Math.min(3 * xm * q - Math.abs(tol1 * q), Math.abs(e * q))) { e = d; d = p / q; }
+      else { d = xm; e = d; }
+    } else {
+      d = xm; e = d;
+    }
+
+    a = b; fa = fb;
+    b += Math.abs(d) > tol1 ? d : (xm >= 0 ? tol1 : -tol1);
+    fb = f(b);
+  }
+  return { depth: b, iterations: MAX_ITER, residual: fb, converged: false };
+};
+
+// Find an upper depth where the increasing residual f turns positive, doubling from an initial guess
+// that must lie on the increasing branch. Closed conduits cannot grow past their crown.
+const bracketDepth = (f: (y: number) => number, limit: number | null, start: number = 1): number => {
+  if (limit !== null) return limit;
+  let hi = start;
+  while (f(hi) < 0 && hi < MAX_DEPTH) hi *= 2;
+  return hi;
+};
+
+// Depth of maximum conveyance of a closed conduit (about 0.938D for a circle), by golden-section search
+export const findMaxConveyanceDepth = (type: ChannelType, p: InputParams, unit: UnitSystem): number | null => {
+  const rise = getConduitRise(type, p);
+  if (rise === null || rise <= 0) return null;
+  const phi = (Math.sqrt(5) - 1) / 2;
+  let a = 0.5 * rise, b = rise;
+  for (let i = 0; i < MAX_ITER && b - a > TOLERANCE * rise; i++) {
+    const x1 = b - phi * (b - a);
+    const x2 = a + phi * (b - a);
+    if (getConveyance(type, x1, p, unit).K < getConveyance(type, x2, p, unit).K) a = x1;
+    else b = x2;
+  }
+  return (a + b) / 2;
+};
+
+// Normal depth: Q = K(y) * sqrt(S). Residual is relative to the required conveyance.
+// For closed conduits the lower root (below the conveyance peak) is returned; flows above
+// the maximum capacity come back unconverged at the crown.
+export const solveNormalDepth = (type: ChannelType, p: InputParams, unit: UnitSystem): DepthSolution => {
+  // Uniform flow needs a falling bed; on horizontal and adverse slopes the normal depth is unbounded
+  if (!(p.slope > 0)) return { ...NOT_SOLVED, depth: Infinity };
+  const target = p.flowRate / Math.sqrt(p.slope);
+  const f = (y: number) => y <= 0 ? -1 : getConveyance(type, y, p, unit).K / target - 1;
+
+  const yPeak = findMaxConveyanceDepth(type, p, unit);
+  const hi = bracketDepth(f, yPeak);
+  if (f(hi) < 0) {
+    return { depth: getConduitRise(type, p) ?? hi, iterations: 0, residual: f(hi), converged: false };
+  }
+  return brentSolve(f, 0, hi);
+};
+
+// Critical depth: alpha * Q^2 * T / (g * A^3) = 1. Residual is 1 - Fr^2.
+export const solveCriticalDepth = (type: ChannelType, p: InputParams, unit: UnitSystem): DepthSolution => {
+  const { G } = UNIT_CONSTANTS[unit];
+  const Q2 = Math.pow(p.flowRate, 2);
+  const f = (y: number) => {
+    if (y <= 0) return -1;
+    const geom = getGeometry(type, y, p);
+    if (geom.A <= 0) return -1;
+    const { alpha } = getConveyance(type, y, p, unit);
+    return 1 - (alpha * Q2 * geom.T) / (G * Math.pow(geom.A, 3));
+  };
+
+  const hi = bracketDepth(f, getConduitRise(type, p));
+  if (f(hi) < 0) return { depth: hi, iterations: 0, residual: f(hi), converged: false };
+  return brentSolve(f, 0, hi);
+};
+
+// --- Circular Pipe ---
+
+// Full-bore, peak and part-full state of a circular pipe at normal depth yn.
+// Between Qfull and Qmax the Manning curve gives two normal depths; above Qmax
+// the pipe surcharges and the friction slope must exceed the bed slope.
+const analyzePipe = (p: InputParams, yn: number, unit: UnitSystem): PipeFlowResult => {
+  const D = p.diameter;
+  const type = ChannelType.Circular;
+  const sqrtS = Math.sqrt(p.slope);
+  const Kfull = getConveyance(type, D, p, unit).K;
+  const Afull = getGeometry(type, D, p).A;
+  const yPeak = findMaxConveyanceDepth(type, p, unit) ?? D;
+  const fullFlow = getDischarge(type, D, p, unit);
+  const maxCapacity = getDischarge(type, yPeak, p, unit);
+  const surcharged = p.flowRate > maxCapacity;
+
+  let upperNormalDepth: number | undefined;
+  if (!surcharged && p.flowRate > fullFlow) {
+    const target = p.flowRate / sqrtS;
+    const upper = brentSolve(y => getConveyance(type, y, p, unit).K / target - 1, yPeak, D);
+    if (upper.converged) upperNormalDepth = upper.depth;
+  }
+
+  return {
+    fullFlow,
+    fullVelocity: fullFlow / Afull,
+    maxCapacity,
+    maxCapacityDepth: yPeak,
+    percentFull: surcharged ? 100 : (yn / D) * 100,
+    upperNormalDepth,
+    surcharged,
+    hydraulicGradient: surcharged ? Math.pow(p.flowRate / Kfull, 2) : undefined,
+  };
+};
+
+// Q/Qfull and V/Vfull against y/D at constant slope (includes composite roughness and the friction law)
+export const getPartFullRatios = (p: InputParams, unit: UnitSystem, samples: number = 50): PartFullRatio[] => {
+  const D = p.diameter;
+  const type = ChannelType.Circular;
+  if (D <= 0 || p.slope <= 0) return [];
+  const Qfull = getDischarge(type, D, p, unit);
+  const Afull = getGeometry(type, D, p).A;
+  if (!(Qfull > 0)) return [];
+
+  const ratios: PartFullRatio[] = [];
+  for (let i = 1; i <= samples; i++) {
+    const y = (i / samples) * D;
+    const A = getGeometry(type, y, p).A;
+    const flowRatio = getDischarge(type, y, p, unit) / Qfull;
+    ratios.push({ depthRatio: y / D, flowRatio, velocityRatio: A > 0 ? flowRatio * Afull / A : 0 });
+  }
+  return ratios;
+};
+
+type Regime = 'Subcritical' | 'Supercritical';
+
+// Far end of a branch bracket: above yc the root search expands upwards (to the crown of a
+// closed conduit), below yc it halves towards the invert until f changes sign
+const branchLimit = (type: ChannelType, p: InputParams, f: (y: number) => number, yc: number, from: number, regime: Regime): number => {
+    if (regime === 'Subcritical') return bracketDepth(f, getConduitRise(type, p), 2 * Math.max(from, yc));
+    let lo = Math.min(from, yc) / 2;
+    while (f(lo) * f(yc) > 0 && lo > 1e-6 * yc) lo /= 2;
+    return lo;
+};
+
+// Solve for depth given Specific Energy E (Subcritical or Supercritical root); null when E < Ec.
+// offset(y) adds a depth-dependent head to E(y), such as a junction loss.
+const solveDepthFromEnergy = (
+    type: ChannelType, p: InputParams, E: number, unit: UnitSystem, regime: Regime,
+    offset: (y: number) => number = () => 0
+): number | null => {
+    const yc = solveCriticalDepth(type, p, unit).depth;
+    const f = (y: number) => calculateSectionProperties(type, y, p, unit).specificEnergy + offset(y) - E;
+    if (f(yc) > 0) return null;
+    const sol = brentSolve(f, yc, branchLimit(type, p, f, yc, yc, regime));
+    return sol.converged ? sol.depth : null;
+};
+
+// Specific energy, friction slope, area and energy coefficient at one station
+const stationHead = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem) => {
+    const { K, alpha } = getConveyance(type, y, p, unit);
+    return {
+        E: calculateSectionProperties(type, y, p, unit).specificEnergy,
+        Sf: K > 0 ? Math.pow(p.flowRate / K, 2) : Infinity,
+        A: getGeometry(type, y, p).A,
+        alpha,
+        Q: p.flowRate,
+    };
+};
+
+type StationHead = ReturnType<typeof stationHead>;
+
+// Energy equation between stations a and b over a signed dx (positive downstream):
+// E_b - E_a = S0·dx - ½(Sf_a + Sf_b)·dx - hL. Lateral inflow enters without velocity along the
+// channel and is accelerated by the main flow at a cost of hL = α·Q̄·ΔQ/(g·Ā²); outflow
+// (offtakes, seepage) leaves at the channel velocity and costs no head.
+const stepResidual = (a: StationHead, b: StationHead, slope: number, dx: number, unit: UnitSystem): number => {
+    const { G } = UNIT_CONSTANTS[unit];
+    const dQ = b.Q - a.Q;
+    const hL = dQ / dx > 0 ? (0.5 * (a.alpha + b.alpha) * 0.5 * (a.Q + b.Q) * dQ) / (G * Math.pow(0.5 * (a.A + b.A), 2)) : 0;
+    return b.E - a.E - slope * dx + 0.5 * (a.Sf + b.Sf) * dx + hL;
+};
+
+// One standard step over a signed dx from y1 (section parameters p1, discharge included) to
+// the station with parameters p2 and critical depth yc, staying on its branch. Null when the
+// branch has no root, i.e. the profile would have to pass through critical depth inside the step.
+const standardStep = (
+    type: ChannelType, p1: InputParams, p2: InputParams, unit: UnitSystem, y1: number, dx: number, yc: number, regime: Regime
+): number | null => {
+    const s1 = stationHead(type, y1, p1, unit);
+    const f = (y: number) => stepResidual(s1, stationHead(type, y, p2, unit), p1.slope, dx, unit);
+    const far = branchLimit(type, p2, f, yc, y1, regime);
+    if (f(yc) * f(far) > 0) return null;
+    const sol = brentSolve(f, yc, far);
+    return sol.converged ? sol.depth : null;
+};
+
+interface ReachIntegration {
+    stations: { x: number; y: number }[]; // x: distance travelled from the starting end
+    steps: number;
+    status: ReachStatus;
+    energyError: number;
+}
+
+// Adaptive standard-step integration along one reach. Each step is checked against two half
+// steps; the step halves while the difference exceeds the tolerance and doubles when it is
+// well inside it. The profile stops cleanly when no depth on its branch satisfies the energy
+// equation even at the minimum step (critical depth reached) or when the step limit is hit.
+// dischargeAt gives Q against distance from the upstream end of the reach.
+const integrateReach = (
+    type: ChannelType, p: InputParams, unit: UnitSystem, y0: number, length: number, direction: 1 | -1,
+    options: ProfileSolverOptions, dischargeAt: (distance: number) => number
+): ReachIntegration => {
+    const paramsAt = (x: number): InputParams => ({ ...p, flowRate: dischargeAt(direction > 0 ? x : length - x) });
+    const criticalCache = new Map<number, number>();
+    const criticalAt = (q: InputParams): number => {
+        let yc = criticalCache.get(q.flowRate);
+        if (yc === undefined) {
+            yc = solveCriticalDepth(type, q, unit).depth;
+            criticalCache.set(q.flowRate, yc);
+        }
+        return yc;
+    };
+
+    const yc0 = criticalAt(paramsAt(0));
+    // A reach starting at critical depth leaves it on the branch that can continue in the computation direction
+    const regime: Regime = y0 < yc0 || (direction > 0 && y0 <= yc0 * (1 + TOLERANCE)) ? 'Supercritical' : 'Subcritical';
+    const rise = getConduitRise(type, p);
+    const step = (x: number, y: number, h: number) => {
+        const target = paramsAt(x + h);
+        return standardStep(type, paramsAt(x), target, unit, y, direction * h, criticalAt(target), regime);
+    };
+
+    const stations = [{ x: 0, y: y0 }];
+    let x = 0, y = y0, steps = 0;
+    let h = Math.min(options.maxStep, length);
+    let status: ReachStatus = 'Complete';
+
+    while (length - x > TOLERANCE * length) {
+        if (steps >= options.maxSteps) { status = 'StepLimit'; break; }
+        h = Math.min(h, length - x);
+        const full = step(x, y, h);
+        const mid = step(x, y, h / 2);
+        const half = mid === null ? null : step(x + h / 2, mid, h / 2);
+        const err = full === null || half === null ? Infinity : Math.abs(half - full);
+
+        if (err > options.tolerance && h > options.minStep) {
+            h = Math.max(options.minStep, h / 2);
+            continue;
+        }
+        if (half === null) {
+            const yc = criticalAt(paramsAt(x));
+            status = rise !== null && Math.abs(rise - y) < Math.abs(y - yc) ? 'Surcharged' : 'ReachedCritical';
+            break;
+        }
+        // At the minimum step the step is accepted even if the estimate is above tolerance
+        x += h;
+        y = half;
+        steps++;
+        stations.push({ x, y });
+        if (err < options.tolerance / 4) h = Math.min(options.maxStep, 2 * h);
+    }
+
+    // Energy balance over the stored stations: head change against trapezoidal friction loss
+    let energyError = 0;
+    for (let i = 1; i < stations.length; i++) {
+        const a = stationHead(type, stations[i - 1].y, paramsAt(stations[i - 1].x), unit);
+        const b = stationHead(type, stations[i].y, paramsAt(stations[i].x), unit);
+        energyError += Math.abs(stepResidual(a, b, p.slope, direction * (stations[i].x - stations[i - 1].x), unit));
+    }
+
+    return { stations, steps, status, energyError };
+};
+
+
+// --- Multi-Reach Profile Calculation ---
+
+// A reach with its slope, bed levels at both ends and the shape and parameters that apply to it
+type ProfileSection = CanalSectionInput & { slope: number; type: ChannelType; params: InputParams; zUp: number; zDown: number };
+
+// Reach shape and parameters: the calculator values overlaid with the reach's own. Another
+// shape cannot reuse the calculator's survey, overbanks or lining, and a reach n implies Manning.
+export const resolveReachSection = (type: ChannelType, baseParams: InputParams, s: CanalSectionInput): { type: ChannelType; params: InputParams } => {
+    const reachType = s.channelType ?? type;
+    const params: InputParams = { ...baseParams, ...s.geometry };
+    if (reachType !== type) {
+        params.surveyPoints = undefined;
+        params.leftOverbank = undefined;
+        params.rightOverbank = undefined;
+        params.leftSideSlope = undefined;
+        params.rightSideSlope = undefined;
+        params.compositeRoughness = undefined;
+    }
+    if (s.geometry?.sideSlope !== undefined) {
+        // The reach's side slope replaces asymmetric slopes carried over from the calculator
+        params.leftSideSlope = undefined;
+        params.rightSideSlope = undefined;
+    }
+    if (s.geometry?.manningN !== undefined) {
+        params.compositeRoughness = undefined;
+        params.frictionLaw = 'Manning';
+    }
+    return { type: reachType, params };
+};
+
+interface PassStation {
+    distance: number; // Local distance from the upstream end of the section
+    depth: number;
+}
+
+interface ProfilePass {
+    stations: PassStation[][]; // Per section index, sorted by distance
+    reaches: ReachSummary[];
+    structures: StructureResult[]; // Structures passed by the sweep, with the tailwater it found
+}
+
+// Discharge against distance from the upstream end of each section
+interface DischargeNode {
+    distance: number;
+    discharge: number;
+}
+
+const DISCHARGE_SEGMENTS = 50; // Integration intervals per reach with distributed inflow or seepage
+const SEEPAGE_ITERATIONS = 5; // Depth-dependent seepage: discharge and profile are solved alternately
+const SEEPAGE_TOLERANCE = 1e-4; // Largest discharge change between passes, relative to the inflow
+
+// Seepage loss per unit length at depth y (see SeepageMethod); coefficients are per day
+const seepageLoss = (type: ChannelType, p: InputParams, y: number, s: CanalSectionInput, unit: UnitSystem): number => {
+    const C = s.seepageCoefficient ?? 0;
+    if (!s.seepage || s.seepage === 'None' || !(C > 0) || !(y > 0)) return 0;
+    const geom = getGeometry(type, y, p);
+    if (s.seepage === 'WettedPerimeter') return (C / 86400) * geom.P;
+    if (!(geom.A > 0) || !(p.flowRate > 0)) return 0;
+    const V = p.flowRate / geom.A;
+    return unit === 'SI'
+        ? (0.0375 * C * Math.sqrt(p.flowRate / V)) / 1000
+        : (0.2 * C * Math.sqrt(p.flowRate / V)) / 5280;
+};
+
+const hasSeepage = (s: CanalSectionInput) => s.seepage !== undefined && s.seepage !== 'None' && (s.seepageCoefficient ?? 0) > 0;
+
+// Discharge along every section for a depth estimate: point inflows step Q at the upstream end of
+// a reach, lateral inflow and seepage change it continuously (Heun's method). exhausted is the
+// first section in which the flow runs out.
+const buildDischargeTable = (
+    sections: ProfileSection[], inflow: number, unit: UnitSystem, depthAt: (idx: number, distance: number) => number
+): { nodes: DischargeNode[][]; exhausted: number | null } => {
+    const nodes: DischargeNode[][] = sections.map(() => []);
+    let Q = inflow;
+    for (let i = 0; i < sections.length; i++) {
+        const s = sections[i];
+        Q += s.pointInflow ?? 0;
+        nodes[i].push({ distance: 0, discharge: Q });
+        if (!(Q > 0)) return { nodes, exhausted: i };
+
+        const n = (s.lateralInflow ?? 0) !== 0 || hasSeepage(s) ? DISCHARGE_SEGMENTS : 1;
+        const dx = s.length / n;
+        const rate = (x: number, q: number) =>
+            (s.lateralInflow ?? 0) - seepageLoss(s.type, { ...s.params, flowRate: q }, depthAt(i, x), s, unit);
+        for (let k = 0; k < n; k++) {
+            const x = k * dx;
+            const k1 = rate(x, Q);
+            const k2 = rate(x + dx, Q + k1 * dx);
+            Q += 0.5 * (k1 + k2) * dx;
+            nodes[i].push({ distance: x + dx, discharge: Q });
+            if (!(Q > 0)) return { nodes, exhausted: i };
+        }
+    }
+    return { nodes, exhausted: null };
+};
+
+// Linear interpolation in one section's discharge table, held constant beyond its ends
+const dischargeAt = (nodes: DischargeNode[], x: number): number => {
+    const k = nodes.findIndex(nd => nd.distance >= x);
+    if (k < 0) return nodes[nodes.length - 1].discharge;
+    if (k === 0) return nodes[0].discharge;
+    const a = nodes[k - 1], b = nodes[k];
+    return a.discharge + ((x - a.distance) / (b.distance - a.distance)) * (b.discharge - a.discharge);
+};
+
+const withDischarge = (p: InputParams, Q: number): InputParams => ({ ...p, flowRate: Q });
+
+// --- Inline Structures ---
+
+const VILLEMONTE_EXPONENT = 1.5; // Sharp-crested weir: Qs/Q = (1 - (h2/H)^1.5)^0.385
+const ORIFICE_CD = 0.62; // Culvert inlet running full
+
+// Inputs that the structure equations divide by or raise to a power; null when all are usable
+const structureInputError = (st: StructureInput, reachN: number): string | null => {
+    const positive = (value: number | undefined, label: string) => value !== undefined && value > 0 ? null : `${label} must be positive.`;
+    switch (st.type) {
+        case 'BroadCrestedWeir':
+        case 'SharpCrestedWeir':
+            return positive(st.width, 'Crest length') ?? positive(st.coefficient, 'Cd')
+                ?? ((st.height ?? 0) < 0 ? 'Crest height cannot be negative.' : null);
+        case 'SluiceGate':
+            return positive(st.width, 'Gate width') ?? positive(st.opening, 'Gate opening') ?? positive(st.coefficient, 'Cc');
+        case 'Culvert':
+            return positive(st.width, 'Culvert diameter') ?? positive(st.length, 'Barrel length') ?? positive(st.manningN ?? reachN, 'Barrel n')
+                ?? positive(st.coefficient, 'Entrance Ke');
+        case 'Drop':
+            return null;
+    }
+};
+
+// Structure at the downstream end of section idx for a given tailwater depth (null when no
+// profile reaches it from downstream). Each type turns Q into the specific energy it needs
+// upstream; the upstream depth then follows on the subcritical branch of the upstream reach.
+// Heads are taken above the crest (or sill, or invert) and include the approach velocity head.
+const solveStructure = (
+    sections: ProfileSection[], flows: DischargeNode[][], idx: number, tailwater: number | null, unit: UnitSystem
+): StructureResult => {
+    const { G, K } = UNIT_CONSTANTS[unit];
+    const up = sections[idx], down = sections[idx + 1];
+    const st = up.structure!;
+    const Q = dischargeAt(flows[idx], up.length);
+    const pUp = withDischarge(up.params, Q);
+    const pDown = withDischarge(down.params, dischargeAt(flows[idx + 1], 0));
+    const zU = up.zDown, zD = down.zUp;
+    const twLevel = tailwater === null ? null : zD + tailwater;
+    const b = st.width ?? 0;
+    const Cd = st.coefficient ?? 0;
+    const ycUp = solveCriticalDepth(up.type, pUp, unit).depth;
+    const EcUp = calculateSectionProperties(up.type, ycUp, pUp, unit).specificEnergy;
+    const E3 = tailwater === null ? null : calculateSectionProperties(down.type, tailwater, pDown, unit).specificEnergy;
+    // Upstream energy that just carries the tailwater energy across the junction
+    const Ecarry = E3 === null ? null : E3 + zD - zU;
+
+    let E1: number;
+    let flow: StructureFlow = 'Free';
+    let submergence: number | null = null;
+    let invert = zU;
+    let top: number | undefined;
+    let jet: number | null | undefined; // undefined: from the energy level E1
+
+    switch (st.type) {
+        case 'BroadCrestedWeir':
+        case 'SharpCrestedWeir': {
+            const P = st.height ?? 0;
+            invert = zU + P;
+            // Free flow: broad crest passes critical depth, Q = Cd·b·(2/3)^1.5·√g·H^1.5;
+            // sharp crest Q = Cd·(2/3)·√(2g)·b·H^1.5
+            const broad = st.type === 'BroadCrestedWeir';
+            const coef = broad ? Cd * b * Math.pow(2 / 3, 1.5) * Math.sqrt(G) : Cd * (2 / 3) * Math.sqrt(2 * G) * b;
+            const qFree = (H: number) => coef * Math.pow(H, 1.5);
+            let H = Math.pow(Q / coef, 2 / 3);
+            const h2 = twLevel === null ? 0 : twLevel - invert;
+            if (broad && h2 > (2 / 3) * H) {
+                // Drowned crest: depth on the crest equals the tailwater head, Q = Cd·b·h2·√(2g(H - h2))
+                H = h2 + Math.pow(Q / (Cd * b * h2), 2) / (2 * G);
+                flow = 'Submerged';
+            } else if (!broad && h2 > 0) {
+                const f = (h: number) => (qFree(h) * Math.pow(1 - Math.pow(h2 / h, VILLEMONTE_EXPONENT), 0.385)) / Q - 1;
+                const hi = bracketDepth(f, null, 2 * Math.max(h2, H));
+                H = brentSolve(f, h2 * (1 + TOLERANCE), hi).depth;
+                flow = 'Submerged';
+            }
+            submergence = h2 > 0 ? h2 / H : 0;
+            E1 = P + H;
+            break;
+        }
+        case 'SluiceGate': {
+            // Vena contracta Cc·a; a submerged jet carries a drowned layer y_s whose depth follows
+            // from momentum between the vena contracta and the tailwater (rectangular, width b)
+            const a = st.opening ?? 0;
+            const q = Q / b;
+            const yv = Cd * a;
+            const yt = twLevel === null ? null : twLevel - zU;
+            const conjugate = (yv / 2) * (Math.sqrt(1 + (8 * q * q) / (G * Math.pow(yv, 3))) - 1);
+            let ys = yv;
+            if (yt !== null && yt > conjugate) {
+                ys = Math.sqrt(yt * yt + ((2 * q * q) / G) * (1 / yt - 1 / yv));
+                flow = 'Submerged';
+            }
+            submergence = yt === null ? null : yt / conjugate;
+            E1 = ys + (q * q) / (2 * G * yv * yv);
+            top = zU + a;
+            break;
+        }
+        case 'Drop': {
+            // Critical depth at the brink unless the tailwater drowns it; the falling jet lands at
+            // Rand's depth y1 = 0.54·D^0.425·Δz with drop number D = q²/(g·Δz³)
+            const dz = zU - zD;
+            if (!(dz > 0)) {
+                flow = 'Inactive';
+                E1 = Math.max(EcUp, Ecarry ?? 0);
+                jet = null;
+                break;
+            }
+            const q = Q / getGeometry(up.type, ycUp, pUp).T;
+            const D = (q * q) / (G * Math.pow(dz, 3));
+            const y2 = 1.66 * Math.pow(D, 0.27) * dz;
+            jet = 0.54 * Math.pow(D, 0.425) * dz;
+            submergence = tailwater === null ? null : tailwater / y2;
+            E1 = EcUp;
+            if (Ecarry !== null && Ecarry > EcUp) {
+                E1 = Ecarry;
+                flow = 'Submerged';
+            }
+            break;
+        }
+        case 'Culvert': {
+            // Circular barrel; the headwater is the larger of inlet control (critical depth at the
+            // entrance, or an orifice once that would not fit) and outlet control (full-barrel losses
+            // from the outlet level, the tailwater or (yc + D)/2). A tailwater above the crown drowns
+            // the outlet; otherwise an inlet-controlled barrel leaves a jet with the headwater energy
+            // less the entrance and friction losses.
+            const Dc = b;
+            const L = st.length ?? 0;
+            const n = st.manningN ?? up.params.manningN;
+            const barrel: InputParams = {
+                ...pUp, diameter: Dc, manningN: n, frictionLaw: 'Manning', compositeRoughness: undefined,
+                surveyPoints: undefined, leftOverbank: undefined, rightOverbank: undefined,
+            };
+            const Afull = (Math.PI * Dc * Dc) / 4;
+            const V = Q / Afull;
+            const yc = solveCriticalDepth(ChannelType.Circular, barrel, unit);
+            const Vc = Q / getGeometry(ChannelType.Circular, yc.depth, barrel).A;
+            const Ec = yc.depth + (Vc * Vc) / (2 * G);
+            const inlet = yc.converged && Ec <= Dc
+                ? Ec + (Cd * Vc * Vc) / (2 * G)
+                : Math.max(Dc, Dc / 2 + Math.pow(Q / (ORIFICE_CD * Afull), 2) / (2 * G));
+            const friction = (2 * G * n * n * L) / (K * K * Math.pow(Dc / 4, 4 / 3));
+            const outletLevel = Math.max(tailwater ?? 0, (Math.min(yc.depth, Dc) + Dc) / 2);
+            const outlet = outletLevel + ((1 + Cd + friction) * V * V) / (2 * G) - (zU - zD);
+            const drowned = tailwater !== null && tailwater > Dc;
+            flow = drowned || outlet >= inlet ? 'OutletControl' : 'InletControl';
+            submergence = tailwater === null ? null : tailwater / Dc;
+            E1 = Math.max(inlet, outlet);
+            top = zU + Dc;
+            jet = flow === 'OutletControl' ? null : solveDepthFromEnergy(
+                down.type, pDown, Math.max(E1, EcUp) + zU - zD - ((Cd + friction) * V * V) / (2 * G), unit, 'Supercritical');
+            break;
+        }
+    }
+
+    // The structure cannot hold the upstream level below what carries the tailwater through
+    if (Ecarry !== null && Ecarry > E1 && flow !== 'Inactive') {
+        E1 = Ecarry;
+        flow = st.type === 'Culvert' ? 'OutletControl' : 'Submerged';
+    }
+    // Critical depth stands in only for an energy below critical, not for a head that is not finite
+    const error = isFinite(E1) ? undefined : 'the structure equation gives no finite upstream head for this flow.';
+    let upstreamDepth = error ? ycUp : solveDepthFromEnergy(up.type, pUp, E1, unit, 'Subcritical') ?? ycUp;
+    if (!error && st.type === 'SluiceGate' && upstreamDepth <= (st.opening ?? 0)) {
+        // Gate clear of the water: an ordinary junction
+        flow = 'Inactive';
+        E1 = Ecarry ?? EcUp;
+        upstreamDepth = solveDepthFromEnergy(up.type, pUp, E1, unit, 'Subcritical') ?? ycUp;
+    }
+
+    const free = flow === 'Free' || flow === 'InletControl';
+    let jetDepth: number | null = null;
+    if (free) {
+        const ycDown = solveCriticalDepth(down.type, pDown, unit).depth;
+        const y = jet !== undefined ? jet : solveDepthFromEnergy(down.type, pDown, Math.max(E1, EcUp) + zU - zD, unit, 'Supercritical');
+        jetDepth = y !== null && y < ycDown ? y : null;
+    }
+
+    return {
+        sectionIndex: idx,
+        type: st.type,
+        distance: up.length,
+        flow,
+        upstreamDepth,
+        upstreamEnergy: Math.max(E1, EcUp),
+        tailwaterDepth: tailwater,
+        jetDepth,
+        submergence,
+        headLoss: E3 === null ? null : zU + Math.max(E1, EcUp) - (zD + E3),
+        invertElevation: invert,
+        topElevation: top,
+        upstreamBedElevation: zU,
+        downstreamBedElevation: zD,
+        error,
+    };
+};
+
+// HEC-22 bend loss coefficient per degree of deflection
+const BEND_LOSS_PER_DEGREE = 0.0033;
+
+// Local loss across a junction from the velocities either side of it: Kc or Ke on the change in
+// velocity head, the bend and fixed coefficients on the downstream velocity head
+const junctionLossTerms = (loss: JunctionLossInput, upstreamVelocity: number, downstreamVelocity: number, unit: UnitSystem) => {
+    const { G } = UNIT_CONSTANTS[unit];
+    const dV2 = downstreamVelocity * downstreamVelocity - upstreamVelocity * upstreamVelocity;
+    const downstreamHead = (downstreamVelocity * downstreamVelocity) / (2 * G);
+    const transitionLoss = ((dV2 > 0 ? loss.contractionCoeff : loss.expansionCoeff) ?? 0) * Math.abs(dV2) / (2 * G);
+    const bendLoss = BEND_LOSS_PER_DEGREE * Math.abs(loss.bendAngle ?? 0) * downstreamHead;
+    const fixedLoss = (loss.fixedK ?? 0) * downstreamHead;
+    return { transitionLoss, bendLoss, fixedLoss, totalLoss: transitionLoss + bendLoss + fixedLoss };
+};
+
+// Starting depth of a control in the first reach it governs
+const controlDepth = (type: ChannelType, p: InputParams, control: ControlCondition, unit: UnitSystem): number => {
+    if (control.type === 'NormalDepth') return solveNormalDepth(type, p, unit).depth;
+    if (control.type === 'CriticalDepth') return solveCriticalDepth(type, p, unit).depth;
+    return control.value;
+};
+
+// One sweep through all sections from a control: direction -1 runs upstream from the downstream
+// end (backwater), +1 runs downstream from the upstream end. With forceRegime the start is
+// clamped to the branch that can be computed in that direction (subcritical upstream,
+// supercritical downstream), as needed when two sweeps are combined.
+// Structures restart the sweep: upstream with the level they hold, downstream with their free
+// jet (none when submerged). Without a control the sweep starts at the first structure.
+// known holds structures already solved by the backwater sweep, whose tailwater decides
+// whether a jet leaves them.
+const computePass = (
+    sections: ProfileSection[], flows: DischargeNode[][], control: ControlCondition | undefined,
+    direction: 1 | -1, unit: UnitSystem, options: ProfileSolverOptions, forceRegime: boolean,
+    known: StructureResult[] = []
+): ProfilePass => {
+    const isUpstreamCalc = direction < 0;
+    const stations: PassStation[][] = sections.map(() => []);
+    const reaches: ReachSummary[] = [];
+    const structures: StructureResult[] = [];
+
+    // If Upstream Calc (Backwater): Process Last Section -> First Section
+    // If Downstream Calc: Process First Section -> Last Section
+    const processingOrder = isUpstreamCalc 
+        ? [...sections].reverse().map((s, idx) => ({ s, originalIdx: sections.length - 1 - idx }))
+        : sections.map((s, idx) => ({ s, originalIdx: idx }));
+
+    let currentDepth: number | null = null; // Null while no profile has been started
+    let previousStopped = false;
+
+    for (let i = 0; i < processingOrder.length; i++) {
+        const { s, originalIdx } = processingOrder[i];
+        const { type } = s;
+        // Parameters carry the discharge at the end the sweep enters from
+        const sectionParams = withDischarge(s.params, dischargeAt(flows[originalIdx], isUpstreamCalc ? s.length : 0));
+        const yc = solveCriticalDepth(type, sectionParams, unit).depth;
+        let junctionChoked = false;
+        // Structure between this reach and the one processed before it
+        const structureIdx = isUpstreamCalc ? originalIdx : originalIdx - 1;
+
+        if (i === 0) {
+            currentDepth = control ? controlDepth(type, sectionParams, control, unit) : null;
+            if (currentDepth !== null && forceRegime) currentDepth = isUpstreamCalc ? Math.max(currentDepth, yc) : Math.min(currentDepth, yc);
+        } else if (sections[structureIdx].structure) {
+            if (isUpstreamCalc) {
+                const result = solveStructure(sections, flows, structureIdx, previousStopped ? null : currentDepth, unit);
+                structures.push(result);
+                currentDepth = result.upstreamDepth;
+            } else {
+                const result = known.find(r => r.sectionIndex === structureIdx) ?? solveStructure(sections, flows, structureIdx, null, unit);
+                structures.push(result);
+                currentDepth = result.jetDepth;
+            }
+        } else if (currentDepth === null) {
+            // Nothing upstream (or downstream) of this junction has been computed yet
+        } else if (previousStopped) {
+            // The previous reach passed through critical depth (or gave up) before reaching this
+            // junction, so the junction acts as a critical control for this reach
+            currentDepth = yc;
+        } else {
+            // Elevations at the junction
+            // If moving Upstream (Backwater): Junction is (Prev Upstream) <-> (Curr Downstream)
+            // If moving Downstream: Junction is (Prev Downstream) <-> (Curr Upstream)
+            const { s: prevSec, originalIdx: prevIdx } = processingOrder[i - 1];
+            const prevParams = withDischarge(prevSec.params, dischargeAt(flows[prevIdx], isUpstreamCalc ? 0 : prevSec.length));
+            const z_prev_end = isUpstreamCalc ? prevSec.zUp : prevSec.zDown;
+            const z_curr_start = isUpstreamCalc ? s.zDown : s.zUp;
+
+            // Energy Balance: E_up + z_up = E_down + z_down + hL, each side in its own section with its
+            // own discharge (a point inflow or offtake changes Q across the junction), keeping the
+            // regime the previous reach ended in. The local loss hL depends on the velocity being
+            // solved for, so it goes into the root function. If no depth balances the junction
+            // chokes and the reach starts at critical depth.
+            const prevProps = calculateSectionProperties(prevSec.type, currentDepth, prevParams, unit);
+            const E_req = prevProps.specificEnergy + z_prev_end - z_curr_start;
+            const loss = sections[structureIdx].junctionLoss;
+            const hL = (y: number) => {
+                if (!loss) return 0;
+                const V = calculateSectionProperties(type, y, sectionParams, unit).velocity;
+                return isUpstreamCalc
+                    ? -junctionLossTerms(loss, V, prevProps.velocity, unit).totalLoss
+                    : junctionLossTerms(loss, prevProps.velocity, V, unit).totalLoss;
+            };
+            const regime: Regime = currentDepth >= solveCriticalDepth(prevSec.type, prevParams, unit).depth ? 'Subcritical' : 'Supercritical';
+            const y = solveDepthFromEnergy(type, sectionParams, E_req, unit, regime, hL);
+            junctionChoked = y === null;
+            currentDepth = y ?? yc;
+        }
+
+        if (currentDepth === null) {
+            previousStopped = false;
+            continue;
+        }
+
+        // If UpstreamCalc: travel from x_local = L back to 0
+        // If DownstreamCalc: travel from x_local = 0 to L
+        const run = integrateReach(type, s.params, unit, currentDepth, s.length, direction, options, x => dischargeAt(flows[originalIdx], x));
+        const last = run.stations[run.stations.length - 1];
+
+        reaches.push({
+            sectionIndex: originalIdx,
+            direction: isUpstreamCalc ? 'Upstream' : 'Downstream',
+            steps: run.steps,
+            startDepth: currentDepth,
+            endDepth: last.y,
+            energyError: run.energyError,
+            status: run.status,
+            stopDistance: run.status === 'Complete' ? undefined : (isUpstreamCalc ? s.length - last.x : last.x),
+            junctionChoked,
+        });
+
+        const local = run.stations.map(st => ({ distance: isUpstreamCalc ? s.length - st.x : st.x, depth: st.y }));
+        stations[originalIdx] = isUpstreamCalc ? local.reverse() : local;
+
+        currentDepth = last.y;
+        previousStopped = run.status !== 'Complete';
+    }
+
+    return { stations, reaches, structures };
+};
+
+// Linear interpolation of a sweep inside the stretch it covers
+const passDepthAt = (stations: PassStation[], x: number): number | null => {
+    if (stations.length === 0) return null;
+    const eps = TOLERANCE * Math.max(1, Math.abs(x));
+    if (x < stations[0].distance - eps || x > stations[stations.length - 1].distance + eps) return null;
+    const k = stations.findIndex(st => st.distance >= x - eps);
+    if (k <= 0) return stations[0].depth;
+    const a = stations[k - 1], b = stations[k];
+    const t = b.distance > a.distance ? (x - a.distance) / (b.distance - a.distance) : 1;
+    return a.depth + t * (b.depth - a.depth);
+};
+
+type JumpCandidate = Omit<ProfileJump, 'bedElevation'>;
+
+// Merge a supercritical (downstream) and a subcritical (upstream) sweep. Where both exist the
+// one with the larger specific force controls; the hydraulic jump forms where control passes
+// from the supercritical to the subcritical profile, located at M_sup = M_sub.
+const combinePasses = (
+    sections: ProfileSection[], flows: DischargeNode[][], sup: ProfilePass, sub: ProfilePass, unit: UnitSystem
+): { stations: PassStation[][]; jumps: JumpCandidate[] } => {
+    const stations: PassStation[][] = sections.map(() => []);
+    const jumps: JumpCandidate[] = [];
+    let previous: 'sup' | 'sub' | null = null;
+
+    sections.forEach((s, idx) => {
+        const { type } = s;
+        const paramsAt = (x: number) => withDischarge(s.params, dischargeAt(flows[idx], x));
+        const M = (y: number, x: number) => calculateSectionProperties(type, y, paramsAt(x), unit).specificForce;
+        const xs = Array.from(new Set([...sup.stations[idx], ...sub.stations[idx]].map(st => st.distance))).sort((a, b) => a - b);
+
+        const addJump = (distance: number, y1: number, y2: number) => {
+            const result = calculateHydraulicJump(type, y1, paramsAt(distance), unit);
+            if (!result.error) jumps.push({ ...result, distance, sectionIndex: idx, downstreamDepth: y2 });
+        };
+
+        let prev: { x: number; ySup: number | null; ySub: number | null; dM: number | null } | null = null;
+        xs.forEach(x => {
+            const ySup = passDepthAt(sup.stations[idx], x);
+            const ySub = passDepthAt(sub.stations[idx], x);
+            if (ySup === null && ySub === null) return;
+            const dM = ySup !== null && ySub !== null ? M(ySup, x) - M(ySub, x) : null;
+            const choice = dM !== null ? (dM > 0 ? 'sup' : 'sub') : ySup !== null ? 'sup' : 'sub';
+            const depth = (choice === 'sup' ? ySup : ySub) as number;
+
+            if (previous === 'sup' && choice === 'sub' && ySub !== null) {
+                if (prev && prev.dM !== null && dM !== null && prev.ySup !== null && prev.ySub !== null && ySup !== null) {
+                    // Toe where the specific forces balance, between the last two stations
+                    const t = prev.dM / (prev.dM - dM);
+                    const xj = prev.x + t * (x - prev.x);
+                    const y1 = prev.ySup + t * (ySup - prev.ySup);
+                    const y2 = prev.ySub + t * (ySub - prev.ySub);
+                    stations[idx].push({ distance: xj, depth: y1 }, { distance: xj, depth: y2 });
+                    addJump(xj, y1, y2);
+                } else {
+                    const y1 = ySup ?? prev?.ySup ?? null;
+                    if (y1 !== null) {
+                        stations[idx].push({ distance: x, depth: y1 });
+                        addJump(x, y1, ySub);
+                    }
+                }
+            }
+            stations[idx].push({ distance: x, depth });
+            prev = { x, ySup, ySub, dM };
+            previous = choice;
+        });
+    });
+
+    return { stations, jumps };
+};
+
+const CRITICAL_SLOPE_BAND = 0.01; // |yn - yc| within 1% of yc counts as a critical slope
+const UNIFORM_BAND = 0.005; // Depths within 0.5% of yn count as uniform flow
+
+// Slope category from the bed slope and, on falling beds, the order of yn and yc
+const classifySlope = (slope: number, yn: number | null, yc: number): SlopeClass => {
+    if (Math.abs(slope) < 1e-9) return 'Horizontal';
+    if (slope < 0) return 'Adverse';
+    if (yn === null) return 'Mild'; // Conduit cannot carry Q at uniform flow: yn lies above the crown
+    if (Math.abs(yn - yc) <= CRITICAL_SLOPE_BAND * yc) return 'Critical';
+    return yn > yc ? 'Mild' : 'Steep';
+};
+
+// Zone 1 lies above both yn and yc, zone 2 between them, zone 3 below both
+const profileZone = (slopeClass: SlopeClass, y: number, yn: number | null, yc: number): GvfProfileType => {
+    if (yn !== null && Math.abs(y - yn) <= UNIFORM_BAND * yn) return 'Uniform';
+    switch (slopeClass) {
+        case 'Mild': return yn !== null && y > yn ? 'M1' : y >= yc ? 'M2' : 'M3';
+        case 'Steep': return y >= yc ? 'S1' : yn !== null && y > yn ? 'S2' : 'S3';
+        case 'Critical': return y >= yc ? 'C1' : 'C3';
+        case 'Horizontal': return y >= yc ? 'H2' : 'H3';
+        case 'Adverse': return y >= yc ? 'A2' : 'A3';
+    }
+};
+
+interface ClassifiedStation {
+    distance: number;
+    depth: number;
+    yn: number | null; // At the station's own discharge
+    yc: number;
+}
+
+// Consecutive stations of the same zone form one segment; zero-length pieces (jump toes,
+// critical control points) are dropped unless they are all the reach has. The slope category
+// is taken at the upstream end; zones use each station's own yn and yc.
+const classifyReach = (sectionIndex: number, slope: number, points: ClassifiedStation[]): ReachClassification => {
+    const { yn, yc } = points[0];
+    const slopeClass = classifySlope(slope, yn, yc);
+    const raw: ProfileSegment[] = [];
+    points.forEach(pt => {
+        const type = profileZone(slopeClass, pt.depth, pt.yn, pt.yc);
+        const last = raw[raw.length - 1];
+        if (last && last.type === type) last.end = pt.distance;
+        else raw.push({ type, start: last ? last.end : pt.distance, end: pt.distance });
+    });
+    const kept = raw.filter(seg => seg.end > seg.start);
+    const segments: ProfileSegment[] = [];
+    (kept.length > 0 ? kept : raw.slice(0, 1)).forEach(seg => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === seg.type) last.end = seg.end;
+        else segments.push({ ...seg });
+    });
+    return { sectionIndex, slope, slopeClass, normalDepth: yn, criticalDepth: yc, segments };
+};
+
+// If Mode=Elevation, calculate Slope.
+const sectionSlopes = (sections: CanalSectionInput[]): number[] =>
+    sections.map(s => s.inputMode === 'Elevation' ? (s.usElevation - s.dsElevation) / s.length : s.slope);
+
+// Bed levels at both ends of each section. Sections with elevations keep them; sections given
+// by slope attach to their neighbours (forward, then backward), stepping down by the fall of a
+// drop structure between them. The head sits at the datum if nothing fixes the levels.
+const resolveBedLevels = (sections: CanalSectionInput[], datum: number = 100): { zUp: number[]; zDown: number[] } => {
+  const slopes = sectionSlopes(sections);
+  const fall = (i: number) => sections[i].structure?.type === 'Drop' ? sections[i].structure!.height ?? 0 : 0;
+  const zUp: (number | null)[] = sections.map(s => s.inputMode === 'Elevation' ? s.usElevation : null);
+  const zDown: (number | null)[] = sections.map(s => s.inputMode === 'Elevation' ? s.dsElevation : null);
+  if (zUp.every(z => z === null)) zUp[0] = datum;
+  for (let i = 0; i < sections.length; i++) {
+      if (zUp[i] === null && i > 0 && zDown[i - 1] !== null) zUp[i] = zDown[i - 1]! - fall(i - 1);
+      if (zUp[i] !== null && zDown[i] === null) zDown[i] = zUp[i]! - slopes[i] * sections[i].length;
+  }
+  for (let i = sections.length - 1; i >= 0; i--) {
+      if (zDown[i] === null && i < sections.length - 1 && zUp[i + 1] !== null) zDown[i] = zUp[i + 1]! + fall(i);
+      if (zDown[i] !== null && zUp[i] === null) zUp[i] = zDown[i]! + slopes[i] * sections[i].length;
+  }
+  return { zUp: zUp as number[], zDown: zDown as number[] };
+};
+
+// Head losses down the canal: friction by the trapezoidal rule between stations of a reach;
+// the head dropped across a junction, a structure or a jump (toe and heel share a chainage)
+// counts as local loss. Points must be sorted by chainage.
+const accumulateHeadLosses = (points: ProfilePoint[]) => {
+  for (let k = 1; k < points.length; k++) {
+      const a = points[k - 1], b = points[k];
+      const dx = b.distance - a.distance;
+      const local = a.sectionIndex !== b.sectionIndex || dx <= TOLERANCE * Math.max(1, a.distance);
+      b.frictionLoss = a.frictionLoss + (local ? 0 : 0.5 * (a.frictionSlope + b.frictionSlope) * dx);
+      b.localLoss = a.localLoss + (local ? a.totalHead - b.totalHead : 0);
+  }
+};
+
+export const calculateMultiReachProfile = (
+  type: ChannelType, 
+  baseParams: InputParams, 
+  sections: CanalSectionInput[], 
+  bc: BoundaryCondition,
+  unit: UnitSystem,
+  options: ProfileSolverOptions = DEFAULT_PROFILE_OPTIONS
+): ProfileResult => {
+  // 1. Prepare Section Params (Slopes, Shape)
+  const slopes = sectionSlopes(sections);
+  const { zUp, zDown } = resolveBedLevels(sections);
+
+  // A structure or junction loss needs a reach on each side, so one at the end of the last reach is ignored
+  const computedSections: ProfileSection[] = sections.map((s, i) => {
+      const slope = slopes[i];
+      const reach = resolveReachSection(type, baseParams, s);
+      return {
+          ...s, slope, type: reach.type, params: { ...reach.params, slope },
+          zUp: zUp[i], zDown: zDown[i],
+          structure: i < sections.length - 1 ? s.structure : undefined,
+          junctionLoss: i < sections.length - 1 ? s.junctionLoss : undefined,
+      };
+  });
+
+  // Uniform flow needs a falling bed, so a normal-depth control needs a positive slope in its reach
+  const ends = [
+      { control: bc.upstream, section: computedSections[0], label: 'upstream' },
+      { control: bc.downstream, section: computedSections[computedSections.length - 1], label: 'downstream' },
+  ];
+  for (const { control, section, label } of ends) {
+      if (control?.type === 'NormalDepth' && !(section.slope > 0)) {
+          return { points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [], error: `Normal depth is undefined at the ${label} end: the bed there is ${section.slope < 0 ? 'adverse' : 'horizontal'}.` };
+      }
+  }
+  const negativeLoss = computedSections.findIndex(s => s.junctionLoss && [s.junctionLoss.contractionCoeff, s.junctionLoss.expansionCoeff, s.junctionLoss.fixedK].some(k => (k ?? 0) < 0));
+  if (negativeLoss >= 0) {
+      return { points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [], error: `Loss coefficients at the end of reach ${negativeLoss + 1} cannot be negative.` };
+  }
+
+  for (let i = 0; i < computedSections.length; i++) {
+      const s = computedSections[i];
+      const invalid = s.structure && structureInputError(s.structure, s.params.manningN);
+      if (invalid) return { points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [], error: `Structure at the end of reach ${i + 1}: ${invalid}` };
+  }
+
+  // 2. Discharge along the canal
+  // Point inflows, lateral inflow and fixed losses do not depend on the water level; seepage does,
+  // so its first estimate uses normal (or critical) depth at the reach inflow and is then
+  // recomputed from the solved profile until the discharge settles.
+  const initialDepth = computedSections.map(s => {
+      const p = withDischarge(s.params, Math.max(baseParams.flowRate + (s.pointInflow ?? 0), TOLERANCE));
+      const normal = solveNormalDepth(s.type, p, unit);
+      return normal.converged ? normal.depth : solveCriticalDepth(s.type, p, unit).depth;
+  });
+  const exhaustedError = (idx: number): ProfileResult => ({
+      points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [],
+      error: `The flow runs out in reach ${idx + 1}: offtakes, losses and seepage exceed the discharge reaching it.`,
+  });
+  let table = buildDischargeTable(computedSections, baseParams.flowRate, unit, idx => initialDepth[idx]);
+  if (table.exhausted !== null) return exhaustedError(table.exhausted);
+  let flows = table.nodes;
+
+  // 3. Sweeps
+  // Downstream Control -> Calculate Upstream (Backwater)
+  // Upstream Control -> Calculate Downstream
+  // Both -> supercritical sweep downstream, subcritical sweep upstream, merged by specific force
+  // Structures are internal controls, so with any structure both sweeps run and are merged
+  const hasStructures = computedSections.some(s => s.structure);
+  const mixed = (bc.upstream !== undefined && bc.downstream !== undefined) || hasStructures;
+  const depthDependent = computedSections.some(hasSeepage);
+  const computed = (pass: ProfilePass | null): pass is ProfilePass => pass !== null && pass.stations.some(st => st.length > 0);
+  let passStations: PassStation[][] = computedSections.map(() => []);
+  let jumps: JumpCandidate[] = [];
+  let reaches: ReachSummary[] = [];
+  let structures: StructureResult[] = [];
+
+  for (let iter = 0; ; iter++) {
+      const sub = bc.downstream || hasStructures ? computePass(computedSections, flows, bc.downstream, -1, unit, options, mixed) : null;
+      const sup = bc.upstream || hasStructures ? computePass(computedSections, flows, bc.upstream, 1, unit, options, mixed, sub?.structures) : null;
+      jumps = [];
+      if (computed(sup) && computed(sub)) ({ stations: passStations, jumps } = combinePasses(computedSections, flows, sup, sub, unit));
+      else if (computed(sup) || computed(sub)) passStations = (computed(sup) ? sup : sub)!.stations;
+      reaches = [...(sup?.reaches ?? []), ...(sub?.reaches ?? [])];
+      // Structures no backwater sweep reached are free
+      structures = computedSections.flatMap((s, idx) => !s.structure ? [] : [
+          sub?.structures.find(r => r.sectionIndex === idx) ?? solveStructure(computedSections, flows, idx, null, unit),
+      ]);
+
+      if (!depthDependent || iter + 1 >= SEEPAGE_ITERATIONS) break;
+      table = buildDischargeTable(computedSections, baseParams.flowRate, unit,
+          (idx, x) => passDepthAt(passStations[idx], x) ?? initialDepth[idx]);
+      if (table.exhausted !== null) return exhaustedError(table.exhausted);
+      const change = Math.max(...table.nodes.flatMap((nodes, idx) => nodes.map((nd, k) => Math.abs(nd.discharge - flows[idx][k].discharge))));
+      flows = table.nodes;
+      if (change <= SEEPAGE_TOLERANCE * baseParams.flowRate) break;
+  }
+  const failedStructure = structures.find(r => r.error);
+  if (failedStructure) {
+      return { points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [], error: `Structure at the end of reach ${failedStructure.sectionIndex + 1}: ${failedStructure.error}` };
+  }
+
+  // 4. Post-Processing: Stitch Coordinates and Elevations
+  // We need to map local distances to global chainage.
+  // We need to determine absolute Bed Z.
+  const finalPoints: ProfilePoint[] = [];
+  
+  // Calculate Global Start Distances for each section
+  let globalDist = 0;
+  const sectionStartDist: number[] = [];
+  for(let i=0; i<computedSections.length; i++) {
+      sectionStartDist[i] = globalDist;
+      globalDist += computedSections[i].length;
+  }
+
+  // Now Map Points
+  const classes: ReachClassification[] = [];
+  for(let i=0; i<computedSections.length; i++) {
+      const s = computedSections[i];
+      const startX = sectionStartDist[i];
+      const startZ = s.zUp;
+      
+      // yn and yc follow the local discharge; reaches without lateral flow solve them once
+      const depthCache = new Map<number, { yn: number | null; yc: number }>();
+      const referenceDepths = (Q: number) => {
+          let depths = depthCache.get(Q);
+          if (!depths) {
+              const p = withDischarge(s.params, Q);
+              const normal = solveNormalDepth(s.type, p, unit);
+              depths = { yn: normal.converged ? normal.depth : null, yc: solveCriticalDepth(s.type, p, unit).depth };
+              depthCache.set(Q, depths);
+          }
+          return depths;
+      };
+      const stations: ClassifiedStation[] = [];
+
+      passStations[i].forEach(p => {
+          // p.distance is local 0..L
+          const globalX = startX + p.distance;
+          // Bed Z = StartZ - S * localDist
+          const bedZ = startZ - s.slope * p.distance;
+          const Q = dischargeAt(flows[i], p.distance);
+          const { yn, yc } = referenceDepths(Q);
+          const atQ = withDischarge(s.params, Q);
+          const head = stationHead(s.type, p.depth, atQ, unit);
+          
+          finalPoints.push({
+              distance: globalX,
+              bedElevation: bedZ,
+              waterElevation: bedZ + p.depth,
+              depth: p.depth,
+              normalDepthElevation: yn === null ? null : bedZ + yn,
+              criticalDepthElevation: bedZ + yc,
+              discharge: Q,
+              velocity: head.A > 0 ? Q / head.A : 0,
+              froudeNumber: froudeAt(s.type, p.depth, atQ, unit),
+              specificEnergy: head.E,
+              totalHead: bedZ + head.E,
+              frictionSlope: head.Sf,
+              frictionLoss: 0,
+              localLoss: 0,
+              sectionIndex: i
+          });
+          stations.push({ distance: globalX, depth: p.depth, yn, yc });
+      });
+
+      if (stations.length > 0) classes.push(classifyReach(i, s.slope, stations));
+  }
+
+  const profileJumps: ProfileJump[] = jumps.map(j => ({
+      ...j,
+      distance: sectionStartDist[j.sectionIndex] + j.distance,
+      bedElevation: computedSections[j.sectionIndex].zUp - computedSections[j.sectionIndex].slope * j.distance,
+  }));
+
+  const profileStructures = structures.map(r => ({ ...r, distance: sectionStartDist[r.sectionIndex] + r.distance }));
+
+  // Stable sort keeps the toe and heel of a jump (same chainage) in order
+  finalPoints.sort((a, b) => a.distance - b.distance);
+
+  accumulateHeadLosses(finalPoints);
+
+  // Breakdown of the local-loss elements from the velocities either side of each junction
+  const junctions: JunctionLossResult[] = [];
+  computedSections.forEach((s, i) => {
+      if (!s.junctionLoss || s.structure) return;
+      const up = finalPoints.filter(p => p.sectionIndex === i).pop();
+      const down = finalPoints.find(p => p.sectionIndex === i + 1);
+      if (!up || !down || Math.abs(down.distance - up.distance) > TOLERANCE * Math.max(1, up.distance)) return;
+      junctions.push({
+          sectionIndex: i,
+          distance: down.distance,
+          upstreamVelocity: up.velocity,
+          downstreamVelocity: down.velocity,
+          ...junctionLossTerms(s.junctionLoss, up.velocity, down.velocity, unit),
+      });
+  });
+
+  return {
+      points: finalPoints,
+      reaches: reaches.sort((a, b) => a.sectionIndex - b.sectionIndex),
+      jumps: profileJumps,
+      classes,
+      structures: profileStructures,
+      junctions,
+  };
+};
+
+// --- Branched Networks ---
+
+// Inflows at which a branch below a solved split is rated (denser at low flow)
+const NETWORK_RATING_SAMPLES = 10;
+const NETWORK_RATING_FLOOR = 1e-4; // First rating sample, as a fraction of the largest inflow
+const MAX_REFINE_PASSES = 3;
+
+type NetworkSolution =
+    | { head: ProfilePoint; branches: NetworkBranchResult[]; nodes: NetworkNodeResult[] }
+    | { error: string };
+
+// Steady water surfaces through a dendritic network. Every branch is computed by the backwater
+// sweep of calculateMultiReachProfile: a branch with nothing below it from its own downstream
+// control, any other from the depth at its tail node, which follows from the heads of the
+// branches leaving that node. The main canal takes baseParams.flowRate.
+// A solved split rates each branch head against its inflow (solving the whole subtree below it)
+// and divides the flow so that all heads reach the same compatibility level.
+export const calculateNetworkProfile = (
+  type: ChannelType,
+  baseParams: InputParams,
+  branches: NetworkBranch[],
+  options: NetworkOptions,
+  unit: UnitSystem,
+  solver: ProfileSolverOptions = DEFAULT_PROFILE_OPTIONS
+): NetworkResult => {
+  const fail = (error: string): NetworkResult => ({ branches: [], nodes: [], error });
+  const roots = branches.filter(b => b.parentId === null);
+  if (roots.length !== 1) return fail('The network needs exactly one main canal.');
+  const childrenOf = (id: string) => branches.filter(b => b.parentId === id);
+
+  // Parent-first order; a branch left out has a missing parent or sits in a loop
+  const order: NetworkBranch[] = [roots[0]];
+  for (let k = 0; k < order.length; k++) order.push(...childrenOf(order[k].id));
+  const stray = branches.find(b => !order.includes(b));
+  if (stray) return fail(`${stray.name} does not connect back to the main canal.`);
+  const empty = branches.find(b => b.sections.length === 0);
+  if (empty) return fail(`${empty.name} has no reaches.`);
+
+  // A branch head sits at the bed level of its parent's tail unless its own elevations place it.
+  // Reaches go to the profile solver with explicit elevations.
+  const anchored: Record<string, CanalSectionInput[]> = {};
+  order.forEach(b => {
+      const parent = b.parentId === null ? null : anchored[b.parentId];
+      const { zUp, zDown } = resolveBedLevels(b.sections, parent ? parent[parent.length - 1].dsElevation : 100);
+      anchored[b.id] = b.sections.map((s, i) => ({ ...s, inputMode: 'Elevation' as const, usElevation: zUp[i], dsElevation: zDown[i] }));
+  });
+
+  const runBranch = (b: NetworkBranch, Q: number, downstream: ControlCondition) =>
+      calculateMultiReachProfile(type, withDischarge(baseParams, Q), anchored[b.id], { downstream }, unit, solver);
+  const branchResult = (b: NetworkBranch, Q: number, profile: ProfileResult): NetworkBranchResult =>
+      ({ branchId: b.id, inflow: Q, outflow: profile.points[profile.points.length - 1].discharge, profile });
+  const levelOf = (p: ProfilePoint) => options.compatibility === 'Energy' ? p.totalHead : p.waterElevation;
 
-  switch (type) {
-    case ChannelType.Rectangular:
-      A = p.width * y;
-      P = p.width + 2 * y;
-      T = p.width;
-      centroidDepth = y / 2;
-      break;
-      
-    case ChannelType.Trapezoidal:
-      // A = y * (b + zy)
-      // T = b + 2zy
-      A = (p.width + p.sideSlope * y) * y;
-      P = p.width + 2 * y * Math.sqrt(1 + p.sideSlope * p.sideSlope);
-      T = p.width + 2 * p.sideSlope * y;
-      const y_bar_bottom = (y / 3) * ((2 * T + p.width) / (T + p.width));
-      centroidDepth = y - y_bar_bottom;
-      break;
+  // Discharge reaching the tail node. Without seepage it follows from the inflows alone; with
+  // seepage a trial profile to critical depth at the tail gives a first estimate.
+  const outflowOf = (b: NetworkBranch, Q: number): number | null => {
+      if (!b.sections.some(hasSeepage)) {
+          return b.sections.reduce((q, s) => q + (s.pointInflow ?? 0) + (s.lateralInflow ?? 0) * s.length, Q);
+      }
+      const trial = runBranch(b, Q, { type: 'CriticalDepth', value: 0 });
+      return trial.error ? null : trial.points[trial.points.length - 1].discharge;
+  };
 
-    case ChannelType.Triangular:
-      A = p.sideSlope * y * y;
-      P = 2 * y * Math.sqrt(1 + p.sideSlope * p.sideSlope);
-      T = 2 * p.sideSlope * y;
-      centroidDepth = y / 3; 
-      break;
+  // Head level against inflow, sampled from near zero up to the largest discharge any branch can carry
+  const maxInflow = branches.reduce((sum, b) => sum + b.sections.reduce((q, s) =>
+      q + Math.max(s.pointInflow ?? 0, 0) + Math.max((s.lateralInflow ?? 0) * s.length, 0), 0), baseParams.flowRate);
+  const ratings: Record<string, { Q: number; level: number }[]> = {};
+  const ratingErrors: Record<string, string> = {};
+  const ratingOf = (b: NetworkBranch) => {
+      if (!ratings[b.id]) {
+          ratings[b.id] = [];
+          for (let k = 0; k <= NETWORK_RATING_SAMPLES; k++) {
+              const Q = maxInflow * Math.max(Math.pow(k / NETWORK_RATING_SAMPLES, 2), NETWORK_RATING_FLOOR);
+              const sol = solve(b, Q);
+              if ('error' in sol) ratingErrors[b.id] ??= sol.error;
+              else ratings[b.id].push({ Q, level: levelOf(sol.head) });
+          }
+      }
+      return ratings[b.id];
+  };
 
-    case ChannelType.Circular:
-      const D = p.diameter;
-      let depth = y;
-      if (depth > D) depth = D;
-      const r = D / 2;
-      const h = depth;
-      const theta = 2 * Math.acos(1 - (2 * h) / D);
-      A = (Math.pow(D, 2) / 8) * (theta - Math.sin(theta));
-      P = (D / 2) * theta;
-      T = D * Math.sin(theta / 2);
-      const alpha = theta / 2;
-      const segmentCentroidFromCenter = (2 * D * Math.pow(Math.sin(alpha), 3)) / (3 * (theta - Math.sin(theta)));
-      const distSurfToCenter = h - r; 
-      centroidDepth = (h - r) + segmentCentroidFromCenter;
-      break;
-  }
-  return { A, P, T, centroidDepth };
-};
+  // Inflow that holds a head level, interpolated on the rating and extended above its last
+  // segment, with the local dQ/dlevel. Below the first sample the branch takes no flow.
+  const inflowAt = (rating: { Q: number; level: number }[], level: number) => {
+      if (level < rating[0].level) return { Q: 0, slope: 0 };
+      const above = rating.findIndex(r => r.level >= level);
+      const k = above === -1 ? rating.length - 1 : Math.max(above, 1);
+      const a = rating[k - 1], b = rating[k];
+      const slope = b.level > a.level ? (b.Q - a.Q) / (b.level - a.level) : 0;
+      return { Q: Math.max(slope > 0 ? a.Q + (level - a.level) * slope : b.Q, 0), slope };
+  };
 
-// --- Solvers ---
+  const splitFlow = (kids: NetworkBranch[], Q: number): number[] | string => {
+      if (options.splitMode === 'Fixed') {
+          const total = kids.reduce((sum, k) => sum + Math.max(k.flowShare, 0), 0);
+          return kids.map(k => total > 0 ? (Q * Math.max(k.flowShare, 0)) / total : Q / kids.length);
+      }
+      const curves = kids.map(ratingOf);
+      const unrated = kids.findIndex((k, i) => curves[i].length < 2);
+      if (unrated >= 0) return ratingErrors[kids[unrated].id] ?? `${kids[unrated].name} could not be rated for the flow split.`;
+      // Common level where the branch inflows add up to Q
+      const f = (level: number) => curves.reduce((sum, c) => sum + inflowAt(c, level).Q, 0) - Q;
+      const levels = curves.flat().map(r => r.level);
+      const span = Math.max(...levels) - Math.min(...levels) + 1;
+      let lo = Math.min(...levels), hi = Math.max(...levels);
+      for (let i = 0; i < MAX_ITER && f(lo) > 0; i++) lo -= span;
+      for (let i = 0; i < MAX_ITER && f(hi) < 0; i++) hi += span;
+      const level = brentSolve(f, lo, hi).depth;
+      const flows = curves.map(c => inflowAt(c, level).Q);
+      const sum = flows.reduce((a, b) => a + b, 0);
+      return flows.map(q => sum > 0 ? (q * Q) / sum : Q / kids.length);
+  };
 
-export const solveNormalDepth = (type: ChannelType, p: InputParams, unit: UnitSystem): number => {
-  const { K } = UNIT_CONSTANTS[unit];
-  const target = (p.flowRate * p.manningN) / (K * Math.sqrt(p.slope));
-  
-  let min = 0;
-  let max = type === ChannelType.Circular ? p.diameter : 50; 
-  
-  for (let i = 0; i < MAX_ITER; i++) {
-    const mid = (min + max) / 2;
-    const geom = getGeometry(type, mid, p);
-    if (geom.P === 0) { min = mid; continue; }
-    
-    const R = geom.A / geom.P;
-    const val = geom.A * Math.pow(R, 2/3);
+  // Depth at the tail of b that is compatible with the heads of the branches leaving it
+  const solveNode = (b: NetworkBranch, Q: number, kids: NetworkBranch[], heads: ProfilePoint[], flows: number[]): NetworkNodeResult => {
+      const last = anchored[b.id][anchored[b.id].length - 1];
+      const tail = resolveReachSection(type, withDischarge(baseParams, Q), last);
+      const z = last.dsElevation;
+      const yc = solveCriticalDepth(tail.type, tail.params, unit).depth;
+      let y: number | null;
+      if (options.compatibility === 'Energy') {
+          // The parent holds the highest head energy; divisions to lower branches take up the rest
+          const H = Math.max(...heads.map(h => h.totalHead));
+          y = solveDepthFromEnergy(tail.type, tail.params, H - z, unit, 'Subcritical');
+      } else {
+          // Pressure force and momentum flux of the parent balance those of the branches, each
+          // branch's flux projected on the parent axis; wall forces at the divide are neglected
+          const { G } = UNIT_CONSTANTS[unit];
+          const M = heads.reduce((sum, h, i) => {
+              const head = resolveReachSection(type, withDischarge(baseParams, flows[i]), anchored[kids[i].id][0]);
+              const geom = getGeometry(head.type, h.depth, head.params);
+              return sum + geom.A * geom.centroidDepth + (flows[i] * h.velocity * Math.cos((kids[i].angle * Math.PI) / 180)) / G;
+          }, 0);
+          const f = (d: number) => calculateSectionProperties(tail.type, d, tail.params, unit).specificForce - M;
+          y = f(yc) > 0 ? null : brentSolve(f, yc, bracketDepth(f, getConduitRise(tail.type, tail.params), 2 * yc)).depth;
+      }
+      const depth = y ?? yc;
+      const energyLevel = z + calculateSectionProperties(tail.type, depth, tail.params, unit).specificEnergy;
+      const levels = heads.map(levelOf);
+      return {
+          branchId: b.id,
+          bedElevation: z,
+          depth,
+          waterLevel: z + depth,
+          energyLevel,
+          critical: y === null,
+          outflows: kids.map((k, i) => ({
+              branchId: k.id,
+              discharge: flows[i],
+              waterLevel: heads[i].waterElevation,
+              energyLevel: heads[i].totalHead,
+              headDrop: energyLevel - heads[i].totalHead,
+          })),
+          mismatch: Math.max(...levels) - Math.min(...levels),
+      };
+  };
+
+  // Solution of the subtree headed by b for an inflow Q. Seepage makes the discharge reaching the
+  // node depend on the profile, so the split is repeated until it settles. With refine, a solved
+  // split is corrected from the exact branch heads (Newton steps on the rating slopes) until they
+  // agree within the step tolerance; the rating samples themselves are not refined.
+  const solve = (b: NetworkBranch, Q: number, refine: boolean = false): NetworkSolution => {
+      const kids = childrenOf(b.id);
+      if (kids.length === 0) {
+          const profile = runBranch(b, Q, b.downstream);
+          if (profile.error) return { error: `${b.name}: ${profile.error}` };
+          return { head: profile.points[0], branches: [branchResult(b, Q, profile)], nodes: [] };
+      }
+      let outflow = outflowOf(b, Q);
+      for (let iter = 1; ; iter++) {
+          if (outflow === null || !(outflow > 0)) return { error: `${b.name}: no flow reaches the node at its tail.` };
+          const split = splitFlow(kids, outflow);
+          if (typeof split === 'string') return { error: split };
+          let flows = split;
+          const dry = flows.findIndex(q => !(q > 0));
+          if (dry >= 0) {
+              return { error: options.splitMode === 'Fixed'
+                  ? `${kids[dry].name} has no share of the flow at the tail of ${b.name}.`
+                  : `${kids[dry].name} takes no flow: its head stands above the level the other branches hold at the tail of ${b.name}.` };
+          }
+          let solved: Exclude<NetworkSolution, { error: string }>[] = [];
+          for (let pass = 0; ; pass++) {
+              const below: NetworkSolution[] = kids.map((k, i) => solve(k, flows[i], refine));
+              const failed = below.find(s => 'error' in s);
+              if (failed) return failed;
+              solved = below as Exclude<NetworkSolution, { error: string }>[];
+              const levels = solved.map(s => levelOf(s.head));
+              if (!refine || options.splitMode === 'Fixed' || pass >= MAX_REFINE_PASSES) break;
+              if (Math.max(...levels) - Math.min(...levels) <= solver.tolerance) break;
+              const slopes = kids.map((k, i) => inflowAt(ratings[k.id], levels[i]).slope);
+              const total = slopes.reduce((a, c) => a + c, 0);
+              if (!(total > 0)) break;
+              const target = (outflow - flows.reduce((a, c) => a + c, 0) + slopes.reduce((a, c, i) => a + c * levels[i], 0)) / total;
+              flows = flows.map((q, i) => Math.max(q + slopes[i] * (target - levels[i]), 0));
+          }
+          const node = solveNode(b, outflow, kids, solved.map(s => s.head), flows);
+          const profile = runBranch(b, Q, { type: 'KnownDepth', value: node.depth });
+          if (profile.error) return { error: `${b.name}: ${profile.error}` };
+          const result = branchResult(b, Q, profile);
+          if (iter >= SEEPAGE_ITERATIONS || Math.abs(result.outflow - outflow) <= TOLERANCE * Math.max(1, outflow)) {
+              return {
+                  head: profile.points[0],
+                  branches: [result, ...solved.flatMap(s => s.branches)],
+                  nodes: [node, ...solved.flatMap(s => s.nodes)],
+              };
+          }
+          outflow = result.outflow;
+      }
+  };
+
+  const solution = solve(roots[0], baseParams.flowRate, true);
+  return 'error' in solution ? fail(solution.error) : { branches: solution.branches, nodes: solution.nodes };
+};
 
-    if (Math.abs(val - target) < TOLERANCE) return mid;
-    if (val < target) min = mid;
-    else max = mid;
+// Longitudinal profile from the head of the main canal to the tail of one branch, with chainage,
+// reach numbers and head losses running on through the nodes
+export const networkPathProfile = (result: NetworkResult, branches: NetworkBranch[], branchId: string): ProfileResult => {
+  const path: NetworkBranch[] = [];
+  for (let b = branches.find(x => x.id === branchId); b && path.length < branches.length; b = branches.find(x => x.id === b!.parentId)) {
+      path.unshift(b);
   }
-  return (min + max) / 2;
+  const merged: ProfileResult = { points: [], reaches: [], jumps: [], classes: [], structures: [], junctions: [] };
+  let distance = 0, reaches = 0;
+  path.forEach(b => {
+      const profile = result.branches.find(r => r.branchId === b.id)?.profile;
+      if (!profile) return;
+      const at = <T extends { sectionIndex: number; distance: number }>(item: T): T =>
+          ({ ...item, sectionIndex: item.sectionIndex + reaches, distance: item.distance + distance });
+      merged.points.push(...profile.points.map(at));
+      merged.reaches.push(...profile.reaches.map(r => ({ ...r, sectionIndex: r.sectionIndex + reaches })));
+      merged.jumps.push(...profile.jumps.map(at));
+      merged.classes.push(...profile.classes.map(c => ({
+          ...c,
+          sectionIndex: c.sectionIndex + reaches,
+          segments: c.segments.map(g => ({ ...g, start: g.start + distance, end: g.end + distance })),
+      })));
+      merged.structures.push(...profile.structures.map(at));
+      merged.junctions.push(...profile.junctions.map(at));
+      reaches += b.sections.length;
+      distance += b.sections.reduce((sum, s) => sum + s.length, 0);
+  });
+  accumulateHeadLosses(merged.points);
+  return merged;
 };
 
-const solveCriticalDepth = (type: ChannelType, p: InputParams, unit: UnitSystem): number => {
-  const { G } = UNIT_CONSTANTS[unit];
-  const Q2 = Math.pow(p.flowRate, 2);
-  
-  let min = 0;
-  let max = type === ChannelType.Circular ? p.diameter : 50;
+// --- Flood Routing ---
 
-  for (let i = 0; i < MAX_ITER; i++) {
-    const mid = (min + max) / 2;
-    const geom = getGeometry(type, mid, p);
-    const val = G * Math.pow(geom.A, 3) - Q2 * geom.T;
+const MAX_ROUTING_STEPS = 20000;
+const MIN_SUBREACHES = 4; // Per reach, for the lag to resolve within the reach
 
-    if (Math.abs(val) < TOLERANCE) return mid;
-    if (val < 0) min = mid;
-    else max = mid;
-  }
-  return (min + max) / 2;
+// Kinematic wave celerity dQ/dA at depth y, by central differences on the uniform-flow rating
+const waveCelerity = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): number => {
+    const dy = Math.max(1e-4, 1e-3 * y);
+    const lo = y - Math.min(dy, 0.5 * y), hi = y + dy;
+    const dA = getGeometry(type, hi, p).A - getGeometry(type, lo, p).A;
+    return (getDischarge(type, hi, p, unit) - getDischarge(type, lo, p, unit)) / dA;
 };
 
-// Solve for depth given Specific Energy E (Subcritical or Supercritical root)
-const solveDepthFromEnergy = (type: ChannelType, p: InputParams, E: number, unit: UnitSystem, regime: 'Subcritical' | 'Supercritical'): number => {
-    const { G } = UNIT_CONSTANTS[unit];
-    const yc = solveCriticalDepth(type, p, unit);
-    const geomC = getGeometry(type, yc, p);
-    const Vc = p.flowRate / geomC.A;
-    const Ec = yc + (Vc * Vc) / (2 * G);
+// Linear interpolation in a series sorted by time, held flat beyond its ends
+const interpolateSeries = (series: HydrographPoint[], t: number): number => {
+    if (t <= series[0].time) return series[0].value;
+    const k = series.findIndex(d => d.time >= t);
+    if (k < 0) return series[series.length - 1].value;
+    const a = series[k - 1], b = series[k];
+    return b.time === a.time ? b.value : a.value + ((t - a.time) / (b.time - a.time)) * (b.value - a.value);
+};
 
-    if (E < Ec) return yc; // Cannot solve, return critical
+// Index of the peak, refined by the parabola through it and its neighbours
+const peakOf = (values: number[]): number => {
+    const k = values.reduce((best, v, i) => v > values[best] ? i : best, 0);
+    if (k === 0 || k === values.length - 1) return k;
+    const curvature = values[k - 1] - 2 * values[k] + values[k + 1];
+    return curvature < 0 ? k + (0.5 * (values[k - 1] - values[k + 1])) / curvature : k;
+};
 
-    let min = 0, max = 0;
-    if (regime === 'Supercritical') {
-        min = 0.01;
-        max = yc;
-    } else {
-        min = yc;
-        max = Math.max(yc * 5, E * 1.5); // Upper bound guess
-    }
+// Muskingum–Cunge routing of an inflow hydrograph down the canal reaches. Each reach takes
+// constant parameters from its normal depth at a reference flow midway between the base and the
+// peak: K = Δx/c and X = ½(1 - Q/(T·S0·c·Δx)), which makes the scheme's numerical diffusion
+// match the physical diffusion of the flood wave. Subreaches are about c·Δt long; the data
+// interval is split so that each reach is crossed in several steps. Point inflows join as steady
+// flow at the head of their reach and lateral inflow at its tail; structures, junction losses and
+// seepage are not modelled. timeScale converts the hydrograph's time unit to seconds.
+export const routeMuskingumCunge = (
+  type: ChannelType,
+  baseParams: InputParams,
+  sections: CanalSectionInput[],
+  hydrograph: HydrographPoint[],
+  timeScale: number,
+  unit: UnitSystem
+): RoutingResult => {
+  const failed = (error: string): RoutingResult =>
+      ({ inflow: [], outflow: [], reaches: [], timeStep: 0, peakInflow: 0, peakOutflow: 0, attenuation: 0, lag: 0, error });
+  const series = hydrograph.filter(d => isFinite(d.time) && isFinite(d.value)).sort((a, b) => a.time - b.time);
+  if (series.length < 2) return failed('Enter at least two points of the inflow hydrograph.');
+  if (sections.length === 0) return failed('Add at least one reach to the canal model.');
+  const intervals = series.slice(1).map((d, k) => d.time - series[k].time).filter(dt => dt > 0);
+  if (intervals.length === 0 || !(timeScale > 0)) return failed('The hydrograph times must increase.');
+  const flows = series.map(d => d.value);
+  const base = Math.max(0, Math.min(...flows));
+  const peak = Math.max(...flows);
+  if (!(peak > 0)) return failed('The inflow hydrograph has no positive flow.');
 
-    for(let i=0; i<50; i++) {
-        const mid = (min + max) / 2;
-        const geom = getGeometry(type, mid, p);
-        const V = geom.A > 0 ? p.flowRate / geom.A : 0;
-        const E_calc = mid + (V*V)/(2*G);
-        
-        if (Math.abs(E_calc - E) < 1e-4) return mid;
-
-        // Energy curve is parabolic. 
-        // Supercritical (y < yc): as y increases, E decreases.
-        // Subcritical (y > yc): as y increases, E increases.
-        
-        if (regime === 'Supercritical') {
-             if (E_calc > E) min = mid; // Need lower E -> increase y (wait, SC branch: y up -> E down)
-             else max = mid;
-        } else {
-             if (E_calc < E) min = mid; // Need higher E -> increase y
-             else max = mid;
-        }
-    }
-    return (min + max) / 2;
-};
+  // 1. Reach parameters at the reference flow
+  const slopes = sectionSlopes(sections);
+  const reaches: (RoutingReachResult & { params: InputParams; type: ChannelType })[] = [];
+  let added = 0; // Steady inflow joined above the current reach
+  for (let i = 0; i < sections.length; i++) {
+      const s = sections[i];
+      if (!(slopes[i] > 0)) {
+          return failed(`Muskingum–Cunge needs a falling bed: reach ${i + 1} is ${slopes[i] < 0 ? 'adverse' : 'horizontal'}.`);
+      }
+      added += s.pointInflow ?? 0;
+      const reach = resolveReachSection(type, baseParams, s);
+      const Q = Math.max(base + 0.5 * (peak - base) + added, TOLERANCE);
+      const p = { ...reach.params, slope: slopes[i], flowRate: Q };
+      const normal = solveNormalDepth(reach.type, p, unit);
+      if (!normal.converged) return failed(`No normal depth carries the reference flow in reach ${i + 1}.`);
+      const celerity = waveCelerity(reach.type, normal.depth, p, unit);
+      if (!(celerity > 0)) return failed(`The flood wave does not travel down reach ${i + 1}.`);
+      reaches.push({
+          sectionIndex: i, referenceFlow: Q, depth: normal.depth, topWidth: getGeometry(reach.type, normal.depth, p).T,
+          celerity, subreaches: 1, K: 0, X: 0, courant: 0, params: p, type: reach.type,
+      });
+      added += (s.lateralInflow ?? 0) * s.length;
+  }
 
+  // 2. Time grid: the data interval, split so that every reach spans a few steps of travel time
+  // (as far as the step budget allows), running on past the last point for twice the travel time
+  // so the outflow can recede
+  const travel = reaches.map(r => sections[r.sectionIndex].length / r.celerity);
+  const interval = Math.min(...intervals) * timeScale;
+  const t0 = series[0].time;
+  const outputSteps = Math.ceil(((series[series.length - 1].time - t0) * timeScale + 2 * travel.reduce((a, b) => a + b, 0)) / interval);
+  if (outputSteps > MAX_ROUTING_STEPS) return failed('Routing needs too many time steps: lengthen the data interval or shorten the hydrograph.');
+  const substeps = Math.max(1, Math.min(
+      Math.ceil((MIN_SUBREACHES * interval) / Math.min(...travel)),
+      Math.floor(MAX_ROUTING_STEPS / outputSteps),
+  ));
+  const dt = interval / substeps;
+  const steps = outputSteps * substeps;
+  const timeAt = (k: number) => t0 + (k * dt) / timeScale;
+  const inflow = Array.from({ length: steps + 1 }, (_, k) => interpolateSeries(series, timeAt(k)));
 
-// --- Multi-Reach Profile Calculation ---
+  // 3. Route subreach by subreach; the wave starts from steady flow
+  let flow = inflow;
+  reaches.forEach(r => {
+      const s = sections[r.sectionIndex];
+      flow = flow.map(q => q + (s.pointInflow ?? 0));
+      const n = Math.max(1, Math.floor(s.length / (r.celerity * dt)));
+      const dx = s.length / n;
+      const C = (r.celerity * dt) / dx;
+      const D = r.referenceFlow / (r.topWidth * r.params.slope * r.celerity * dx);
+      const c0 = (-1 + C + D) / (1 + C + D);
+      const c1 = (1 + C - D) / (1 + C + D);
+      const c2 = (1 - C + D) / (1 + C + D);
+      for (let j = 0; j < n; j++) {
+          const out = [flow[0]];
+          for (let k = 1; k <= steps; k++) out.push(Math.max(0, c0 * flow[k] + c1 * flow[k - 1] + c2 * out[k - 1]));
+          flow = out;
+      }
+      flow = flow.map(q => Math.max(0, q + (s.lateralInflow ?? 0) * s.length));
+      Object.assign(r, { subreaches: n, K: dx / r.celerity, X: 0.5 * (1 - D), courant: C });
+  });
 
-export const calculateMultiReachProfile = (
-  type: ChannelType, 
-  baseParams: InputParams, 
-  sections: CanalSectionInput[], 
+  // 4. Peaks on the routing grid, hydrographs on the data interval
+  const inPeak = peakOf(inflow), outPeak = peakOf(flow);
+  const sample = (values: number[]) => values
+      .filter((_, k) => k % substeps === 0)
+      .map((value, k) => ({ time: t0 + (k * interval) / timeScale, value }));
+  return {
+      inflow: sample(inflow),
+      outflow: sample(flow),
+      reaches: reaches.map(({ params, type, ...r }) => r),
+      timeStep: dt,
+      peakInflow: Math.max(...inflow),
+      peakOutflow: Math.max(...flow),
+      attenuation: Math.max(...inflow) + added - Math.max(...flow),
+      lag: timeAt(outPeak) - timeAt(inPeak),
+  };
+};
+
+// --- Quasi-Steady Profiles ---
+
+// Steady profiles through a hydrograph, at every data point and at `frames` evenly spaced times
+// in between, each for the inflow at that time. Storage and wave travel are ignored, so every
+// station answers the inflow at once.
+export const calculateQuasiSteadyProfiles = (
+  type: ChannelType,
+  baseParams: InputParams,
+  sections: CanalSectionInput[],
   bc: BoundaryCondition,
+  hydrograph: HydrographPoint[],
+  frames: number,
   unit: UnitSystem,
-  stepPerSection: number = 20
-): ProfilePoint[] => {
-  const { G, K } = UNIT_CONSTANTS[unit];
-  const allPoints: ProfilePoint[] = [];
+  options: ProfileSolverOptions = DEFAULT_PROFILE_OPTIONS
+): QuasiSteadyResult => {
+  const series = hydrograph.filter(d => isFinite(d.time) && isFinite(d.value)).sort((a, b) => a.time - b.time);
+  if (series.length < 2 || !(series[series.length - 1].time > series[0].time)) {
+      return { frames: [], error: 'Enter at least two points of the inflow hydrograph.' };
+  }
+  const t0 = series[0].time, t1 = series[series.length - 1].time;
+  const times = [...series.map(d => d.time), ...Array.from({ length: frames }, (_, k) => t0 + ((t1 - t0) * k) / Math.max(1, frames - 1))]
+      .sort((a, b) => a - b)
+      .filter((t, k, all) => k === 0 || t - all[k - 1] > TOLERANCE * Math.max(1, Math.abs(t)));
+  const result: QuasiSteadyFrame[] = [];
+  for (const time of times) {
+      const inflow = interpolateSeries(series, time);
+      if (!(inflow > 0)) return { frames: [], error: `The inflow at t = ${+time.toFixed(3)} is not positive.` };
+      const profile = calculateMultiReachProfile(type, { ...baseParams, flowRate: inflow }, sections, bc, unit, options);
+      if (profile.error) return { frames: [], error: `At t = ${+time.toFixed(3)}: ${profile.error}` };
+      result.push({ time, inflow, profile });
+  }
+  return { frames: result };
+};
 
-  // 1. Determine Calculation Direction
-  // Downstream Control -> Calculate Upstream (Backwater)
-  // Upstream Control -> Calculate Downstream
-  const isUpstreamCalc = bc.location === 'Downstream'; 
-
-  // 2. Prepare Section Params (Slopes)
-  // If Mode=Elevation, calculate Slope.
-  // We also need absolute bed elevations for plotting.
-  const computedSections = sections.map(s => {
-      let slope = s.slope;
-      if (s.inputMode === 'Elevation') {
-          slope = (s.usElevation - s.dsElevation) / s.length;
+// --- Unsteady Flow (Saint-Venant) ---
+
+const MAX_UNSTEADY_NODES = 2000;
+const MAX_UNSTEADY_WORK = 5e5; // Nodes × time steps
+const MAX_SNAPSHOTS = 500;
+const NEWTON_ITERATIONS = 20;
+const NEWTON_TOLERANCE = 1e-6; // Relative to the largest depth and discharge
+
+interface UnsteadyNode {
+    sectionIndex: number;
+    distance: number;
+    z: number;
+    type: ChannelType;
+    params: InputParams;
+}
+
+// Water level, area and conveyance at a node
+interface NodeState {
+    y: number;
+    Q: number;
+    h: number;
+    A: number;
+    K: number;
+}
+
+// A link ties two neighbouring nodes: a segment of a reach, or the junction between two reaches
+// (same chainage), where the water level carries across and the point inflow of the next reach joins
+type UnsteadyLink =
+    | { kind: 'Segment'; dx: number; sectionIndex: number }
+    | { kind: 'Junction'; inflow: number };
+
+const nodeState = (n: UnsteadyNode, y: number, Q: number, unit: UnitSystem): NodeState =>
+    ({ y, Q, h: n.z + y, A: getGeometry(n.type, y, n.params).A, K: getConveyance(n.type, y, n.params, unit).K });
+
+// Continuity and momentum of a segment in the Preissmann four-point scheme: time derivatives from
+// the mean of both nodes, space derivatives weighted θ on the new time level. Without old states
+// the time terms drop out, which gives the steady equations of the same discretisation.
+const segmentResidual = (
+    L: NodeState, R: NodeState, old: [NodeState, NodeState] | null, dx: number, dt: number, theta: number, qLat: number, G: number
+): [number, number] => {
+    const flux = (a: NodeState, b: NodeState) => (b.Q - a.Q) / dx;
+    const momentum = (a: NodeState, b: NodeState) => {
+        const Sf = 0.5 * ((a.Q * Math.abs(a.Q)) / (a.K * a.K) + (b.Q * Math.abs(b.Q)) / (b.K * b.K));
+        return (b.Q * b.Q / b.A - a.Q * a.Q / a.A) / dx + G * 0.5 * (a.A + b.A) * ((b.h - a.h) / dx + Sf);
+    };
+    if (!old) return [flux(L, R) - qLat, momentum(L, R)];
+    const [oL, oR] = old;
+    return [
+        (L.A + R.A - oL.A - oR.A) / (2 * dt) + theta * flux(L, R) + (1 - theta) * flux(oL, oR) - qLat,
+        (L.Q + R.Q - oL.Q - oR.Q) / (2 * dt) + theta * momentum(L, R) + (1 - theta) * momentum(oL, oR),
+    ];
+};
+
+// Dynamic-wave routing of the inflow hydrograph down the canal with the implicit Preissmann scheme.
+// The run starts from the steady state of the first inflow (the standard-step profile, then the
+// scheme's own steady equations) and advances in steps of Δt, each solved by Newton iterations
+// with the double sweep. Point and lateral inflows and seepage (taken at the previous time level)
+// enter the continuity equation; junction losses are neglected and inline structures are not
+// modelled. The scheme needs subcritical flow throughout. Past the last point of the hydrograph
+// the inflow is held and the run goes on for twice the travel time down the canal, so the wave
+// can pass the tail; timeScale converts its time unit to seconds.
+export const calculateUnsteadyFlow = (
+  type: ChannelType,
+  baseParams: InputParams,
+  sections: CanalSectionInput[],
+  hydrograph: HydrographPoint[],
+  timeScale: number,
+  options: UnsteadyOptions,
+  unit: UnitSystem
+): UnsteadyResult => {
+  const { G } = UNIT_CONSTANTS[unit];
+  const failed = (error: string): UnsteadyResult => ({
+      stations: [], snapshots: [], timeStep: options.timeStep, steps: 0, maxIterations: 0,
+      inflowVolume: 0, outflowVolume: 0, lateralVolume: 0, storageChange: 0, massBalanceError: 0, error,
+  });
+  const series = hydrograph.filter(d => isFinite(d.time) && isFinite(d.value)).sort((a, b) => a.time - b.time);
+  const { timeStep: dt, spaceStep, theta, downstream } = options;
+  if (series.length < 2 || !(series[series.length - 1].time > series[0].time)) return failed('Enter at least two points of the inflow hydrograph.');
+  if (sections.length === 0) return failed('Add at least one reach to the canal model.');
+  if (!(dt > 0) || !(spaceStep > 0) || !(timeScale > 0)) return failed('Δt and Δx must be positive.');
+  if (!(theta >= 0.5 && theta <= 1)) return failed('θ must lie between 0.5 and 1 for the scheme to be stable.');
+  const structure = sections.slice(0, -1).findIndex(s => s.structure);
+  if (structure >= 0) return failed(`Inline structures are not modelled in unsteady flow: remove the one at the end of reach ${structure + 1}.`);
+
+  // 1. Grid: each reach split into equal segments no longer than Δx
+  const slopes = sectionSlopes(sections);
+  const { zUp, zDown } = resolveBedLevels(sections);
+  const nodes: UnsteadyNode[] = [];
+  const links: UnsteadyLink[] = [];
+  let start = 0;
+  sections.forEach((s, i) => {
+      const reach = resolveReachSection(type, baseParams, s);
+      const params = { ...reach.params, slope: slopes[i] };
+      const n = Math.max(1, Math.ceil(s.length / spaceStep));
+      if (i > 0) links.push({ kind: 'Junction', inflow: s.pointInflow ?? 0 });
+      for (let k = 0; k <= n; k++) {
+          nodes.push({ sectionIndex: i, distance: start + (k * s.length) / n, z: zUp[i] + ((zDown[i] - zUp[i]) * k) / n, type: reach.type, params });
+          if (k > 0) links.push({ kind: 'Segment', dx: s.length / n, sectionIndex: i });
       }
-      return { ...s, slope };
+      start += s.length;
   });
+  const t0 = series[0].time;
+  if (nodes.length > MAX_UNSTEADY_NODES) return failed(`Δx gives ${nodes.length} nodes; use a longer Δx (at most ${MAX_UNSTEADY_NODES} nodes).`);
 
-  // 3. Execution Order
-  // If Upstream Calc (Backwater): Process Last Section -> First Section
-  // If Downstream Calc: Process First Section -> Last Section
-  const processingOrder = isUpstreamCalc 
-      ? [...computedSections].reverse().map((s, idx) => ({ s, originalIdx: computedSections.length - 1 - idx }))
-      : computedSections.map((s, idx) => ({ s, originalIdx: idx }));
+  const last = nodes[nodes.length - 1];
+  if (downstream.type === 'NormalDepth' && !(last.params.slope > 0)) return failed('Normal depth is undefined at the downstream end: the bed there is not falling.');
+  if (downstream.type === 'Stage' && !(downstream.depth > 0)) return failed('The downstream stage must be a positive depth.');
+  if (downstream.type === 'Rating' && !(downstream.coefficient > 0 && downstream.exponent > 0)) return failed('The rating coefficient and exponent must be positive.');
 
-  let currentDepth = bc.value;
+  const inflowAt = (step: number) => interpolateSeries(series, t0 + (step * dt) / timeScale) + (sections[0].pointInflow ?? 0);
+  const boundaryResidual = (s: NodeState) =>
+      downstream.type === 'Stage' ? s.y - downstream.depth
+      : downstream.type === 'Rating' ? s.Q - downstream.coefficient * Math.pow(s.y, downstream.exponent)
+      : s.Q - s.K * Math.sqrt(last.params.slope);
 
-  // We need to track Bed Elevation for continuity if doing energy balance
-  // But plotting requires global coordinates.
-  // Let's solve section by section, then stitch or store globally.
-  
-  // Strategy: 
-  // Loop through sections in order. 
-  // Maintain a "Current Boundary Depth" and "Current Junction Energy"
-  
-  for (let i = 0; i < processingOrder.length; i++) {
-      const { s, originalIdx } = processingOrder[i];
-      const sectionParams = { ...baseParams, slope: s.slope };
-      
-      const yn = solveNormalDepth(type, sectionParams, unit);
-      const yc = solveCriticalDepth(type, sectionParams, unit);
+  // Lateral inflow less seepage along a segment, from the depths and discharges given
+  const lateralFlow = (j: number, L: NodeState, R: NodeState): number => {
+      const link = links[j];
+      if (link.kind !== 'Segment') return 0;
+      const s = sections[link.sectionIndex];
+      const n = nodes[j];
+      const seep = hasSeepage(s)
+          ? 0.5 * (seepageLoss(n.type, withDischarge(n.params, L.Q), L.y, s, unit) + seepageLoss(n.type, withDischarge(n.params, R.Q), R.y, s, unit))
+          : 0;
+      return (s.lateralInflow ?? 0) - seep;
+  };
 
-      // Handle BC for this section
-      // For first processed section, use Global BC.
-      // For subsequent, calculate from previous section's end.
-      
-      if (i === 0) {
-          // Check type of BC
-          if (bc.type === 'NormalDepth') currentDepth = yn;
-          else if (bc.type === 'CriticalDepth') currentDepth = yc;
-          else currentDepth = bc.value;
-      } else {
-          // Transition logic (Continuity)
-          // Previous section ended at 'currentDepth'. 
-          // We need to account for Bed Step if using Elevation mode.
-          const prevSec = processingOrder[i-1].s;
-          const currSec = s;
-
-          // Elevations at the junction
-          // If moving Upstream (Backwater): Junction is (Prev Upstream) <-> (Curr Downstream)
-          // If moving Downstream: Junction is (Prev Downstream) <-> (Curr Upstream)
-          
-          let z_prev_end = 0;
-          let z_curr_start = 0;
-
-          if (isUpstreamCalc) {
-               // Moving 3 -> 2. Prev is 3. Curr is 2.
-               // Junction is Upstream of 3 and Downstream of 2.
-               if (prevSec.inputMode === 'Elevation') z_prev_end = prevSec.usElevation;
-               if (currSec.inputMode === 'Elevation') z_curr_start = currSec.dsElevation;
-          } else {
-               // Moving 1 -> 2. Prev is 1. Curr is 2.
-               // Junction is Downstream of 1 and Upstream of 2.
-               if (prevSec.inputMode === 'Elevation') z_prev_end = prevSec.dsElevation;
-               if (currSec.inputMode === 'Elevation') z_curr_start = currSec.usElevation;
-          }
+  // 2. Newton iterations with the double sweep. The links give ΔQ_j = E_j·Δy_j + F_j from the
+  // upstream discharge down; the downstream boundary closes the system and the depth
+  // corrections follow back up. Returns the iterations used, or null without convergence.
+  const solveLevel = (y: number[], Q: number[], upstreamQ: number, old: NodeState[] | null, qLat: number[]): number | null => {
+      for (let iter = 1; iter <= NEWTON_ITERATIONS; iter++) {
+          const states = nodes.map((n, j) => nodeState(n, y[j], Q[j], unit));
+          const hy = y.map(v => 1e-6 * Math.max(1, v));
+          const hQ = Q.map(v => 1e-6 * Math.max(1, Math.abs(v)));
+          const raisedY = nodes.map((n, j) => nodeState(n, y[j] + hy[j], Q[j], unit));
+          const raisedQ = (j: number) => ({ ...states[j], Q: Q[j] + hQ[j] });
 
-          // Energy Balance: E1 + z1 = E2 + z2
-          // E_prev + z_prev = E_curr + z_curr
-          const geomPrev = getGeometry(type, currentDepth, baseParams); // Q same
-          const Vprev = baseParams.flowRate / geomPrev.A;
-          const E_prev = currentDepth + (Vprev*Vprev)/(2*G);
-          const TotalHead = E_prev + z_prev_end;
-          
-          const E_req = TotalHead - z_curr_start;
-          
-          // Solve for new depth in current section with Specific Energy E_req
-          // Need to know regime. Usually assumes regime matches BC direction?
-          // If Downstream Control (Subcritical Calc), we seek Subcritical root.
-          const regime = isUpstreamCalc ? 'Subcritical' : 'Supercritical';
-          
-          // Fallback if step is crazy (E_req < E_min) -> Critical
-          const yc_curr = solveCriticalDepth(type, sectionParams, unit);
-          // Check E_min
-          const geomC = getGeometry(type, yc_curr, sectionParams);
-          const Vc = baseParams.flowRate / geomC.A;
-          const Ec = yc_curr + (Vc*Vc)/(2*G);
-
-          if (E_req < Ec) {
-              currentDepth = yc_curr; // Choke condition
-          } else {
-              currentDepth = solveDepthFromEnergy(type, sectionParams, E_req, unit, regime);
+          const E = new Array<number>(nodes.length).fill(0);
+          const F = new Array<number>(nodes.length).fill(0);
+          F[0] = upstreamQ - Q[0];
+          const back: { a: number; C: number; D: number; g: number }[] = [];
+          for (let j = 0; j < links.length; j++) {
+              const link = links[j];
+              const residual = (L: NodeState, R: NodeState): [number, number] => link.kind === 'Junction'
+                  ? [R.Q - L.Q - link.inflow, R.h - L.h]
+                  : segmentResidual(L, R, old && [old[j], old[j + 1]], link.dx, dt, theta, qLat[j], G);
+              const r = residual(states[j], states[j + 1]);
+              const d = [
+                  residual(raisedY[j], states[j + 1]).map((v, k) => (v - r[k]) / hy[j]),
+                  residual(raisedQ(j), states[j + 1]).map((v, k) => (v - r[k]) / hQ[j]),
+                  residual(states[j], raisedY[j + 1]).map((v, k) => (v - r[k]) / hy[j + 1]),
+                  residual(states[j], raisedQ(j + 1)).map((v, k) => (v - r[k]) / hQ[j + 1]),
+              ];
+              // Row k: d[0][k]·Δy_j + d[1][k]·ΔQ_j + d[2][k]·Δy_j+1 + d[3][k]·ΔQ_j+1 = -r_k
+              const a = [0, 1].map(k => d[0][k] + d[1][k] * E[j]);
+              const g = [0, 1].map(k => -r[k] - d[1][k] * F[j]);
+              const den = a[1] * d[3][0] - a[0] * d[3][1];
+              if (!isFinite(den) || den === 0) return null;
+              E[j + 1] = -(a[1] * d[2][0] - a[0] * d[2][1]) / den;
+              F[j + 1] = (a[1] * g[0] - a[0] * g[1]) / den;
+              const k = Math.abs(a[0]) >= Math.abs(a[1]) ? 0 : 1;
+              back.push({ a: a[k], C: d[2][k], D: d[3][k], g: g[k] });
           }
-      }
-
-      // Run GVF for this section
-      // If UpstreamCalc: dx is negative (L -> 0)
-      // If DownstreamCalc: dx is positive (0 -> L)
-      const dx = (s.length / stepPerSection) * (isUpstreamCalc ? -1 : 1);
-      
-      const sectionPoints: ProfilePoint[] = [];
-      let y = currentDepth;
-      let x_local = isUpstreamCalc ? s.length : 0;
-
-      // Bed Elevation Helper (Local)
-      // If Elevation Mode: Interpolate
-      // If Slope Mode: We stitch later? No, we need Z for profile point.
-      // We'll normalize Z later or compute relative to section start.
-      // Let's compute relative to Downstream end of section if UpstreamCalc?
-      // Easier: Compute relative to section Start (0) = z_start.
-      
-      // Determine Z_start for this section
-      let z_start_local = 0;
-      let z_slope = s.slope;
-      
-      if (s.inputMode === 'Elevation') {
-          z_start_local = s.usElevation; // At x_local = 0
-          // slope is calculated
-      } else {
-          // Slope Mode. We need to anchor Z.
-          // This is tricky for multi-reach visual stitching without absolute Z.
-          // For visualization, we will construct specific Z values later in a second pass 
-          // or assume continuous if Slope mode.
-          // Let's store "Depth" and "Local Distance". We will flatten to global coords later.
-      }
 
-      // Add Start Point
-      sectionPoints.push({
-          distance: x_local,
-          bedElevation: 0, // Placeholder
-          waterElevation: 0, // Placeholder
-          depth: y,
-          normalDepthElevation: 0, // Placeholder
-          criticalDepthElevation: 0, // Placeholder
-          sectionIndex: originalIdx
-      });
+          const N = nodes.length - 1;
+          const rD = boundaryResidual(states[N]);
+          const dDy = (boundaryResidual(raisedY[N]) - rD) / hy[N];
+          const dDQ = (boundaryResidual(raisedQ(N)) - rD) / hQ[N];
+          const dy = new Array<number>(nodes.length).fill(0);
+          const dQ = new Array<number>(nodes.length).fill(0);
+          dy[N] = (-rD - dDQ * F[N]) / (dDy + dDQ * E[N]);
+          dQ[N] = E[N] * dy[N] + F[N];
+          for (let j = N - 1; j >= 0; j--) {
+              const b = back[j];
+              dy[j] = (b.g - b.C * dy[j + 1] - b.D * dQ[j + 1]) / b.a;
+              dQ[j] = E[j] * dy[j] + F[j];
+          }
+          if (!dy.every(isFinite) || !dQ.every(isFinite)) return null;
 
-      for (let step = 0; step < stepPerSection; step++) {
-          if (y <= 0) break;
-          const geom = getGeometry(type, y, sectionParams);
-          if (geom.A === 0 || geom.T === 0) break;
-          
-          const V = baseParams.flowRate / geom.A;
-          const R = geom.P > 0 ? geom.A / geom.P : 0;
-          const Dh = geom.A / geom.T;
-          
-          const Sf = Math.pow((sectionParams.manningN * V) / (K * Math.pow(R, 2/3)), 2);
-          const Fr2 = (Math.pow(V, 2) / (G * Dh));
-          
-          const numerator = sectionParams.slope - Sf;
-          const denominator = 1 - Fr2;
-
-          if (Math.abs(denominator) < 0.05) {
-             // Near critical depth singularity
-             // Simple clamp or stop
-             // If we cross critical depth, standard step fails. 
-             // Ideally we stop or switch regimes. For now, stop.
-             // break;
-             // Let's just limit step size?
+          // Depths may not fall below a tenth of the iterate in one correction
+          for (let j = 0; j <= N; j++) {
+              y[j] = Math.max(y[j] + dy[j], 0.1 * y[j]);
+              Q[j] += dQ[j];
           }
+          const yScale = Math.max(1, ...y), qScale = Math.max(1, ...Q.map(Math.abs));
+          if (Math.max(...dy.map(Math.abs)) < NEWTON_TOLERANCE * yScale && Math.max(...dQ.map(Math.abs)) < NEWTON_TOLERANCE * qScale) return iter;
+      }
+      return null;
+  };
 
-          const dydx = numerator / denominator;
-          const dy = dydx * dx;
-          
-          y += dy;
-          x_local += dx;
-
-          // Bounds check
-          if (y <= 0) y = 0.01;
-          if (y > 100) y = 100;
-
-          sectionPoints.push({
-              distance: x_local,
-              bedElevation: 0,
-              waterElevation: 0,
-              depth: y,
-              normalDepthElevation: 0,
-              criticalDepthElevation: 0,
-              sectionIndex: originalIdx
-          });
+  // Closed conduits have no pressurised (slot) flow; supercritical flow breaks the boundary set
+  const checkState = (y: number[], Q: number[], time: number): string | null => {
+      for (let j = 0; j < nodes.length; j++) {
+          const n = nodes[j];
+          const rise = getConduitRise(n.type, n.params);
+          const at = time === t0 ? 'in the initial state' : `at t = ${+time.toFixed(3)}`;
+          if (rise !== null && y[j] >= rise) return `Reach ${n.sectionIndex + 1} runs full ${at}; pressurised flow is not modelled.`;
+          if (froudeAt(n.type, y[j], withDischarge(n.params, Q[j]), unit) >= 1) return `Flow turns supercritical in reach ${n.sectionIndex + 1} ${at}; the scheme needs subcritical flow.`;
       }
-      
-      // Update currentDepth for next iteration
-      currentDepth = y;
+      return null;
+  };
 
-      // Store points
-      if (isUpstreamCalc) {
-          allPoints.push(...sectionPoints.reverse()); // Store 0->L order
-      } else {
-          allPoints.push(...sectionPoints);
+  // 3. Initial steady state
+  const Q0 = interpolateSeries(series, t0);
+  const tailFlow = Q0 + sections.reduce((sum, s) => sum + (s.pointInflow ?? 0) + (s.lateralInflow ?? 0) * s.length, 0);
+  const control: ControlCondition = downstream.type === 'NormalDepth' ? { type: 'NormalDepth', value: 0 }
+      : { type: 'KnownDepth', value: downstream.type === 'Stage' ? downstream.depth : Math.pow(Math.max(tailFlow, TOLERANCE) / downstream.coefficient, 1 / downstream.exponent) };
+  const initial = calculateMultiReachProfile(type, { ...baseParams, flowRate: Q0 }, sections, { downstream: control }, unit);
+  if (initial.error) return failed(initial.error);
+  const guessAt = (n: UnsteadyNode, key: 'depth' | 'discharge') => {
+      const pts = initial.points.filter(p => p.sectionIndex === n.sectionIndex);
+      const k = pts.findIndex(p => p.distance >= n.distance - TOLERANCE);
+      if (k <= 0) return k === 0 ? pts[0][key] : pts[pts.length - 1][key];
+      const a = pts[k - 1], b = pts[k];
+      return b.distance === a.distance ? b[key] : a[key] + ((n.distance - a.distance) / (b.distance - a.distance)) * (b[key] - a[key]);
+  };
+  const y = nodes.map(n => guessAt(n, 'depth'));
+  const Q = nodes.map(n => guessAt(n, 'discharge'));
+  const lateralAt = (yv: number[], Qv: number[]) =>
+      links.map((_, j) => lateralFlow(j, nodeState(nodes[j], yv[j], Qv[j], unit), nodeState(nodes[j + 1], yv[j + 1], Qv[j + 1], unit)));
+  const guessError = checkState(y, Q, t0);
+  if (guessError) return failed(guessError);
+  // Seepage follows the depths, so the steady state is re-solved until it settles
+  for (let pass = 0; pass < SEEPAGE_ITERATIONS; pass++) {
+      if (solveLevel(y, Q, Q0 + (sections[0].pointInflow ?? 0), null, lateralAt(y, Q)) === null) {
+          return failed('The initial steady state did not converge; check the downstream boundary against the first inflow.');
       }
+      if (!sections.some(hasSeepage)) break;
   }
+  const initialError = checkState(y, Q, t0);
+  if (initialError) return failed(initialError);
 
-  // 4. Post-Processing: Stitch Coordinates and Elevations
-  // We need to map local distances to global chainage.
-  // We need to determine absolute Bed Z.
-  
-  // Sort sections by index
-  const finalPoints: ProfilePoint[] = [];
-  
-  // Calculate Global Start Distances for each section
-  let globalDist = 0;
-  const sectionStartDist: number[] = [];
-  for(let i=0; i<computedSections.length; i++) {
-      sectionStartDist[i] = globalDist;
-      globalDist += computedSections[i].length;
-  }
+  // Travel time down the canal from the initial state: the kinematic celerity on a falling bed,
+  // the dynamic one V + √(gA/T) elsewhere
+  const travel = links.reduce((sum, link, j) => {
+      if (link.kind !== 'Segment') return sum;
+      const n = nodes[j];
+      const geom = getGeometry(n.type, y[j], n.params);
+      const celerity = n.params.slope > 0
+          ? waveCelerity(n.type, y[j], n.params, unit)
+          : Math.abs(Q[j]) / geom.A + Math.sqrt((G * geom.A) / geom.T);
+      return sum + link.dx / celerity;
+  }, 0);
+  const steps = Math.ceil(((series[series.length - 1].time - t0) * timeScale + 2 * travel) / dt - 1e-9);
+  if (!isFinite(steps)) return failed('The flood wave does not travel down the canal.');
+  if (nodes.length * steps > MAX_UNSTEADY_WORK) return failed('The run needs too many time steps for this grid: lengthen Δt or Δx.');
 
-  // Determine Anchors for Elevation
-  // If Elevation Mode used anywhere, we should try to honor it.
-  // If mixed, it's messy. Let's assume:
-  // If Section has Elevations, use them.
-  // If Section is Slope, attach to previous/next Elevation.
-  // Default Z=0 at Downstream End if no info.
-  
-  // Let's build a Z_node array for section boundaries (0 to N)
-  const z_nodes: number[] = new Array(computedSections.length + 1).fill(null);
-  
-  // Fill knowns
-  computedSections.forEach((s, i) => {
-      if (s.inputMode === 'Elevation') {
-          z_nodes[i] = s.usElevation;
-          z_nodes[i+1] = s.dsElevation;
-      }
-  });
-  
-  // Fill unknowns (forward pass)
-  if (z_nodes[0] === null) z_nodes[0] = 100; // Arbitrary datum if completely unknown
-  for(let i=0; i<computedSections.length; i++) {
-      if (z_nodes[i+1] === null) {
-          // Z_down = Z_up - S*L
-          z_nodes[i+1] = z_nodes[i] - computedSections[i].slope * computedSections[i].length;
-      }
-  }
-  // If we had gaps filled by Elevation inputs, z_nodes is good. 
-  // If we have Slope mode following Elevation mode, it attaches.
-  // What if Slope mode precedes Elevation mode? (Backward pass)
-  // Re-check unknowns? (Actually Z_nodes[0] default handles the full float if all slope)
-  // If specific elevations are set later, we might need backward pass.
-  // Simple Backward pass:
-  for(let i=computedSections.length-1; i>=0; i--) {
-      if (z_nodes[i] === null && z_nodes[i+1] !== null) {
-          z_nodes[i] = z_nodes[i+1] + computedSections[i].slope * computedSections[i].length;
+  // 4. Time stepping
+  const storage = (states: NodeState[]) => links.reduce((sum, link, j) => link.kind === 'Segment' ? sum + 0.5 * (states[j].A + states[j + 1].A) * link.dx : sum, 0);
+  const stations: UnsteadyStation[] = nodes.map(n => ({ distance: n.distance, sectionIndex: n.sectionIndex, bedElevation: n.z }));
+  const snapshots: UnsteadySnapshot[] = [{ time: t0, depth: [...y], discharge: [...Q] }];
+  const stride = Math.max(1, Math.ceil(steps / MAX_SNAPSHOTS));
+  let states = nodes.map((n, j) => nodeState(n, y[j], Q[j], unit));
+  const initialStorage = storage(states);
+  let inflowVolume = 0, outflowVolume = 0, lateralVolume = 0, maxIterations = 0;
+  for (let step = 1; step <= steps; step++) {
+      const old = states;
+      const qLat = links.map((_, j) => lateralFlow(j, old[j], old[j + 1]));
+      const iterations = solveLevel(y, Q, inflowAt(step), old, qLat);
+      const time = t0 + (step * dt) / timeScale;
+      if (iterations === null) return failed(`The Newton iteration did not converge at t = ${+time.toFixed(3)}; shorten Δt or Δx.`);
+      maxIterations = Math.max(maxIterations, iterations);
+      states = nodes.map((n, j) => nodeState(n, y[j], Q[j], unit));
+
+      // Boundary fluxes with the scheme's own time weighting, so the balance closes to the iteration tolerance
+      const N = nodes.length - 1;
+      inflowVolume += dt * (theta * Q[0] + (1 - theta) * old[0].Q);
+      outflowVolume += dt * (theta * Q[N] + (1 - theta) * old[N].Q);
+      lateralVolume += dt * links.reduce((sum, link, j) =>
+          sum + (link.kind === 'Segment' ? qLat[j] * link.dx : link.inflow), 0);
+
+      if (step % stride === 0 || step === steps) {
+          const stateError = checkState(y, Q, time);
+          if (stateError) return failed(stateError);
+          snapshots.push({ time, depth: [...y], discharge: [...Q] });
       }
   }
 
-  // Now Map Points
-  // Group points by section
-  const pointsBySection = new Map<number, ProfilePoint[]>();
-  allPoints.forEach(p => {
-      if (!pointsBySection.has(p.sectionIndex)) pointsBySection.set(p.sectionIndex, []);
-      pointsBySection.get(p.sectionIndex)?.push(p);
-  });
-
-  for(let i=0; i<computedSections.length; i++) {
-      const s = computedSections[i];
-      const pts = pointsBySection.get(i) || [];
-      const startX = sectionStartDist[i];
-      const startZ = z_nodes[i];
-      
-      const yn = solveNormalDepth(type, { ...baseParams, slope: s.slope }, unit);
-      const yc = solveCriticalDepth(type, { ...baseParams, slope: s.slope }, unit);
+  const storageChange = storage(states) - initialStorage;
+  return {
+      stations,
+      snapshots,
+      timeStep: dt,
+      steps,
+      maxIterations,
+      inflowVolume,
+      outflowVolume,
+      lateralVolume,
+      storageChange,
+      massBalanceError: inflowVolume > 0 ? (inflowVolume + lateralVolume - outflowVolume - storageChange) / inflowVolume : 0,
+  };
+};
 
-      pts.forEach(p => {
-          // p.distance is local 0..L
-          const globalX = startX + p.distance;
-          // Bed Z = StartZ - S * localDist
-          const bedZ = startZ - s.slope * p.distance;
-          
-          finalPoints.push({
-              distance: globalX,
-              bedElevation: bedZ,
-              waterElevation: bedZ + p.depth,
-              depth: p.depth,
-              normalDepthElevation: bedZ + yn,
-              criticalDepthElevation: bedZ + yc,
-              sectionIndex: i
-          });
-      });
-  }
+// Depth, water level and discharge against time at a chainage, interpolated between stations
+export const unsteadyHydrographAt = (result: UnsteadyResult, distance: number): UnsteadyHydrographPoint[] => {
+  const { stations } = result;
+  if (stations.length === 0) return [];
+  let k = stations.findIndex(s => s.distance >= distance);
+  if (k < 0) k = stations.length - 1;
+  const j = Math.max(0, k - 1);
+  const span = stations[k].distance - stations[j].distance;
+  const w = span > 0 ? Math.min(1, Math.max(0, (distance - stations[j].distance) / span)) : 1;
+  const bed = stations[j].bedElevation + w * (stations[k].bedElevation - stations[j].bedElevation);
+  return result.snapshots.map(s => {
+      const depth = s.depth[j] + w * (s.depth[k] - s.depth[j]);
+      return { time: s.time, depth, waterLevel: bed + depth, discharge: s.discharge[j] + w * (s.discharge[k] - s.discharge[j]) };
+  });
+};
 
-  return finalPoints.sort((a, b) => a.distance - b.distance);
+// One snapshot as a longitudinal profile, for ProfileChart
+export const unsteadySnapshotProfile = (
+  type: ChannelType, baseParams: InputParams, sections: CanalSectionInput[], result: UnsteadyResult, index: number, unit: UnitSystem
+): ProfilePoint[] => {
+  const snapshot = result.snapshots[index];
+  if (!snapshot) return [];
+  const slopes = sectionSlopes(sections);
+  const points = result.stations.map((st, j): ProfilePoint => {
+      const reach = resolveReachSection(type, baseParams, sections[st.sectionIndex]);
+      const Q = snapshot.discharge[j];
+      const y = snapshot.depth[j];
+      const p = { ...reach.params, slope: slopes[st.sectionIndex], flowRate: Q };
+      const normal = slopes[st.sectionIndex] > 0 ? solveNormalDepth(reach.type, p, unit) : null;
+      const head = stationHead(reach.type, y, p, unit);
+      return {
+          distance: st.distance,
+          bedElevation: st.bedElevation,
+          waterElevation: st.bedElevation + y,
+          depth: y,
+          normalDepthElevation: normal?.converged ? st.bedElevation + normal.depth : null,
+          criticalDepthElevation: st.bedElevation + solveCriticalDepth(reach.type, p, unit).depth,
+          discharge: Q,
+          velocity: head.A > 0 ? Q / head.A : 0,
+          froudeNumber: froudeAt(reach.type, y, p, unit),
+          specificEnergy: head.E,
+          totalHead: st.bedElevation + head.E,
+          frictionSlope: head.Sf,
+          frictionLoss: 0,
+          localLoss: 0,
+          sectionIndex: st.sectionIndex,
+      };
+  });
+  accumulateHeadLosses(points);
+  return points;
 };
 
 export const calculateSectionProperties = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): SectionProperties => {
   const { G } = UNIT_CONSTANTS[unit];
   const geom = getGeometry(type, y, p);
+  const { alpha } = getConveyance(type, y, p, unit);
   const V = geom.A > 0 ? p.flowRate / geom.A : 0;
-  const E = y + (Math.pow(V, 2) / (2 * G));
+  const E = y + alpha * (Math.pow(V, 2) / (2 * G));
   const M = (geom.A > 0) 
     ? (Math.pow(p.flowRate, 2) / (G * geom.A)) + (geom.A * geom.centroidDepth)
     : 0;
@@ -476,24 +2436,241 @@ export const calculateSectionProperties = (type: ChannelType, y: number, p: Inpu
     topWidth: geom.T,
     specificEnergy: E,
     specificForce: M,
-    velocity: V
+    velocity: V,
+    wettedSubareas: type === ChannelType.Surveyed
+      ? getSurveyedSubareas(y, p.surveyPoints ?? []).length
+      : (geom.A > 0 ? 1 : 0)
+  };
+};
+
+// --- Specific Energy & Force Curves ---
+
+// E(y) and M(y) sampled from just above the invert to maxDepth
+export const sweepSectionProperties = (type: ChannelType, p: InputParams, unit: UnitSystem, maxDepth: number, samples: number = 120): SectionProperties[] => {
+  const points: SectionProperties[] = [];
+  for (let i = 1; i <= samples; i++) points.push(calculateSectionProperties(type, (maxDepth * i) / samples, p, unit));
+  return points;
+};
+
+// Depths on the other side of critical with the same specific energy (alternate)
+// and the same specific force (sequent). Null where the other branch has no root,
+// e.g. above the crown of a closed conduit.
+export const getConjugateDepths = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): { alternate: number | null; sequent: number | null } => {
+  const yc = solveCriticalDepth(type, p, unit).depth;
+  if (y <= 0 || p.flowRate <= 0 || Math.abs(y - yc) <= TOLERANCE * yc) return { alternate: null, sequent: null };
+  const props = calculateSectionProperties(type, y, p, unit);
+  const rise = getConduitRise(type, p);
+
+  // Both curves fall from infinity to a minimum at yc and rise again above it
+  const otherRoot = (value: (q: SectionProperties) => number): number | null => {
+    const target = value(props);
+    const f = (d: number) => value(calculateSectionProperties(type, d, p, unit)) / target - 1;
+    const [lo, hi] = y > yc ? [yc * 1e-6, yc] : [yc, bracketDepth(f, rise, 2 * yc)];
+    const sol = brentSolve(f, lo, hi);
+    return sol.converged ? sol.depth : null;
+  };
+  return { alternate: otherRoot(q => q.specificEnergy), sequent: otherRoot(q => q.specificForce) };
+};
+
+// Froude number at any depth, with the energy coefficient
+const froudeAt = (type: ChannelType, y: number, p: InputParams, unit: UnitSystem): number => {
+  const { G } = UNIT_CONSTANTS[unit];
+  const geom = getGeometry(type, y, p);
+  if (geom.A <= 0 || geom.T <= 0) return 0;
+  const { alpha } = getConveyance(type, y, p, unit);
+  return (p.flowRate / geom.A) * Math.sqrt(alpha * geom.T / (G * geom.A));
+};
+
+// --- Rating Curve ---
+
+// Normal-flow stage-discharge table from the invert to maxStage (capped at the crown of closed conduits)
+export const calculateRatingCurve = (type: ChannelType, p: InputParams, unit: UnitSystem, maxStage: number, steps: number = 50): RatingPoint[] => {
+  const top = Math.min(maxStage, getConduitRise(type, p) ?? Infinity);
+  const points: RatingPoint[] = [{ stage: 0, discharge: 0, area: 0, velocity: 0, hydraulicRadius: 0, froudeNumber: 0, specificEnergy: 0 }];
+  if (!(top > 0) || p.slope <= 0) return points;
+
+  for (let i = 1; i <= steps; i++) {
+    const y = (top * i) / steps;
+    const Q = getDischarge(type, y, p, unit);
+    const atQ = { ...p, flowRate: Q };
+    const props = calculateSectionProperties(type, y, atQ, unit);
+    points.push({
+      stage: y,
+      discharge: Q,
+      area: props.area,
+      velocity: props.velocity,
+      hydraulicRadius: props.hydraulicRadius,
+      froudeNumber: froudeAt(type, y, atQ, unit),
+      specificEnergy: props.specificEnergy,
+    });
+  }
+  return points;
+};
+
+// --- Transitions ---
+
+// Energy balance across a short transition (bed step and/or width change), losses
+// K |V1^2 - V2^2| / 2g with Kc for accelerating and Ke for decelerating flow.
+// The downstream depth stays on the upstream regime branch. When E1 cannot reach
+// Ec2 + dz + hL the transition chokes: section 2 goes critical and the upstream
+// depth has to rise until it can pass the flow.
+export const analyzeTransition = (type: ChannelType, p: InputParams, t: TransitionInput, unit: UnitSystem): TransitionResult => {
+  const { G } = UNIT_CONSTANTS[unit];
+  const p2: InputParams = { ...p, width: t.downstreamWidth };
+  const y1 = t.upstreamDepth;
+  const props1 = calculateSectionProperties(type, y1, p, unit);
+  const E1 = props1.specificEnergy;
+  const yc1 = solveCriticalDepth(type, p, unit).depth;
+  const yc2 = solveCriticalDepth(type, p2, unit).depth;
+  const Ec2 = calculateSectionProperties(type, yc2, p2, unit).specificEnergy;
+
+  const lossBetween = (V1: number, V2: number) => {
+    const dV2 = V2 * V2 - V1 * V1;
+    return (dV2 > 0 ? t.contractionCoeff : t.expansionCoeff) * Math.abs(dV2) / (2 * G);
+  };
+  const Vc2 = calculateSectionProperties(type, yc2, p2, unit).velocity;
+  const headLoss = (y2: number) => lossBetween(props1.velocity, calculateSectionProperties(type, y2, p2, unit).velocity);
+  const maxBedStep = E1 - Ec2 - headLoss(yc2);
+
+  const result: TransitionResult = {
+    upstreamDepth: y1, upstreamEnergy: E1, downstreamDepth: yc2, downstreamEnergy: Ec2,
+    downstreamCriticalDepth: yc2, downstreamCriticalEnergy: Ec2, headLoss: headLoss(yc2),
+    maxBedStep, choked: false, upstreamFroude: froudeAt(type, y1, p, unit), downstreamFroude: 1,
+  };
+  if (y1 <= 0 || p.flowRate <= 0) return { ...result, error: "Upstream depth and Q must be positive." };
+  if (t.downstreamWidth <= 0 && [ChannelType.Rectangular, ChannelType.Box, ChannelType.Parabolic].includes(type)) {
+    return { ...result, error: "Downstream width must be positive." };
+  }
+  if (t.contractionCoeff < 0 || t.expansionCoeff < 0) return { ...result, error: "Loss coefficients cannot be negative." };
+
+  if (t.bedStep > maxBedStep) {
+    // Choked: upstream energy rises to Ec2 + dz + hL, found on the subcritical branch
+    const f = (y: number) => {
+      const props = calculateSectionProperties(type, y, p, unit);
+      return props.specificEnergy - lossBetween(props.velocity, Vc2) - Ec2 - t.bedStep;
+    };
+    const hi = bracketDepth(f, getConduitRise(type, p), 2 * yc1);
+    const sol = f(hi) >= 0 ? brentSolve(f, yc1, hi) : null;
+    return {
+      ...result,
+      choked: true,
+      headLoss: sol?.converged ? lossBetween(calculateSectionProperties(type, sol.depth, p, unit).velocity, Vc2) : result.headLoss,
+      requiredUpstreamDepth: sol?.converged ? sol.depth : undefined,
+      upstreamRise: sol?.converged ? sol.depth - y1 : undefined,
+      error: sol?.converged ? undefined : "The transition chokes and no upstream depth can pass the flow.",
+    };
+  }
+
+  // E1 = E2 + dz + hL on the branch of the approach flow
+  const f = (y: number) => E1 - t.bedStep - calculateSectionProperties(type, y, p2, unit).specificEnergy - headLoss(y);
+  const sol = y1 >= yc1
+    ? brentSolve(f, yc2, bracketDepth(y => -f(y), getConduitRise(type, p2), 2 * yc2))
+    : brentSolve(f, yc2 * 1e-6, yc2);
+  if (!sol.converged) return { ...result, error: "No downstream depth satisfies the energy balance." };
+  const y2 = sol.depth;
+
+  return {
+    ...result,
+    downstreamDepth: y2,
+    downstreamEnergy: calculateSectionProperties(type, y2, p2, unit).specificEnergy,
+    headLoss: headLoss(y2),
+    downstreamFroude: froudeAt(type, y2, p2, unit),
+  };
+};
+
+// --- Hydraulic Jump ---
+
+const classifyJump = (Fr1: number): JumpType => {
+  if (Fr1 < 1.7) return 'Undular';
+  if (Fr1 < 2.5) return 'Weak';
+  if (Fr1 < 4.5) return 'Oscillating';
+  if (Fr1 < 9) return 'Steady';
+  return 'Strong';
+};
+
+// Sequent depth of a jump from supercritical depth y1, by equal specific force M on both sides.
+// The length uses the USBR rectangular-basin estimate L = 6.9 (y2 - y1).
+export const calculateHydraulicJump = (type: ChannelType, y1: number, p: InputParams, unit: UnitSystem): HydraulicJumpResult => {
+  const Fr1 = froudeAt(type, y1, p, unit);
+  const props1 = calculateSectionProperties(type, y1, p, unit);
+  const result: HydraulicJumpResult = {
+    upstreamDepth: y1, sequentDepth: y1, upstreamFroude: Fr1, downstreamFroude: Fr1,
+    upstreamVelocity: props1.velocity, downstreamVelocity: props1.velocity, specificForce: props1.specificForce,
+    energyLoss: 0, jumpHeight: 0, efficiency: 1, length: 0, jumpType: classifyJump(Fr1),
+  };
+  if (y1 <= 0 || p.flowRate <= 0) return { ...result, error: "Upstream depth and Q must be positive." };
+  if (Fr1 <= 1) return { ...result, error: "Upstream flow must be supercritical (Fr > 1) for a jump to form." };
+
+  // M decreases to its minimum at yc and rises again, so the sequent root lies above yc
+  const M1 = props1.specificForce;
+  const f = (y: number) => calculateSectionProperties(type, y, p, unit).specificForce / M1 - 1;
+  const yc = solveCriticalDepth(type, p, unit).depth;
+  const rise = getConduitRise(type, p);
+  const lo = Math.max(yc, y1);
+  const hi = bracketDepth(f, rise, 2 * lo);
+  if (f(hi) < 0) {
+    return { ...result, error: rise !== null
+      ? "The sequent depth exceeds the conduit rise; the jump would seal the conduit."
+      : "No sequent depth found within the search range." };
+  }
+  const y2 = brentSolve(f, lo, hi).depth;
+  const props2 = calculateSectionProperties(type, y2, p, unit);
+
+  return {
+    ...result,
+    sequentDepth: y2,
+    downstreamFroude: froudeAt(type, y2, p, unit),
+    downstreamVelocity: props2.velocity,
+    energyLoss: props1.specificEnergy - props2.specificEnergy,
+    jumpHeight: y2 - y1,
+    efficiency: props2.specificEnergy / props1.specificEnergy,
+    length: 6.9 * (y2 - y1),
   };
 };
 
 export const calculateFlow = (type: ChannelType, p: InputParams, unit: UnitSystem = 'SI'): CalculationResult => {
   try {
-    if (p.slope <= 0 || p.manningN <= 0 || p.flowRate <= 0) throw new Error("Slope, n, and Q must be positive.");
-    if (type === ChannelType.Circular && p.diameter <= 0) throw new Error("Diameter must be positive.");
-    if (type === ChannelType.Rectangular && p.width <= 0) throw new Error("Width must be positive.");
+    if (p.slope <= 0 || p.flowRate <= 0) throw new Error("Slope and Q must be positive.");
+    const law = getFrictionLaw(p);
+    if (law === 'Manning' && p.manningN <= 0) throw new Error("Manning's n must be positive.");
+    if (law === 'Chezy' && (p.chezyC ?? 0) <= 0) throw new Error("Chezy C must be positive.");
+    if (law === 'Strickler' && (p.stricklerK ?? 0) <= 0) throw new Error("Strickler coefficient must be positive.");
+    if (law === 'DarcyWeisbach' && (p.roughnessHeight ?? -1) < 0) throw new Error("Roughness height ks cannot be negative.");
+    const c = p.compositeRoughness;
+    if (law === 'Manning' && c && supportsCompositeRoughness(type) && getPerimeterParts(type, 1, p, c).some(part => part.n <= 0)) throw new Error("All composite roughness values must be positive.");
+    if ((type === ChannelType.Circular || type === ChannelType.Horseshoe || type === ChannelType.Egg) && p.diameter <= 0) throw new Error("Diameter must be positive.");
+    if ((type === ChannelType.Rectangular || type === ChannelType.Box || type === ChannelType.Parabolic || type === ChannelType.PipeArch) && p.width <= 0) throw new Error("Width must be positive.");
+    if ((type === ChannelType.Box || type === ChannelType.Parabolic) && (p.height ?? 0) <= 0) throw new Error("Height must be positive.");
+    if (type === ChannelType.PipeArch && ((p.height ?? 0) <= p.width / 2 || (p.height ?? 0) > p.width)) throw new Error("Pipe-arch rise must be between half the span and the span.");
+    if (type === ChannelType.Trapezoidal || type === ChannelType.Triangular) {
+      const { zL, zR } = getSideSlopes(p);
+      if (zL < 0 || zR < 0) throw new Error("Side slopes cannot be negative.");
+      if (type === ChannelType.Triangular && zL + zR <= 0) throw new Error("At least one side slope must be positive.");
+    }
+    if (type === ChannelType.RoundBottom && ((p.bottomRadius ?? 0) < 0 || p.sideSlope <= 0)) throw new Error("Side slope must be positive and bottom radius non-negative.");
+    if (type === ChannelType.Compound) {
+      if (p.width <= 0) throw new Error("Main channel width must be positive.");
+      const banks = [p.leftOverbank, p.rightOverbank];
+      if (banks.some(b => !b || b.bankHeight <= 0 || b.width < 0)) throw new Error("Bank heights must be positive and overbank widths non-negative.");
+      if (banks.some(b => b && b.width > 0 && b.manningN <= 0)) throw new Error("Overbank n must be positive.");
+    }
+    if (type === ChannelType.Surveyed) {
+      const pts = p.surveyPoints ?? [];
+      if (pts.length < 3) throw new Error("At least three station-elevation points are required.");
+      if (pts.some((pt, i) => i > 0 && pt.station < pts[i - 1].station)) throw new Error("Stations must be in ascending order.");
+    }
 
-    const yn = solveNormalDepth(type, p, unit);
-    const yc = solveCriticalDepth(type, p, unit);
+    const normal = solveNormalDepth(type, p, unit);
+    const critical = solveCriticalDepth(type, p, unit);
+    const yn = normal.depth;
+    const yc = critical.depth;
     const { G } = UNIT_CONSTANTS[unit];
 
     const geomN = getGeometry(type, yn, p);
+    const convN = getConveyance(type, yn, p, unit);
     const V = p.flowRate / geomN.A;
     const D_hyd = geomN.A / geomN.T;
-    const Fr = V / Math.sqrt(G * D_hyd);
+    const Fr = V * Math.sqrt(convN.alpha / (G * D_hyd));
 
     let regime: 'Subcritical' | 'Supercritical' | 'Critical' = 'Critical';
     if (Fr < 0.99) regime = 'Subcritical';
@@ -509,12 +2686,133 @@ export const calculateFlow = (type: ChannelType, p: InputParams, unit: UnitSyste
       froudeNumber: Fr,
       flowRegime: regime,
       criticalVelocity: Vc,
+      energyCoefficient: convN.alpha,
+      equivalentN: law === 'Manning'
+        ? getEquivalentManningN(type, yn, p)
+        : UNIT_CONSTANTS[unit].K * geomN.A * Math.pow(geomN.A / geomN.P, 2/3) / convN.K,
+      friction: getFrictionResult(type, yn, p, unit),
+      normalDepthSolver: { iterations: normal.iterations, residual: normal.residual, converged: normal.converged },
+      criticalDepthSolver: { iterations: critical.iterations, residual: critical.residual, converged: critical.converged },
+      subsections: type === ChannelType.Compound
+        ? convN.subsections.map(sub => {
+            // Discharge splits in proportion to conveyance
+            const Qi = p.flowRate * (sub.K / convN.K);
+            return { label: sub.label, area: sub.A, conveyance: sub.K, discharge: Qi, velocity: sub.A > 0 ? Qi / sub.A : 0 };
+          })
+        : undefined,
+      pipe: type === ChannelType.Circular ? analyzePipe(p, yn, unit) : undefined,
     };
   } catch (e: any) {
     return {
       normalDepth: 0, criticalDepth: 0, velocity: 0, froudeNumber: 0, 
-      flowRegime: 'Critical', criticalVelocity: 0,
+      flowRegime: 'Critical', criticalVelocity: 0, energyCoefficient: 1, equivalentN: p.manningN,
+      normalDepthSolver: NOT_SOLVED, criticalDepthSolver: NOT_SOLVED,
+      friction: { law: getFrictionLaw(p), frictionFactor: 0, reynoldsNumber: 0, relativeRoughness: 0, regime: 'Laminar' },
       error: e.message
     };
   }
 };
+
+// --- Inverse Solvers ---
+
+const logSpace = (lo: number, hi: number, n: number) =>
+  Array.from({ length: n + 1 }, (_, i) => lo * Math.pow(hi / lo, i / n));
+
+const INVERSE_REL_TOL = 1e-10;
+
+const bisectRoot = (f: (x: number) => number, a: number, b: number): number => {
+  let fa = f(a);
+  for (let i = 0; i < MAX_ITER; i++) {
+    const mid = (a + b) / 2;
+    const fm = f(mid);
+    if (fm === 0 || (b - a) / 2 < INVERSE_REL_TOL * Math.max(Math.abs(mid), 1e-12)) return mid;
+    if (fa * fm < 0) b = mid;
+    else { a = mid; fa = fm; }
+  }
+  return (a + b) / 2;
+};
+
+// All sign changes of f over the sampled points, each refined by bisection.
+// Samples where f is not finite (invalid geometry) are skipped.
+export const findRoots = (f: (x: number) => number, samples: number[]): number[] => {
+  const roots: number[] = [];
+  let xPrev = NaN, fPrev = NaN;
+  for (const x of samples) {
+    const fx = f(x);
+    if (!isFinite(fx)) { xPrev = NaN; fPrev = NaN; continue; }
+    if (fx === 0) roots.push(x);
+    else if (isFinite(fPrev) && fPrev !== 0 && fPrev * fx < 0) roots.push(bisectRoot(f, xPrev, x));
+    xPrev = x;
+    fPrev = fx;
+  }
+  return roots.filter((r, i) => i === 0 || Math.abs(r - roots[i - 1]) > 1e-6 * Math.abs(r));
+};
+
+// Inputs that can be solved for with the given shape
+export const getSolveTargets = (type: ChannelType, p: InputParams): SolveTarget[] => {
+  const targets: SolveTarget[] = ['depth', 'flowRate', 'slope'];
+  if (getFrictionLaw(p) === 'Manning' && !(p.compositeRoughness && supportsCompositeRoughness(type))) targets.push('manningN');
+  if ([ChannelType.Rectangular, ChannelType.Trapezoidal, ChannelType.Compound, ChannelType.Parabolic, ChannelType.Box, ChannelType.PipeArch].includes(type)) targets.push('width');
+  if ([ChannelType.Circular, ChannelType.Horseshoe, ChannelType.Egg].includes(type)) targets.push('diameter');
+  const asymmetric = p.leftSideSlope !== undefined || p.rightSideSlope !== undefined;
+  if ([ChannelType.Trapezoidal, ChannelType.Triangular, ChannelType.Compound, ChannelType.RoundBottom].includes(type) && !asymmetric) targets.push('sideSlope');
+  return targets;
+};
+
+// Search range for each unknown; closed conduits must be at least as tall as the known depth
+const getSearchSamples = (type: ChannelType, p: InputParams, target: SolveTarget, y: number): number[] => {
+  switch (target) {
+    case 'width':
+      if (type === ChannelType.PipeArch) return logSpace(p.height ?? 0, 2 * (p.height ?? 0), 200).slice(0, -1);
+      return logSpace(1e-3, 1e4, 400);
+    case 'diameter':
+      const minD = type === ChannelType.Egg ? y / 1.5 : y;
+      return logSpace(Math.max(minD, 1e-3), Math.max(minD, 1e-3) * 1e4, 400);
+    case 'sideSlope':
+      return [0, ...logSpace(1e-3, 100, 300)];
+    case 'slope':
+      return logSpace(1e-8, 1, 400);
+    case 'manningN':
+      return logSpace(1e-4, 1, 300);
+    default:
+      return [];
+  }
+};
+
+export const solveInverse = (type: ChannelType, p: InputParams, target: SolveTarget, y: number, unit: UnitSystem): InverseResult => {
+  const none = (error: string): InverseResult => ({ target, value: null, roots: [], error });
+  if (target === 'depth') {
+    // Conveyance peaks below the crown of a closed conduit, so a flow near capacity has two
+    // normal depths; the whole rise is scanned for them
+    const rise = getConduitRise(type, p);
+    if (rise !== null && rise > 0 && p.slope > 0 && p.flowRate > 0) {
+      const samples = Array.from({ length: 400 }, (_, i) => (rise * (i + 1)) / 400);
+      const roots = findRoots(d => getConveyance(type, d, p, unit).K * Math.sqrt(p.slope) - p.flowRate, samples);
+      if (roots.length > 0) return { target, value: roots[0], roots };
+    }
+    const yn = solveNormalDepth(type, p, unit).depth;
+    return { target, value: yn, roots: [yn] };
+  }
+  if (y <= 0) return none("Depth must be positive.");
+
+  const discharge = (q: InputParams) => getConveyance(type, y, q, unit).K * Math.sqrt(q.slope);
+  if (target === 'flowRate') {
+    if (p.slope <= 0) return none("Slope must be positive.");
+    if (getFrictionLaw(p) === 'Manning' && p.manningN <= 0) return none("Manning's n must be positive.");
+    const rise = getConduitRise(type, p);
+    if (rise !== null && y > rise) return none("Depth exceeds the conduit rise.");
+    const Q = getDischarge(type, y, p, unit);
+    return { target, value: Q, roots: [Q] };
+  }
+  if (p.flowRate <= 0) return none("Q must be positive.");
+
+  const residual = (x: number) => {
+    const q = { ...p, [target]: x };
+    const rise = getConduitRise(type, q);
+    if (rise !== null && y > rise) return NaN;
+    return discharge(q) - p.flowRate;
+  };
+  const roots = findRoots(residual, getSearchSamples(type, p, target, y));
+  if (roots.length === 0) return none("No solution in the search range for these inputs.");
+  return { target, value: roots[0], roots };
+};